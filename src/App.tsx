@@ -3,16 +3,25 @@
    整合所有元件，管理全域狀態
 =================================== */
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo, useRef } from 'react';
 import { TrendingUp, Github, AlertCircle, X } from 'lucide-react';
-import type { BacktestConfig, DrawdownTier, BacktestResult, PriceDataPoint, ApiError } from './types';
+import type { BacktestConfig, DrawdownTier, BacktestResult, PriceDataPoint, PriceHistory, ApiError } from './types';
 import { fetchPriceHistory } from './services/api';
-import { runBacktest } from './utils/calculator';
+import { isAbortError } from './services/httpClient';
+import { runBacktest, runBenchmarkBacktest } from './utils/calculator';
+import { getSchedule } from './utils/schedule';
+import { analyzePriceData } from './utils/dataQuality';
 import ControlPanel from './components/ControlPanel';
 import BacktestChart from './components/BacktestChart';
 import ResultsSummary from './components/ResultsSummary';
 import TradeLog from './components/TradeLog';
+import PriceDataStatus from './components/PriceDataStatus';
+import DataQualityWarnings from './components/DataQualityWarnings';
 import StrategyComparison from './components/StrategyComparison';
+import MonteCarloPanel from './components/MonteCarloPanel';
+import RollingWindowsPanel from './components/RollingWindowsPanel';
+import SensitivityPanel from './components/SensitivityPanel';
+import PortfolioPanel from './components/PortfolioPanel';
 
 export default function App() {
     // 狀態管理
@@ -20,6 +29,8 @@ export default function App() {
     const [isLoadingChart, setIsLoadingChart] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [prices, setPrices] = useState<PriceDataPoint[]>([]);
+    const [priceInfo, setPriceInfo] = useState<Omit<PriceHistory, 'prices'> | null>(null);
+    const [priceCoinId, setPriceCoinId] = useState<string | null>(null);
     const [result, setResult] = useState<BacktestResult | null>(null);
     const [standardResult, setStandardResult] = useState<BacktestResult | null>(null);
 
@@ -29,64 +40,99 @@ export default function App() {
     const [loadedConfig, setLoadedConfig] = useState<BacktestConfig | null>(null);
     const [loadedTiers, setLoadedTiers] = useState<DrawdownTier[] | null>(null);
 
+    // 進行中的價格載入 (切換幣種時取消舊的請求)
+    const coinLoadRef = useRef<{ coinId: string; controller: AbortController } | null>(null);
+    const backtestLoadRef = useRef<AbortController | null>(null);
+
+    // 價格資料品質報告
+    const dataQuality = useMemo(() => analyzePriceData(prices), [prices]);
+
+    /**
+     * 更新價格與資料狀態
+     */
+    const applyPriceHistory = useCallback((coinId: string, history: PriceHistory) => {
+        const { prices: priceData, ...info } = history;
+        setPrices(priceData);
+        setPriceInfo(info);
+        setPriceCoinId(coinId);
+    }, []);
+
     /**
      * 選擇幣種後載入歷史走勢圖
-     * 使用 CoinGecko 免費 API 最大範圍：約 1 年
+     * 優先使用本機快取，只抓取缺少的最新資料
      */
-    const handleCoinChange = useCallback(async (coinId: string) => {
+    const handleCoinChange = useCallback(async (coinId: string, forceRefresh = false) => {
+        // 取消上一個幣種 (與進行中回測) 尚未完成的請求
+        coinLoadRef.current?.controller.abort();
+        backtestLoadRef.current?.abort();
+        const load = { coinId, controller: new AbortController() };
+        coinLoadRef.current = load;
+
         setIsLoadingChart(true);
         setError(null);
         setResult(null); // 清除舊的回測結果
 
         try {
-            const priceData = await fetchPriceHistory(coinId); // 自動抓取全歷史
-            setPrices(priceData);
+            const history = await fetchPriceHistory(coinId, { forceRefresh, signal: load.controller.signal }); // 自動抓取全歷史
+            applyPriceHistory(coinId, history);
         } catch (err) {
+            if (isAbortError(err)) return;
             const apiError = err as ApiError;
             setError(apiError.message || '無法載入價格資料');
             console.error('載入走勢圖失敗:', err);
             setPrices([]);
+            setPriceInfo(null);
+            setPriceCoinId(null);
         } finally {
-            setIsLoadingChart(false);
+            if (coinLoadRef.current === load) {
+                coinLoadRef.current = null;
+                setIsLoadingChart(false);
+            }
         }
-    }, []);
+    }, [applyPriceHistory]);
 
     /**
      * 執行回測
      */
     async function handleRunBacktest(config: BacktestConfig, tiers: DrawdownTier[]) {
+        // 同幣種的走勢圖載入可共用請求，其他幣種的載入則取消
+        if (coinLoadRef.current && coinLoadRef.current.coinId !== config.coinId) {
+            coinLoadRef.current.controller.abort();
+        }
+        backtestLoadRef.current?.abort();
+        const controller = new AbortController();
+        backtestLoadRef.current = controller;
+
         setIsLoading(true);
         setError(null);
         setCurrentConfig(config);
         setCurrentTiers(tiers);
 
         try {
-            // 1. 取得歷史價格 (目前 fetchPriceHistory 會抓全量，這邊傳時間只是備用)
-            // 實際上 api.ts 已經優化為抓全歷史，所以這裡的 config.startDate 不影響資料抓取範圍
-            const priceData = await fetchPriceHistory(config.coinId);
-            setPrices(priceData);
+            // 1. 取得歷史價格 (完整歷史，快取仍新鮮時不會發出請求)
+            // config.startDate 不影響資料抓取範圍
+            const history = await fetchPriceHistory(config.coinId, { signal: controller.signal });
+            applyPriceHistory(config.coinId, history);
+            const priceData = history.prices;
 
-            // 2. 執行回測計算 (Smart Strategy)
-            const backtestResult = runBacktest(priceData, config, tiers);
+            // 2. 執行回測計算 (Smart Strategy)，並記錄資料來源
+            const backtestResult = { ...runBacktest(priceData, config, tiers), dataSource: history.source };
             setResult(backtestResult);
 
-            // 3. 執行標準 DCA 回測 (Baseline - 無加碼)
-            // 修正邏輯：為了公平比較 ROI，若策略因資金耗盡提早結束，
-            // Benchmark 也應該在同一天結束，以排除「牛市回升時間長度」造成的偏差。
-            let benchmarkConfig = { ...config };
-            if (backtestResult.fundsDepletedDate) {
-                benchmarkConfig.endDate = backtestResult.fundsDepletedDate;
-            }
-
-            const stdResult = runBacktest(priceData, benchmarkConfig, []);
+            // 3. 執行標準 DCA 回測 (Baseline - 無加碼，策略資金耗盡時同日結算)
+            const stdResult = { ...runBenchmarkBacktest(priceData, config, backtestResult), dataSource: history.source };
             setStandardResult(stdResult);
 
         } catch (err) {
+            if (isAbortError(err)) return;
             const apiError = err as ApiError;
             setError(apiError.message || '發生未知錯誤');
             console.error('回測失敗:', err);
         } finally {
-            setIsLoading(false);
+            if (backtestLoadRef.current === controller) {
+                backtestLoadRef.current = null;
+                setIsLoading(false);
+            }
         }
     }
 
@@ -168,11 +214,22 @@ export default function App() {
                     {/* 右側：結果區域 (排版順序: 圖表 -> 結果 -> 策略 -> 交易紀錄) */}
                     <section className="lg:col-span-8 space-y-6">
                         {/* 1. 價格走勢圖 (最上方) */}
-                        <div className="fade-in">
+                        <div className="fade-in space-y-2">
+                            {priceInfo && priceCoinId && (
+                                <PriceDataStatus
+                                    prices={prices}
+                                    info={priceInfo}
+                                    isRefreshing={isLoadingChart}
+                                    onRefresh={() => handleCoinChange(priceCoinId, true)}
+                                />
+                            )}
+                            {prices.length > 0 && <DataQualityWarnings report={dataQuality} />}
                             <BacktestChart
                                 prices={prices}
                                 trades={result?.trades || []}
+                                equityCurve={result?.equityCurve}
                                 fundsDepletedDate={result?.fundsDepletedDate}
+                                drawdownReference={result ? currentConfig?.drawdownReference : undefined}
                                 isLoading={isLoadingChart}
                             />
                         </div>
@@ -184,6 +241,34 @@ export default function App() {
                             </div>
                         )}
 
+                        {/* 2b. 蒙地卡羅模擬 (以目前策略在模擬路徑上的結果分佈) */}
+                        {result && currentConfig && currentTiers && (
+                            <div className="fade-in">
+                                <MonteCarloPanel prices={prices} config={currentConfig} tiers={currentTiers} />
+                            </div>
+                        )}
+
+                        {/* 2c. 滾動起始日分析 (進場時機的影響) */}
+                        {result && currentConfig && currentTiers && (
+                            <div className="fade-in">
+                                <RollingWindowsPanel prices={prices} config={currentConfig} tiers={currentTiers} />
+                            </div>
+                        )}
+
+                        {/* 2d. 參數敏感度 (設定值附近的穩定性) */}
+                        {result && currentConfig && currentTiers && (
+                            <div className="fade-in">
+                                <SensitivityPanel prices={prices} config={currentConfig} tiers={currentTiers} />
+                            </div>
+                        )}
+
+                        {/* 2e. 多幣種投資組合 (沿用目前設定) */}
+                        {result && currentConfig && currentTiers && (
+                            <div className="fade-in">
+                                <PortfolioPanel config={currentConfig} tiers={currentTiers} />
+                            </div>
+                        )}
+
                         {/* 3. 策略比較與儲存 (新增) */}
                         <div className="fade-in">
                             <StrategyComparison
@@ -198,7 +283,11 @@ export default function App() {
                         {/* 4. 交易紀錄 (最下方) */}
                         {result && result.trades.length > 0 && (
                             <div className="fade-in">
-                                <TradeLog trades={result.trades} />
+                                <TradeLog
+                                    trades={result.trades}
+                                    schedule={currentConfig ? getSchedule(currentConfig) : undefined}
+                                    drawdownReference={currentConfig?.drawdownReference}
+                                />
                             </div>
                         )}
                     </section>
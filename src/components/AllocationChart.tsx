@@ -0,0 +1,90 @@
+/* ===================================
+   Allocation Chart Component
+   投資組合各資產市值與現金的堆疊面積圖
+=================================== */
+
+import type { AllocationPoint } from '../utils/portfolio';
+
+interface AllocationChartProps {
+    points: AllocationPoint[];
+    labels: string[];          // 與 values 同順序
+}
+
+const WIDTH = 480;
+const HEIGHT = 220;
+const PADDING = { top: 10, right: 12, bottom: 24, left: 60 };
+const COLORS = ['#38bdf8', '#a78bfa', '#34d399', '#fbbf24', '#f472b6', '#fb923c', '#22d3ee', '#a3e635'];
+const CASH_COLOR = '#475569';
+
+function formatUsd(value: number): string {
+    return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+}
+
+export default function AllocationChart({ points, labels }: AllocationChartProps) {
+    if (points.length < 2) return null;
+
+    // 由下往上依序堆疊：各資產，最上層為現金
+    const stacks = points.map(p => {
+        const layers = [...p.values, p.cash];
+        let sum = 0;
+        return layers.map(v => (sum += Math.max(0, v)));
+    });
+    const layerCount = labels.length + 1;
+    const yMax = Math.max(...stacks.map(s => s[s.length - 1]), 1);
+    const xMin = points[0].timestamp;
+    const xMax = points[points.length - 1].timestamp;
+
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+    const scaleX = (t: number) => PADDING.left + ((t - xMin) / (xMax - xMin)) * plotWidth;
+    const scaleY = (v: number) => PADDING.top + (1 - v / yMax) * plotHeight;
+
+    /**
+     * 第 layer 層的區塊 (上緣由左到右，下緣由右到左)
+     */
+    function area(layer: number): string {
+        const top = points.map((p, i) => `${scaleX(p.timestamp)},${scaleY(stacks[i][layer])}`);
+        const bottom = points
+            .map((p, i) => `${scaleX(p.timestamp)},${scaleY(layer > 0 ? stacks[i][layer - 1] : 0)}`)
+            .reverse();
+        return [...top, ...bottom].join(' ');
+    }
+
+    return (
+        <div>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">
+                <line x1={PADDING.left} y1={HEIGHT - PADDING.bottom} x2={WIDTH - PADDING.right} y2={HEIGHT - PADDING.bottom} stroke="#475569" />
+                <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={HEIGHT - PADDING.bottom} stroke="#475569" />
+                <text x={PADDING.left - 4} y={PADDING.top + 8} fill="#94a3b8" fontSize={9} textAnchor="end">{formatUsd(yMax)}</text>
+                <text x={PADDING.left - 4} y={HEIGHT - PADDING.bottom} fill="#94a3b8" fontSize={9} textAnchor="end">$0</text>
+                <text x={PADDING.left} y={HEIGHT - 6} fill="#94a3b8" fontSize={9}>{new Date(xMin).toLocaleDateString('zh-TW')}</text>
+                <text x={WIDTH - PADDING.right} y={HEIGHT - 6} fill="#94a3b8" fontSize={9} textAnchor="end">
+                    {new Date(xMax).toLocaleDateString('zh-TW')}
+                </text>
+
+                {Array.from({ length: layerCount }, (_, layer) => (
+                    <polygon
+                        key={layer}
+                        points={area(layer)}
+                        fill={layer < labels.length ? COLORS[layer % COLORS.length] : CASH_COLOR}
+                        fillOpacity={layer < labels.length ? 0.6 : 0.35}
+                    />
+                ))}
+            </svg>
+
+            {/* 圖例 */}
+            <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400 mt-1">
+                {labels.map((label, i) => (
+                    <span key={label} className="flex items-center gap-1">
+                        <span className="w-3 h-2 inline-block" style={{ background: COLORS[i % COLORS.length] }} />
+                        {label}
+                    </span>
+                ))}
+                <span className="flex items-center gap-1">
+                    <span className="w-3 h-2 inline-block" style={{ background: CASH_COLOR }} />
+                    現金
+                </span>
+            </div>
+        </div>
+    );
+}
@@ -6,13 +6,16 @@
 import { useEffect, useRef, useState } from 'react';
 import { createChart, ColorType, LineStyle } from 'lightweight-charts';
 import type { IChartApi, ISeriesApi, SeriesMarker, Time, MouseEventParams } from 'lightweight-charts';
-import type { PriceDataPoint, TradeRecord } from '../types';
+import type { DrawdownReference, EquityPoint, PriceDataPoint, TradeRecord } from '../types';
 import { Loader2 } from 'lucide-react';
+import { computeDrawdownSeries, describeDrawdownReference } from '../utils/drawdownReference';
 
 interface BacktestChartProps {
     prices: PriceDataPoint[];
     trades: TradeRecord[];
+    equityCurve?: EquityPoint[];
     fundsDepletedDate?: Date;
+    drawdownReference?: DrawdownReference; // 回撤曲線的參考點 (預設為 ATH)
     isLoading?: boolean;
 }
 
@@ -20,22 +23,36 @@ interface TooltipData {
     date: string;
     price: number;
     drawdown: number;
+    equity?: {
+        totalValue: number;
+        invested: number;
+    };
     buyInfo?: {
         multiplier: number;
         amount: number;
     };
+    sellInfo?: {
+        sellPercent: number;
+        amount: number;
+    };
     x: number;
     y: number;
 }
 
-export default function BacktestChart({ prices, trades, isLoading }: BacktestChartProps) {
+// 固定的空陣列參考，避免每次 render 觸發資料更新
+const EMPTY_EQUITY: EquityPoint[] = [];
+
+export default function BacktestChart({ prices, trades, equityCurve = EMPTY_EQUITY, drawdownReference, isLoading }: BacktestChartProps) {
     const chartContainerRef = useRef<HTMLDivElement>(null);
     const chartRef = useRef<IChartApi | null>(null);
     const priceSeriesRef = useRef<ISeriesApi<'Line'> | null>(null);
     const drawdownSeriesRef = useRef<ISeriesApi<'Area'> | null>(null);
+    const equitySeriesRef = useRef<ISeriesApi<'Line'> | null>(null);
+    const investedSeriesRef = useRef<ISeriesApi<'Line'> | null>(null);
 
     const [tooltipData, setTooltipData] = useState<TooltipData | null>(null);
     const [showDrawdown, setShowDrawdown] = useState(true);
+    const [showEquity, setShowEquity] = useState(true);
 
     // 初始化圖表
     useEffect(() => {
@@ -112,9 +129,34 @@ export default function BacktestChart({ prices, trades, isLoading }: BacktestCha
 
         });
 
+        // 3. 資產曲線 (總資產 + 累計投入) - 獨立的 overlay 軸，置於圖表下半部
+        const equitySeries = chart.addLineSeries({
+            color: '#34d399', // Emerald-400
+            lineWidth: 2,
+            priceScaleId: 'equity',
+            lastValueVisible: false,
+            priceLineVisible: false,
+        });
+        const investedSeries = chart.addLineSeries({
+            color: '#c084fc', // Purple-400
+            lineWidth: 1,
+            lineStyle: LineStyle.Dashed,
+            priceScaleId: 'equity',
+            lastValueVisible: false,
+            priceLineVisible: false,
+        });
+        chart.priceScale('equity').applyOptions({
+            scaleMargins: {
+                top: 0.6,
+                bottom: 0,
+            },
+        });
+
         chartRef.current = chart;
         priceSeriesRef.current = priceSeries;
         drawdownSeriesRef.current = drawdownSeries;
+        equitySeriesRef.current = equitySeries;
+        investedSeriesRef.current = investedSeries;
 
         // Tooltip 監聽
         chart.subscribeCrosshairMove((param: MouseEventParams) => {
@@ -131,21 +173,32 @@ export default function BacktestChart({ prices, trades, isLoading }: BacktestCha
 
             const priceData = param.seriesData.get(priceSeries) as { value: number; time: Time } | undefined;
             const drawdownData = param.seriesData.get(drawdownSeries) as { value: number; time: Time } | undefined;
+            const equityData = param.seriesData.get(equitySeries) as { value: number; time: Time } | undefined;
+            const investedData = param.seriesData.get(investedSeries) as { value: number; time: Time } | undefined;
 
             if (priceData) {
                 // 查找交易
                 const trade = trades.find(t =>
                     Math.floor(t.date.getTime() / 1000) === (param.time as number)
                 );
+                const isSell = trade?.side === 'sell';
 
                 setTooltipData({
                     date: new Date((param.time as number) * 1000).toLocaleDateString(),
                     price: priceData.value,
                     drawdown: drawdownData ? drawdownData.value : 0,
-                    buyInfo: trade ? {
+                    equity: equityData ? {
+                        totalValue: equityData.value,
+                        invested: investedData ? investedData.value : 0
+                    } : undefined,
+                    buyInfo: trade && !isSell ? {
                         multiplier: trade.multiplier,
                         amount: trade.amount
                     } : undefined,
+                    sellInfo: trade && isSell ? {
+                        sellPercent: trade.sellPercent || 0,
+                        amount: trade.amount
+                    } : undefined,
                     x: param.point.x,
                     y: param.point.y
                 });
@@ -175,19 +228,24 @@ export default function BacktestChart({ prices, trades, isLoading }: BacktestCha
         }
     }, [showDrawdown]);
 
+    // Effect: Toggle Equity Curve Visibility
+    useEffect(() => {
+        equitySeriesRef.current?.applyOptions({ visible: showEquity });
+        investedSeriesRef.current?.applyOptions({ visible: showEquity });
+    }, [showEquity]);
+
     // 更新資料
     useEffect(() => {
         if (!priceSeriesRef.current || !drawdownSeriesRef.current || !chartRef.current) return;
 
-        let runningAth = 0;
+        // 回撤背景依回測使用的參考點計算 (高於參考價時顯示為 0)
+        const drawdownSeries = computeDrawdownSeries(prices, drawdownReference, trades);
         const drawdownChartData = [];
         const priceChartData = [];
 
-        for (const p of prices) {
-            runningAth = Math.max(runningAth, p.price);
-            const drawdown = runningAth > 0
-                ? ((runningAth - p.price) / runningAth) * 100
-                : 0;
+        for (let i = 0; i < prices.length; i++) {
+            const p = prices[i];
+            const drawdown = Math.max(0, -drawdownSeries[i].drawdown * 100);
 
             const time = Math.floor(p.timestamp / 1000) as Time;
 
@@ -198,6 +256,16 @@ export default function BacktestChart({ prices, trades, isLoading }: BacktestCha
         priceSeriesRef.current.setData(priceChartData);
         drawdownSeriesRef.current.setData(drawdownChartData);
 
+        // 資產曲線 (僅回測區間)
+        equitySeriesRef.current?.setData(equityCurve.map(p => ({
+            time: Math.floor(p.date.getTime() / 1000) as Time,
+            value: p.totalValue
+        })));
+        investedSeriesRef.current?.setData(equityCurve.map(p => ({
+            time: Math.floor(p.date.getTime() / 1000) as Time,
+            value: p.invested
+        })));
+
         // 設定買入標記 (小圓點)
         // 顏色邏輯：每 0.5 為一個級距
         const getMarkerColor = (m: number) => {
@@ -210,7 +278,17 @@ export default function BacktestChart({ prices, trades, isLoading }: BacktestCha
 
         const markers: SeriesMarker<Time>[] = trades
             .filter(t => !t.insufficientFunds)
-            .map(trade => {
+            .map((trade): SeriesMarker<Time> => {
+                // 賣出標記 (向下箭頭)
+                if (trade.side === 'sell') {
+                    return {
+                        time: Math.floor(trade.date.getTime() / 1000) as Time,
+                        position: 'aboveBar',
+                        color: '#f43f5e',
+                        shape: 'arrowDown',
+                        size: 0.8,
+                    };
+                }
                 return {
                     time: Math.floor(trade.date.getTime() / 1000) as Time,
                     position: 'inBar',
@@ -223,13 +301,16 @@ export default function BacktestChart({ prices, trades, isLoading }: BacktestCha
 
         priceSeriesRef.current.setMarkers(markers);
         chartRef.current.timeScale().fitContent();
-    }, [prices, trades]);
+    }, [prices, trades, equityCurve, drawdownReference]);
 
     return (
         <div className="card">
             <div className="flex items-center justify-between mb-4">
                 <div className="flex items-center gap-4">
                     <h2 className="text-xl font-bold text-gradient">價格走勢與回撤</h2>
+                    {drawdownReference && drawdownReference.type !== 'ath' && (
+                        <span className="text-xs text-orange-400/80">回撤{describeDrawdownReference(drawdownReference)}</span>
+                    )}
                 </div>
 
                 <div className="flex items-center gap-6">
@@ -255,10 +336,26 @@ export default function BacktestChart({ prices, trades, isLoading }: BacktestCha
                             <div className="w-2.5 h-2.5 rounded-full bg-fuchsia-500" />
                             <span>&gt;3.0x</span>
                         </div>
+                        <div className="flex items-center gap-1.5">
+                            <span className="text-rose-500 leading-none">▼</span>
+                            <span>Sell</span>
+                        </div>
                         <div className="flex items-center gap-1.5">
                             <div className="w-2.5 h-2.5 bg-orange-400/50" />
                             <span>Drawdown</span>
                         </div>
+                        {equityCurve.length > 0 && (
+                            <>
+                                <div className="flex items-center gap-1.5">
+                                    <div className="w-3 h-0.5 bg-emerald-400" />
+                                    <span>Equity</span>
+                                </div>
+                                <div className="flex items-center gap-1.5">
+                                    <div className="w-3 h-0 border-t border-dashed border-purple-400" />
+                                    <span>Invested</span>
+                                </div>
+                            </>
+                        )}
                     </div>
 
                     {/* 切換開關 */}
@@ -271,6 +368,17 @@ export default function BacktestChart({ prices, trades, isLoading }: BacktestCha
                         />
                         <span className="text-sm text-slate-300">顯示回撤背景</span>
                     </label>
+                    {equityCurve.length > 0 && (
+                        <label className="flex items-center gap-2 cursor-pointer select-none">
+                            <input
+                                type="checkbox"
+                                checked={showEquity}
+                                onChange={e => setShowEquity(e.target.checked)}
+                                className="w-4 h-4 rounded border-slate-600 bg-slate-800 text-sky-500 focus:ring-offset-slate-900"
+                            />
+                            <span className="text-sm text-slate-300">顯示資產曲線</span>
+                        </label>
+                    )}
                 </div>
             </div>
 
@@ -311,6 +419,16 @@ export default function BacktestChart({ prices, trades, isLoading }: BacktestCha
                                 </>
                             )}
 
+                            {showEquity && tooltipData.equity && (
+                                <>
+                                    <span className="text-emerald-400">Equity:</span>
+                                    <span className="font-mono text-right text-white">${tooltipData.equity.totalValue.toFixed(0)}</span>
+
+                                    <span className="text-purple-400">Invested:</span>
+                                    <span className="font-mono text-right text-white">${tooltipData.equity.invested.toFixed(0)}</span>
+                                </>
+                            )}
+
                             {tooltipData.buyInfo && (
                                 <>
                                     <div className="col-span-2 h-px bg-slate-700 my-0.5" />
@@ -321,6 +439,17 @@ export default function BacktestChart({ prices, trades, isLoading }: BacktestCha
                                     <span className="font-mono text-right text-white">${tooltipData.buyInfo.amount.toFixed(0)}</span>
                                 </>
                             )}
+
+                            {tooltipData.sellInfo && (
+                                <>
+                                    <div className="col-span-2 h-px bg-slate-700 my-0.5" />
+                                    <span className="text-rose-400">Sell:</span>
+                                    <span className="font-mono text-right font-bold text-rose-400">{(tooltipData.sellInfo.sellPercent * 100).toFixed(0)}%</span>
+
+                                    <span className="text-rose-400">Proceeds:</span>
+                                    <span className="font-mono text-right text-white">${tooltipData.sellInfo.amount.toFixed(0)}</span>
+                                </>
+                            )}
                         </div>
                     </div>
                 )}
@@ -0,0 +1,128 @@
+/* ===================================
+   閒置現金收益設定元件
+   固定年化利率或匯入利率序列
+=================================== */
+
+import { useRef, useState } from 'react';
+import { Upload, AlertCircle } from 'lucide-react';
+import type { ApiError, CashYieldModel } from '../types';
+import { describeCashYield, parseRateFile } from '../utils/cashYield';
+
+interface CashYieldEditorProps {
+    value?: CashYieldModel;
+    onChange: (model: CashYieldModel | undefined) => void;
+}
+
+const DEFAULT_MODEL: CashYieldModel = { type: 'fixed', apy: 0.04 };
+
+export default function CashYieldEditor({ value, onChange }: CashYieldEditorProps) {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [skipped, setSkipped] = useState(0);
+
+    /**
+     * 讀取並解析利率檔
+     */
+    async function handleFile(file: File) {
+        setError(null);
+        try {
+            const result = parseRateFile(await file.text());
+            setSkipped(result.skipped);
+            onChange({ type: 'series', rates: result.rates });
+        } catch (err) {
+            setError((err as ApiError).message || '無法解析利率檔');
+        }
+    }
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-3">
+                <label className="label mb-0 flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={value !== undefined}
+                        onChange={e => {
+                            setError(null);
+                            onChange(e.target.checked ? DEFAULT_MODEL : undefined);
+                        }}
+                    />
+                    閒置現金計息
+                </label>
+                {value && <span className="text-xs text-sky-400/80">{describeCashYield(value)}</span>}
+            </div>
+
+            {value ? (
+                <div className="space-y-3">
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="label">利率來源</label>
+                            <select
+                                value={value.type}
+                                onChange={e => {
+                                    setError(null);
+                                    onChange(e.target.value === 'fixed' ? DEFAULT_MODEL : { type: 'series', rates: [] });
+                                }}
+                                className="input-field"
+                            >
+                                <option value="fixed">固定年化利率</option>
+                                <option value="series">匯入利率序列</option>
+                            </select>
+                        </div>
+                        {value.type === 'fixed' ? (
+                            <div>
+                                <label className="label">年化利率 (%)</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={0.25}
+                                    value={Number((value.apy * 100).toFixed(2))}
+                                    onChange={e => onChange({ type: 'fixed', apy: Math.max(0, Number(e.target.value)) / 100 })}
+                                    className="input-field"
+                                />
+                            </div>
+                        ) : (
+                            <div className="flex items-end">
+                                <input
+                                    ref={fileInputRef}
+                                    type="file"
+                                    accept=".csv,.txt,text/csv,text/plain"
+                                    className="hidden"
+                                    onChange={e => {
+                                        const file = e.target.files?.[0];
+                                        if (file) handleFile(file);
+                                        e.target.value = ''; // 允許重複選擇同一檔案
+                                    }}
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => fileInputRef.current?.click()}
+                                    className="flex items-center gap-1.5 text-xs text-sky-400 hover:text-sky-300 transition-colors pb-3"
+                                >
+                                    <Upload size={14} />
+                                    匯入利率檔 (CSV)
+                                </button>
+                            </div>
+                        )}
+                    </div>
+
+                    {value.type === 'series' && (
+                        <p className="text-xs text-slate-500">
+                            每行「日期, 年化利率 %」，例如 2024-01-01,5.25；每筆利率適用至下一筆日期
+                            {skipped > 0 && <span className="text-amber-400/80">，已略過 {skipped} 行無法解析的資料</span>}
+                        </p>
+                    )}
+                    {error && (
+                        <p className="flex items-center gap-1 text-xs text-red-400">
+                            <AlertCircle size={12} />
+                            {error}
+                        </p>
+                    )}
+                </div>
+            ) : (
+                <p className="text-xs text-slate-500">
+                    未啟用，未投入的現金不計利息
+                </p>
+            )}
+        </div>
+    );
+}
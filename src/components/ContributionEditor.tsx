@@ -0,0 +1,114 @@
+/* ===================================
+   入金計畫設定元件
+   每月入金、年度調幅與一次性入金
+=================================== */
+
+import { useState } from 'react';
+import type { ContributionPlan, OneOffContribution } from '../types';
+import { describeContributions } from '../utils/contributions';
+
+interface ContributionEditorProps {
+    value?: ContributionPlan;
+    onChange: (plan: ContributionPlan | undefined) => void;
+}
+
+const DEFAULT_PLAN: ContributionPlan = { amount: 1000, dayOfMonth: 1, annualRaise: 0, oneOffs: [] };
+
+/**
+ * 解析一次性入金 (每行「YYYY-MM-DD 金額」)
+ */
+function parseOneOffs(text: string): OneOffContribution[] {
+    return text
+        .split('\n')
+        .map(line => line.trim().split(/[\s,]+/))
+        .filter(([date, amount]) => /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(new Date(date).getTime()) && Number(amount) > 0)
+        .map(([date, amount]) => ({ date, amount: Number(amount) }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export default function ContributionEditor({ value, onChange }: ContributionEditorProps) {
+    // 文字輸入框保留原始字串，避免輸入到一半被格式化
+    const [oneOffText, setOneOffText] = useState(value ? value.oneOffs.map(o => `${o.date} ${o.amount}`).join('\n') : '');
+
+    function update(patch: Partial<ContributionPlan>) {
+        if (!value) return;
+        onChange({ ...value, ...patch });
+    }
+
+    function handleOneOffChange(text: string) {
+        setOneOffText(text);
+        update({ oneOffs: parseOneOffs(text) });
+    }
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-3">
+                <label className="label mb-0 flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={value !== undefined}
+                        onChange={e => {
+                            setOneOffText('');
+                            onChange(e.target.checked ? DEFAULT_PLAN : undefined);
+                        }}
+                    />
+                    定期入金
+                </label>
+                {value && <span className="text-xs text-sky-400/80">{describeContributions(value)}</span>}
+            </div>
+
+            {value ? (
+                <div className="space-y-3">
+                    <div className="grid grid-cols-3 gap-4">
+                        <div>
+                            <label className="label">每月入金 (USD)</label>
+                            <input
+                                type="number"
+                                min={0}
+                                step={100}
+                                value={value.amount}
+                                onChange={e => update({ amount: Math.max(0, Number(e.target.value)) })}
+                                className="input-field"
+                            />
+                        </div>
+                        <div>
+                            <label className="label">入金日</label>
+                            <input
+                                type="number"
+                                min={1}
+                                max={31}
+                                value={value.dayOfMonth}
+                                onChange={e => update({ dayOfMonth: Math.min(31, Math.max(1, Math.round(Number(e.target.value)))) })}
+                                className="input-field"
+                            />
+                        </div>
+                        <div>
+                            <label className="label">每年調幅 (%)</label>
+                            <input
+                                type="number"
+                                step={0.5}
+                                value={Number((value.annualRaise * 100).toFixed(2))}
+                                onChange={e => update({ annualRaise: Number(e.target.value) / 100 })}
+                                className="input-field"
+                            />
+                        </div>
+                    </div>
+                    <div>
+                        <label className="label">一次性入金</label>
+                        <textarea
+                            rows={2}
+                            value={oneOffText}
+                            onChange={e => handleOneOffChange(e.target.value)}
+                            placeholder={'每行一筆，例如:\n2024-01-25 5000'}
+                            className="input-field font-mono text-sm"
+                        />
+                    </div>
+                </div>
+            ) : (
+                <p className="text-xs text-slate-500">
+                    未啟用，所有定投都從初始資金支出
+                </p>
+            )}
+        </div>
+    );
+}
@@ -5,11 +5,26 @@
 
 import { useState, useEffect } from 'react';
 import { Plus, Trash2, Play, RotateCcw, Sparkles, X } from 'lucide-react';
-import type { BacktestConfig, DrawdownTier, CoinOption, PriceDataPoint } from '../types';
+import type { BacktestConfig, DrawdownTier, SellTier, CostModel, DcaSchedule, CoinOption, PriceDataPoint, GapHandling, ContributionPlan, CashYieldModel, DrawdownReference, MultiplierCurve } from '../types';
 import { fetchCoinList } from '../services/api';
+import { listCustomAssets, deleteCustomAsset, isCustomAsset } from '../services/customAssets';
+import { unregisterMockAsset, MOCK_ASSET_PREFIX } from '../services/providers';
 import { getDefaultTiers } from '../utils/calculator';
+import { FEE_PRESETS } from '../utils/fees';
+import { getSchedule } from '../utils/schedule';
+import { GAP_HANDLING_LABELS } from '../utils/dataQuality';
 import RealTimeCalculator from './RealTimeCalculator';
 import OptimizerPanel from './OptimizerPanel';
+import SellTierEditor from './SellTierEditor';
+import CostModelEditor from './CostModelEditor';
+import ScheduleEditor from './ScheduleEditor';
+import ContributionEditor from './ContributionEditor';
+import CashYieldEditor from './CashYieldEditor';
+import DrawdownReferenceEditor from './DrawdownReferenceEditor';
+import MultiplierCurveEditor from './MultiplierCurveEditor';
+import CustomAssetImporter from './CustomAssetImporter';
+import ProviderSettings from './ProviderSettings';
+import SyntheticMarketGenerator from './SyntheticMarketGenerator';
 
 // LocalStorage Key
 const STORAGE_KEY = 'dca_calculator_config';
@@ -23,10 +38,17 @@ interface ControlPanelProps {
     initialTiers?: DrawdownTier[] | null;
 }
 
+/**
+ * 是否為合成價格資產 (模擬資料來源)
+ */
+function isSyntheticAsset(coinId: string): boolean {
+    return coinId.startsWith(MOCK_ASSET_PREFIX);
+}
+
 /**
  * 從 LocalStorage 載入設定
  */
-function loadConfig(): { config: Partial<BacktestConfig>; tiers: DrawdownTier[] } {
+function loadConfig(): { config: Partial<BacktestConfig>; tiers: DrawdownTier[]; useLatestEnd: boolean } {
     try {
         const saved = localStorage.getItem(STORAGE_KEY);
         if (saved) {
@@ -37,21 +59,22 @@ function loadConfig(): { config: Partial<BacktestConfig>; tiers: DrawdownTier[]
                     startDate: parsed.config.startDate ? new Date(parsed.config.startDate) : undefined,
                     endDate: parsed.config.endDate ? new Date(parsed.config.endDate) : undefined,
                 },
-                tiers: parsed.tiers || getDefaultTiers()
+                tiers: parsed.tiers || getDefaultTiers(),
+                useLatestEnd: parsed.useLatestEnd ?? true // 舊版設定沒有此欄位，一律視為回測至最新
             };
         }
     } catch (e) {
         console.warn('無法載入設定:', e);
     }
-    return { config: {}, tiers: getDefaultTiers() };
+    return { config: {}, tiers: getDefaultTiers(), useLatestEnd: true };
 }
 
 /**
  * 儲存設定到 LocalStorage
  */
-function saveConfig(config: BacktestConfig, tiers: DrawdownTier[]) {
+function saveConfig(config: BacktestConfig, tiers: DrawdownTier[], useLatestEnd: boolean) {
     try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify({ config, tiers }));
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({ config, tiers, useLatestEnd }));
     } catch (e) {
         console.warn('無法儲存設定:', e);
     }
@@ -67,6 +90,8 @@ export default function ControlPanel({ prices, onRunBacktest, onCoinChange, isLo
     // 幣種列表
     const [coins, setCoins] = useState<CoinOption[]>([]);
     const [loadingCoins, setLoadingCoins] = useState(true);
+    const [customAssets, setCustomAssets] = useState<CoinOption[]>([]);
+    const [syntheticAssets, setSyntheticAssets] = useState<CoinOption[]>([]);
 
     // 表單狀態 - 優先使用 initialConfig，否則使用 localStorage
     const [coinId, setCoinId] = useState(saved.config.coinId || 'bitcoin');
@@ -75,24 +100,57 @@ export default function ControlPanel({ prices, onRunBacktest, onCoinChange, isLo
             ? saved.config.startDate.toISOString().split('T')[0]
             : getDefaultStartDate()
     );
-    // endDate 移除狀態，預設為當天 (邏輯上如果不設結束日，就是到最新)
+    // 結束日期：勾選「至最新」時回測到最新一筆價格
+    const [useLatestEnd, setUseLatestEnd] = useState(saved.useLatestEnd);
+    const [endDate, setEndDate] = useState(
+        !saved.useLatestEnd && saved.config.endDate
+            ? saved.config.endDate.toISOString().split('T')[0]
+            : getToday()
+    );
 
     const [initialCapital, setInitialCapital] = useState(saved.config.initialCapital || 10000);
     const [baseDcaAmount, setBaseDcaAmount] = useState(saved.config.baseDcaAmount || 100);
-    const [dcaFrequency, setDcaFrequency] = useState(saved.config.dcaFrequency || 7);
-
-    // 回撤級距表
+    const [schedule, setSchedule] = useState<DcaSchedule>(
+        saved.config.schedule || { type: 'interval', days: saved.config.dcaFrequency || 7 }
+    );
+    const [contributions, setContributions] = useState<ContributionPlan | undefined>(saved.config.contributions);
+    const [cashYield, setCashYield] = useState<CashYieldModel | undefined>(saved.config.cashYield);
+    const [scheduleEditorKey, setScheduleEditorKey] = useState(0); // 載入策略時重建排程與入金編輯器
+    const [costModel, setCostModel] = useState<CostModel>(saved.config.costModel || FEE_PRESETS[0]);
+    const [gapHandling, setGapHandling] = useState<GapHandling>(saved.config.gapHandling || 'skip');
+
+    // 跌幅參考點、倍率曲線與回撤級距表
+    const [drawdownReference, setDrawdownReference] = useState<DrawdownReference | undefined>(saved.config.drawdownReference);
+    const [multiplierCurve, setMultiplierCurve] = useState<MultiplierCurve | undefined>(saved.config.multiplierCurve);
     const [tiers, setTiers] = useState<DrawdownTier[]>(saved.tiers);
 
+    // 級距來自最佳化時的亂數種子 (手動修改級距後清除)
+    const [optimizerSeed, setOptimizerSeed] = useState<number | undefined>(saved.config.optimizerSeed);
+
+    // 出場級距表
+    const [sellTiers, setSellTiers] = useState<SellTier[]>(saved.config.sellTiers || []);
+
     // 監聽外部載入的設定 (Load Strategy)
     useEffect(() => {
         if (initialConfig && initialTiers) {
             setCoinId(initialConfig.coinId);
             setStartDate(initialConfig.startDate.toISOString().split('T')[0]);
+            // 載入策略時還原當時的結束日期，確保結果可重現
+            setEndDate(initialConfig.endDate.toISOString().split('T')[0]);
+            setUseLatestEnd(false);
             setInitialCapital(initialConfig.initialCapital);
             setBaseDcaAmount(initialConfig.baseDcaAmount);
-            setDcaFrequency(initialConfig.dcaFrequency);
+            setSchedule(getSchedule(initialConfig));
+            setContributions(initialConfig.contributions);
+            setCashYield(initialConfig.cashYield);
+            setDrawdownReference(initialConfig.drawdownReference);
+            setMultiplierCurve(initialConfig.multiplierCurve);
+            setScheduleEditorKey(k => k + 1);
+            setSellTiers(initialConfig.sellTiers || []);
+            setCostModel(initialConfig.costModel || FEE_PRESETS[0]);
+            setGapHandling(initialConfig.gapHandling || 'skip');
             setTiers(initialTiers);
+            setOptimizerSeed(initialConfig.optimizerSeed);
 
             // 觸發幣種變更以載入圖表
             if (onCoinChange) {
@@ -101,14 +159,24 @@ export default function ControlPanel({ prices, onRunBacktest, onCoinChange, isLo
         }
     }, [initialConfig, initialTiers, onCoinChange]);
 
-    // 載入幣種列表
+    // 載入幣種列表 (含自訂資產與合成資產)
     useEffect(() => {
         fetchCoinList()
             .then(data => {
-                setCoins(data);
+                setCoins(data.filter(c => !isCustomAsset(c.id) && !isSyntheticAsset(c.id)));
+                setCustomAssets(data.filter(c => isCustomAsset(c.id)));
+                setSyntheticAssets(data.filter(c => isSyntheticAsset(c.id)));
+
+                // 合成資產只存在於記憶體，重新整理後改用第一個幣種
+                let initialCoinId = coinId;
+                if (isSyntheticAsset(coinId) && !data.some(c => c.id === coinId)) {
+                    initialCoinId = data[0]?.id || 'bitcoin';
+                    setCoinId(initialCoinId);
+                }
+
                 // 僅在沒有 initialConfig 時才自動載入預設
                 if (!initialConfig && onCoinChange && data.length > 0) {
-                    onCoinChange(coinId);
+                    onCoinChange(initialCoinId);
                 }
             })
             .catch(console.error)
@@ -125,6 +193,13 @@ export default function ControlPanel({ prices, onRunBacktest, onCoinChange, isLo
         return date.toISOString().split('T')[0];
     }
 
+    /**
+     * 取得今天日期 (YYYY-MM-DD)
+     */
+    function getToday(): string {
+        return new Date().toISOString().split('T')[0];
+    }
+
     /**
      * 幣種變更處理
      */
@@ -135,6 +210,56 @@ export default function ControlPanel({ prices, onRunBacktest, onCoinChange, isLo
         }
     }
 
+    /**
+     * 匯入完成後切換到該自訂資產
+     */
+    async function handleAssetImported(asset: CoinOption) {
+        setCustomAssets(await listCustomAssets());
+        handleCoinChange(asset.id);
+    }
+
+    /**
+     * 產生合成價格後切換到該資產 (同 ID 重新產生時覆蓋)
+     */
+    function handleSyntheticGenerated(asset: CoinOption) {
+        setSyntheticAssets([...syntheticAssets.filter(a => a.id !== asset.id), asset]);
+        handleCoinChange(asset.id);
+    }
+
+    /**
+     * 刪除目前選擇的自訂資產或合成資產
+     */
+    async function handleDeleteAsset() {
+        if (isSyntheticAsset(coinId)) {
+            unregisterMockAsset(coinId);
+            setSyntheticAssets(syntheticAssets.filter(a => a.id !== coinId));
+            handleCoinChange(coins[0]?.id || 'bitcoin');
+            return;
+        }
+
+        const asset = customAssets.find(a => a.id === coinId);
+        if (!asset || !confirm(`確定要刪除自訂資產「${asset.name}」？`)) return;
+        await deleteCustomAsset(asset.id);
+        setCustomAssets(customAssets.filter(a => a.id !== asset.id));
+        handleCoinChange(coins[0]?.id || 'bitcoin');
+    }
+
+    /**
+     * 手動修改級距 (不再對應任何最佳化結果)
+     */
+    function changeTiers(newTiers: DrawdownTier[]) {
+        setTiers(newTiers);
+        setOptimizerSeed(undefined);
+    }
+
+    /**
+     * 手動修改倍率曲線 (公式參數可能來自最佳化，一併清除種子)
+     */
+    function changeMultiplierCurve(curve: MultiplierCurve) {
+        setMultiplierCurve(curve);
+        setOptimizerSeed(undefined);
+    }
+
     /**
      * 新增級距
      */
@@ -143,7 +268,7 @@ export default function ControlPanel({ prices, onRunBacktest, onCoinChange, isLo
         const newThreshold = lastTier ? lastTier.threshold - 0.1 : -0.1;
         const newMultiplier = lastTier ? lastTier.multiplier + 0.5 : 1.5;
 
-        setTiers([
+        changeTiers([
             ...tiers,
             {
                 id: Date.now().toString(),
@@ -158,14 +283,14 @@ export default function ControlPanel({ prices, onRunBacktest, onCoinChange, isLo
      */
     function removeTier(id: string) {
         if (tiers.length <= 1) return; // 至少保留一個
-        setTiers(tiers.filter(t => t.id !== id));
+        changeTiers(tiers.filter(t => t.id !== id));
     }
 
     /**
      * 更新級距
      */
     function updateTier(id: string, field: 'threshold' | 'multiplier', value: number) {
-        setTiers(tiers.map(t =>
+        changeTiers(tiers.map(t =>
             t.id === id ? { ...t, [field]: value } : t
         ));
     }
@@ -174,26 +299,52 @@ export default function ControlPanel({ prices, onRunBacktest, onCoinChange, isLo
      * 重置級距為預設值
      */
     function resetTiers() {
-        setTiers(getDefaultTiers());
+        changeTiers(getDefaultTiers());
     }
 
     /**
-     * 提交表單
+     * 由表單狀態組出回測設定
      */
-    function handleSubmit(e: React.FormEvent) {
-        e.preventDefault();
-
-        const config: BacktestConfig = {
+    function buildConfig(): BacktestConfig {
+        return {
             coinId,
             startDate: new Date(startDate),
-            endDate: new Date(), // Always today
+            endDate: useLatestEnd ? new Date() : new Date(endDate),
             initialCapital,
             baseDcaAmount,
-            dcaFrequency
+            dcaFrequency: schedule.type === 'interval' ? schedule.days : 7,
+            schedule,
+            sellTiers,
+            costModel: {
+                presetId: costModel.presetId,
+                feePercent: costModel.feePercent,
+                fixedFee: costModel.fixedFee,
+                slippageBps: costModel.slippageBps
+            },
+            gapHandling,
+            optimizerSeed,
+            contributions,
+            cashYield,
+            drawdownReference,
+            multiplierCurve
         };
+    }
+
+    /**
+     * 提交表單
+     */
+    function handleSubmit(e: React.FormEvent) {
+        e.preventDefault();
+
+        const config = buildConfig();
+
+        if (config.endDate.getTime() <= config.startDate.getTime()) {
+            alert('結束日期必須晚於開始日期');
+            return;
+        }
 
         // 儲存設定
-        saveConfig(config, tiers);
+        saveConfig(config, tiers, useLatestEnd);
 
         // 執行回測
         onRunBacktest(config, tiers);
@@ -207,36 +358,100 @@ export default function ControlPanel({ prices, onRunBacktest, onCoinChange, isLo
                 {/* --- 幣種選擇 --- */}
                 <div>
                     <label className="label">選擇幣種</label>
-                    <select
-                        value={coinId}
-                        onChange={e => handleCoinChange(e.target.value)}
-                        className="input-field"
-                        disabled={loadingCoins}
-                    >
-                        {loadingCoins ? (
-                            <option>載入中...</option>
-                        ) : (
-                            coins.map(coin => (
-                                <option key={coin.id} value={coin.id}>
-                                    {coin.name} ({coin.symbol})
-                                </option>
-                            ))
+                    <div className="flex gap-2">
+                        <select
+                            value={coinId}
+                            onChange={e => handleCoinChange(e.target.value)}
+                            className="input-field"
+                            disabled={loadingCoins}
+                        >
+                            {loadingCoins ? (
+                                <option>載入中...</option>
+                            ) : (
+                                <>
+                                    {coins.map(coin => (
+                                        <option key={coin.id} value={coin.id}>
+                                            {coin.name} ({coin.symbol})
+                                        </option>
+                                    ))}
+                                    {customAssets.length > 0 && (
+                                        <optgroup label="自訂資產">
+                                            {customAssets.map(asset => (
+                                                <option key={asset.id} value={asset.id}>
+                                                    {asset.name} ({asset.symbol})
+                                                </option>
+                                            ))}
+                                        </optgroup>
+                                    )}
+                                    {syntheticAssets.length > 0 && (
+                                        <optgroup label="合成資料">
+                                            {syntheticAssets.map(asset => (
+                                                <option key={asset.id} value={asset.id}>
+                                                    {asset.name}
+                                                </option>
+                                            ))}
+                                        </optgroup>
+                                    )}
+                                </>
+                            )}
+                        </select>
+                        {(isCustomAsset(coinId) || isSyntheticAsset(coinId)) && (
+                            <button
+                                type="button"
+                                onClick={handleDeleteAsset}
+                                className="p-2 text-slate-500 hover:text-red-400 transition-colors"
+                                title={isSyntheticAsset(coinId) ? '移除合成資產' : '刪除自訂資產'}
+                            >
+                                <Trash2 size={18} />
+                            </button>
                         )}
-                    </select>
+                    </div>
                     <p className="text-xs text-slate-500 mt-1">
                         選擇後自動載入近一年價格走勢
                     </p>
+                    <CustomAssetImporter onImported={handleAssetImported} />
+                    <SyntheticMarketGenerator
+                        sourcePrices={prices}
+                        sourceName={[...coins, ...customAssets, ...syntheticAssets].find(c => c.id === coinId)?.name || coinId}
+                        onGenerated={handleSyntheticGenerated}
+                    />
+                    <ProviderSettings onChange={() => handleCoinChange(coinId)} />
                 </div>
 
                 {/* --- 日期區間 --- */}
-                <div>
-                    <label className="label">開始日期</label>
-                    <input
-                        type="date"
-                        value={startDate}
-                        onChange={e => setStartDate(e.target.value)}
-                        className="input-field"
-                    />
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="label">開始日期</label>
+                        <input
+                            type="date"
+                            value={startDate}
+                            onChange={e => setStartDate(e.target.value)}
+                            className="input-field"
+                        />
+                    </div>
+                    <div>
+                        <div className="flex items-center justify-between">
+                            <label className="label">結束日期</label>
+                            <label className="flex items-center gap-1 text-xs text-slate-400 cursor-pointer select-none mb-2">
+                                <input
+                                    type="checkbox"
+                                    checked={useLatestEnd}
+                                    onChange={e => setUseLatestEnd(e.target.checked)}
+                                    className="w-3 h-3 rounded border-slate-600 bg-slate-800"
+                                />
+                                至最新
+                            </label>
+                        </div>
+                        <input
+                            type="date"
+                            value={useLatestEnd ? getToday() : endDate}
+                            min={startDate}
+                            max={getToday()}
+                            onChange={e => setEndDate(e.target.value)}
+                            disabled={useLatestEnd}
+                            className="input-field disabled:opacity-50"
+                        />
+                    </div>
                 </div>
 
                 {/* 日期限制說明 */}
@@ -245,7 +460,7 @@ export default function ControlPanel({ prices, onRunBacktest, onCoinChange, isLo
                 </p>
 
                 {/* --- 資金設定 --- */}
-                <div className="grid grid-cols-3 gap-4">
+                <div className="grid grid-cols-2 gap-4">
                     <div>
                         <label className="label">初始資金 (USD)</label>
                         <input
@@ -268,23 +483,49 @@ export default function ControlPanel({ prices, onRunBacktest, onCoinChange, isLo
                             className="input-field"
                         />
                     </div>
-                    <div>
-                        <label className="label">頻率 (天)</label>
-                        <input
-                            type="number"
-                            min={1}
-                            max={30}
-                            value={dcaFrequency}
-                            onChange={e => setDcaFrequency(Number(e.target.value))}
-                            className="input-field"
-                        />
-                    </div>
                 </div>
 
+                {/* --- 定投排程 --- */}
+                <ScheduleEditor key={scheduleEditorKey} value={schedule} onChange={setSchedule} />
+
+                {/* --- 入金計畫 --- */}
+                <ContributionEditor key={scheduleEditorKey} value={contributions} onChange={setContributions} />
+
+                {/* --- 閒置現金收益 --- */}
+                <CashYieldEditor key={scheduleEditorKey} value={cashYield} onChange={setCashYield} />
+
+                {/* --- 交易成本 --- */}
+                <CostModelEditor value={costModel} onChange={setCostModel} />
+
+                {/* --- 價格缺漏處理 --- */}
+                <div>
+                    <label className="label">價格缺漏處理</label>
+                    <select
+                        value={gapHandling}
+                        onChange={e => setGapHandling(e.target.value as GapHandling)}
+                        className="input-field"
+                    >
+                        {(Object.keys(GAP_HANDLING_LABELS) as GapHandling[]).map(key => (
+                            <option key={key} value={key}>{GAP_HANDLING_LABELS[key]}</option>
+                        ))}
+                    </select>
+                </div>
+
+                {/* --- 跌幅參考點 --- */}
+                <DrawdownReferenceEditor value={drawdownReference} onChange={setDrawdownReference} />
+
+                {/* --- 倍率曲線 --- */}
+                <MultiplierCurveEditor value={multiplierCurve} tiers={tiers} onChange={changeMultiplierCurve} />
+
                 {/* --- 回撤級距表 --- */}
                 <div>
                     <div className="flex items-center justify-between mb-3">
-                        <label className="label mb-0">回撤級距表</label>
+                        <label className="label mb-0">
+                            回撤級距表
+                            {optimizerSeed !== undefined && (
+                                <span className="ml-2 text-xs font-mono text-amber-400/80">seed {optimizerSeed}</span>
+                            )}
+                        </label>
                         <div className="flex gap-2">
                             <button
                                 type="button"
@@ -325,16 +566,15 @@ export default function ControlPanel({ prices, onRunBacktest, onCoinChange, isLo
                             </button>
                             <OptimizerPanel
                                 prices={prices}
-                                currentConfig={{
-                                    coinId,
-                                    startDate: new Date(startDate),
-                                    endDate: new Date(),
-                                    initialCapital,
-                                    baseDcaAmount,
-                                    dcaFrequency
-                                }}
-                                onApplyStrategy={(newTiers) => {
-                                    setTiers(newTiers);
+                                currentConfig={buildConfig()}
+                                onApplyStrategy={(newTiers, seed, curve) => {
+                                    // 公式曲線的策略沒有級距表，只更新曲線參數
+                                    if (curve) {
+                                        setMultiplierCurve(curve);
+                                    } else {
+                                        setTiers(newTiers);
+                                    }
+                                    setOptimizerSeed(seed);
                                     setShowOptimizer(false);
                                 }}
                                 controlPanelPrice={prices.length > 0 ? prices[prices.length - 1].price : undefined}
@@ -388,6 +628,9 @@ export default function ControlPanel({ prices, onRunBacktest, onCoinChange, isLo
                     </div>
                 </div>
 
+                {/* --- 出場級距表 --- */}
+                <SellTierEditor tiers={sellTiers} onChange={setSellTiers} />
+
                 {/* --- 提交按鈕 --- */}
                 <button
                     type="submit"
@@ -0,0 +1,94 @@
+/* ===================================
+   交易成本設定元件
+   交易所預設費率與自訂手續費、滑價
+=================================== */
+
+import type { CostModel } from '../types';
+import { FEE_PRESETS } from '../utils/fees';
+
+interface CostModelEditorProps {
+    value: CostModel;
+    onChange: (model: CostModel) => void;
+}
+
+export default function CostModelEditor({ value, onChange }: CostModelEditorProps) {
+    /**
+     * 套用交易所預設
+     */
+    function applyPreset(presetId: string) {
+        const preset = FEE_PRESETS.find(p => p.presetId === presetId);
+        if (!preset) {
+            onChange({ ...value, presetId: undefined });
+            return;
+        }
+        onChange({
+            presetId: preset.presetId,
+            feePercent: preset.feePercent,
+            fixedFee: preset.fixedFee,
+            slippageBps: preset.slippageBps
+        });
+    }
+
+    /**
+     * 手動修改欄位後即視為自訂
+     */
+    function updateField(field: 'feePercent' | 'fixedFee' | 'slippageBps', fieldValue: number) {
+        onChange({ ...value, presetId: undefined, [field]: Math.max(0, fieldValue) });
+    }
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-3">
+                <label className="label mb-0">交易成本</label>
+                <select
+                    value={value.presetId || 'custom'}
+                    onChange={e => applyPreset(e.target.value)}
+                    className="px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm"
+                >
+                    {FEE_PRESETS.map(preset => (
+                        <option key={preset.presetId} value={preset.presetId}>
+                            {preset.name}
+                        </option>
+                    ))}
+                    <option value="custom">自訂</option>
+                </select>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+                <div>
+                    <label className="label">手續費 (%)</label>
+                    <input
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        value={Number((value.feePercent * 100).toFixed(4))}
+                        onChange={e => updateField('feePercent', Number(e.target.value) / 100)}
+                        className="input-field"
+                    />
+                </div>
+                <div>
+                    <label className="label">固定費 (USD)</label>
+                    <input
+                        type="number"
+                        min={0}
+                        step={0.1}
+                        value={value.fixedFee}
+                        onChange={e => updateField('fixedFee', Number(e.target.value))}
+                        className="input-field"
+                    />
+                </div>
+                <div>
+                    <label className="label">滑價 (bps)</label>
+                    <input
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={value.slippageBps}
+                        onChange={e => updateField('slippageBps', Number(e.target.value))}
+                        className="input-field"
+                    />
+                </div>
+            </div>
+        </div>
+    );
+}
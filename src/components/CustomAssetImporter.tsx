@@ -0,0 +1,136 @@
+/* ===================================
+   自訂資產匯入元件
+   讀取 CSV / JSON 價格檔並存為可選擇的自訂資產
+=================================== */
+
+import { useRef, useState } from 'react';
+import { Upload, AlertCircle } from 'lucide-react';
+import type { ApiError, CoinOption } from '../types';
+import { parsePriceFile } from '../utils/priceImport';
+import type { PriceImportResult } from '../utils/priceImport';
+import { saveCustomAsset } from '../services/customAssets';
+
+interface CustomAssetImporterProps {
+    onImported: (asset: CoinOption) => void;
+}
+
+export default function CustomAssetImporter({ onImported }: CustomAssetImporterProps) {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [preview, setPreview] = useState<PriceImportResult | null>(null);
+    const [name, setName] = useState('');
+    const [symbol, setSymbol] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    /**
+     * 讀取並解析選擇的檔案
+     */
+    async function handleFile(file: File) {
+        setError(null);
+        setPreview(null);
+        try {
+            const result = parsePriceFile(await file.text(), file.name);
+            const baseName = file.name.replace(/\.[^.]+$/, '');
+            setPreview(result);
+            setName(baseName);
+            setSymbol(baseName.slice(0, 6).toUpperCase());
+        } catch (err) {
+            setError((err as ApiError).message || '無法解析檔案');
+        }
+    }
+
+    async function handleSave() {
+        if (!preview || name.trim() === '') return;
+        setIsSaving(true);
+        try {
+            const asset = await saveCustomAsset(name, symbol, preview.prices);
+            setPreview(null);
+            onImported(asset);
+        } catch (err) {
+            setError((err as ApiError).message || '無法儲存自訂資產');
+        } finally {
+            setIsSaving(false);
+        }
+    }
+
+    const first = preview?.prices[0];
+    const last = preview?.prices[preview.prices.length - 1];
+
+    return (
+        <div className="mt-2">
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.json,.txt,text/csv,application/json"
+                className="hidden"
+                onChange={e => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFile(file);
+                    e.target.value = ''; // 允許重複選擇同一檔案
+                }}
+            />
+            <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-1.5 text-xs text-sky-400 hover:text-sky-300 transition-colors"
+            >
+                <Upload size={14} />
+                匯入自訂價格 (CSV / JSON)
+            </button>
+
+            {error && (
+                <p className="flex items-center gap-1 text-xs text-red-400 mt-2">
+                    <AlertCircle size={12} />
+                    {error}
+                </p>
+            )}
+
+            {preview && first && last && (
+                <div className="mt-2 p-3 bg-slate-900/50 rounded-lg border border-slate-700 space-y-2">
+                    <p className="text-xs text-slate-400">
+                        {preview.prices.length.toLocaleString()} 天：
+                        {new Date(first.timestamp).toLocaleDateString('zh-TW')} ~ {new Date(last.timestamp).toLocaleDateString('zh-TW')}
+                    </p>
+                    {preview.warnings.length > 0 && (
+                        <ul className="text-xs text-amber-400/80 max-h-20 overflow-y-auto">
+                            {preview.warnings.map((w, i) => <li key={i}>{w}</li>)}
+                        </ul>
+                    )}
+                    <div className="grid grid-cols-3 gap-2">
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={e => setName(e.target.value)}
+                            placeholder="資產名稱"
+                            className="col-span-2 px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm"
+                        />
+                        <input
+                            type="text"
+                            value={symbol}
+                            onChange={e => setSymbol(e.target.value)}
+                            placeholder="代號"
+                            className="px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm"
+                        />
+                    </div>
+                    <div className="flex gap-2">
+                        <button
+                            type="button"
+                            onClick={handleSave}
+                            disabled={isSaving || name.trim() === ''}
+                            className="flex-1 py-1.5 bg-sky-500 hover:bg-sky-400 disabled:opacity-50 text-slate-900 text-xs font-bold rounded transition-colors"
+                        >
+                            儲存為自訂資產
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => setPreview(null)}
+                            className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-400 text-xs rounded transition-colors"
+                        >
+                            取消
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
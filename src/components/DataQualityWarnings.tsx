@@ -0,0 +1,80 @@
+/* ===================================
+   資料品質警告元件
+   在走勢圖上方顯示價格資料的品質問題
+=================================== */
+
+import { useState } from 'react';
+import { AlertTriangle, Info } from 'lucide-react';
+import type { DataQualityReport } from '../utils/dataQuality';
+
+interface DataQualityWarningsProps {
+    report: DataQualityReport;
+}
+
+const MAX_DETAILS = 10;
+
+export default function DataQualityWarnings({ report }: DataQualityWarningsProps) {
+    const [showDetails, setShowDetails] = useState(false);
+
+    if (report.issues.length === 0) return null;
+
+    const hasWarning = report.issues.some(i => i.severity === 'warning');
+    const largestGaps = [...report.gaps].sort((a, b) => b.missingDays - a.missingDays).slice(0, MAX_DETAILS);
+    const largestSpikes = [...report.spikes].sort((a, b) => Math.abs(b.change) - Math.abs(a.change)).slice(0, MAX_DETAILS);
+
+    return (
+        <div className={`px-4 py-3 rounded-lg border text-xs ${hasWarning ? 'bg-amber-500/10 border-amber-500/30' : 'bg-slate-800/50 border-slate-700/50'}`}>
+            <div className="flex items-start justify-between gap-3">
+                <ul className="space-y-1">
+                    {report.issues.map((issue, index) => (
+                        <li key={index} className={`flex items-start gap-2 ${issue.severity === 'warning' ? 'text-amber-300' : 'text-slate-400'}`}>
+                            {issue.severity === 'warning'
+                                ? <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+                                : <Info size={14} className="flex-shrink-0 mt-0.5" />}
+                            {issue.message}
+                        </li>
+                    ))}
+                </ul>
+                {(largestGaps.length > 0 || largestSpikes.length > 0) && (
+                    <button
+                        onClick={() => setShowDetails(!showDetails)}
+                        className="text-slate-400 hover:text-slate-200 whitespace-nowrap"
+                    >
+                        {showDetails ? '收合' : '詳細'}
+                    </button>
+                )}
+            </div>
+
+            {showDetails && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3 pt-3 border-t border-slate-700/50 text-slate-400">
+                    {largestGaps.length > 0 && (
+                        <div>
+                            <p className="text-slate-300 mb-1">最長缺口</p>
+                            {largestGaps.map(gap => (
+                                <p key={gap.start} className="font-mono">
+                                    {new Date(gap.start).toLocaleDateString('zh-TW')} ~ {new Date(gap.end).toLocaleDateString('zh-TW')}
+                                    <span className="text-slate-500 ml-2">缺 {gap.missingDays} 天</span>
+                                </p>
+                            ))}
+                        </div>
+                    )}
+                    {largestSpikes.length > 0 && (
+                        <div>
+                            <p className="text-slate-300 mb-1">可疑跳動</p>
+                            {largestSpikes.map(spike => (
+                                <p key={spike.timestamp} className="font-mono">
+                                    {new Date(spike.timestamp).toLocaleDateString('zh-TW')}
+                                    <span className={`ml-2 ${spike.change >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                                        {spike.change >= 0 ? '+' : ''}{(spike.change * 100).toFixed(1)}%
+                                    </span>
+                                </p>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <p className="text-slate-500 mt-2">可在參數設定的「價格缺漏處理」選擇略過、沿用前值、內插或中止。</p>
+        </div>
+    );
+}
@@ -0,0 +1,84 @@
+/* ===================================
+   跌幅參考點設定元件
+   ATH、滾動高點、移動平均、持倉均價、循環 ATH 與反彈重置高點
+=================================== */
+
+import type { DrawdownReference } from '../types';
+import {
+    DEFAULT_DRAWDOWN_REFERENCE,
+    DEFAULT_REFERENCES,
+    DRAWDOWN_REFERENCE_LABELS,
+    describeDrawdownReference
+} from '../utils/drawdownReference';
+
+interface DrawdownReferenceEditorProps {
+    value?: DrawdownReference;
+    onChange: (reference: DrawdownReference) => void;
+}
+
+export default function DrawdownReferenceEditor({ value = DEFAULT_DRAWDOWN_REFERENCE, onChange }: DrawdownReferenceEditorProps) {
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-3">
+                <label className="label mb-0">跌幅參考點</label>
+                <span className="text-xs text-sky-400/80">{describeDrawdownReference(value)}</span>
+            </div>
+
+            <div className="space-y-3">
+                <select
+                    value={value.type}
+                    onChange={e => onChange(DEFAULT_REFERENCES[e.target.value as DrawdownReference['type']])}
+                    className="input-field"
+                >
+                    {(Object.keys(DRAWDOWN_REFERENCE_LABELS) as DrawdownReference['type'][]).map(type => (
+                        <option key={type} value={type}>{DRAWDOWN_REFERENCE_LABELS[type]}</option>
+                    ))}
+                </select>
+
+                {(value.type === 'rollingHigh' || value.type === 'movingAverage') && (
+                    <div className="flex items-center gap-2">
+                        <span className="text-slate-400 text-sm">{value.type === 'rollingHigh' ? '最近' : '均線'}</span>
+                        <input
+                            type="number"
+                            min={2}
+                            max={2000}
+                            value={value.days}
+                            onChange={e => onChange({ ...value, days: Math.max(2, Math.round(Number(e.target.value))) })}
+                            className="w-20 px-2 py-1 bg-slate-800 border border-slate-600 rounded text-center text-sm"
+                        />
+                        <span className="text-slate-400 text-sm">天</span>
+                    </div>
+                )}
+
+                {(value.type === 'cycleReset' || value.type === 'reboundReset') && (
+                    <div className="flex items-center gap-2">
+                        <span className="text-slate-400 text-sm">跌幅 / 反彈</span>
+                        <input
+                            type="number"
+                            min={5}
+                            max={95}
+                            step={5}
+                            value={Math.round(value.bearDrawdown * 100)}
+                            onChange={e => onChange({ ...value, bearDrawdown: Math.min(95, Math.max(5, Number(e.target.value))) / 100 })}
+                            className="w-20 px-2 py-1 bg-slate-800 border border-slate-600 rounded text-center text-sm"
+                        />
+                        <span className="text-slate-400 text-sm">%</span>
+                    </div>
+                )}
+
+                {value.type === 'movingAverage' && (
+                    <p className="text-xs text-slate-500">價格高於均線時跌幅為正，使用基礎倍率</p>
+                )}
+                {value.type === 'costBasis' && (
+                    <p className="text-xs text-slate-500">尚未持倉時跌幅視為 0；「距 ATH」出場條件仍以 ATH 計算</p>
+                )}
+                {value.type === 'cycleReset' && (
+                    <p className="text-xs text-slate-500">自高點下跌達此幅度視為熊市，之後價格超過熊市前高點時開始新循環</p>
+                )}
+                {value.type === 'reboundReset' && (
+                    <p className="text-xs text-slate-500">自高點下跌達此幅度後，自低點反彈同樣幅度即以當時價格作為新的高點 (不需等到創新高)</p>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,79 @@
+/* ===================================
+   回撤級距編輯元件 (精簡版)
+   用於投資組合的個別資產或籃子級距表
+=================================== */
+
+import { Plus, Trash2 } from 'lucide-react';
+import type { DrawdownTier } from '../types';
+
+interface DrawdownTierEditorProps {
+    tiers: DrawdownTier[];
+    onChange: (tiers: DrawdownTier[]) => void;
+}
+
+export default function DrawdownTierEditor({ tiers, onChange }: DrawdownTierEditorProps) {
+    function updateTier(id: string, patch: Partial<DrawdownTier>) {
+        onChange(tiers.map(t => t.id === id ? { ...t, ...patch } : t));
+    }
+
+    /**
+     * 新增級距 (比最深的級距再深 10%)
+     */
+    function addTier() {
+        const deepest = tiers.reduce<DrawdownTier | null>((d, t) => (!d || t.threshold < d.threshold ? t : d), null);
+        onChange([
+            ...tiers,
+            {
+                id: Date.now().toString(),
+                threshold: Math.max((deepest?.threshold ?? 0) - 0.1, -0.9),
+                multiplier: Math.min((deepest?.multiplier ?? 1) + 0.5, 10)
+            }
+        ]);
+    }
+
+    return (
+        <div className="space-y-1">
+            {tiers.map(tier => (
+                <div key={tier.id} className="flex items-center gap-2 text-xs">
+                    <span className="text-slate-400">跌幅</span>
+                    <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={5}
+                        value={Math.abs(tier.threshold * 100)}
+                        onChange={e => updateTier(tier.id, { threshold: -(Math.abs(Number(e.target.value)) / 100) })}
+                        className="w-16 px-1 py-0.5 bg-slate-800 border border-slate-600 rounded text-center"
+                    />
+                    <span className="text-slate-400">% 買入</span>
+                    <input
+                        type="number"
+                        min={0.1}
+                        max={10}
+                        step={0.1}
+                        value={tier.multiplier}
+                        onChange={e => updateTier(tier.id, { multiplier: Number(e.target.value) })}
+                        className="w-16 px-1 py-0.5 bg-slate-800 border border-slate-600 rounded text-center"
+                    />
+                    <span className="text-slate-400">倍</span>
+                    <button
+                        type="button"
+                        onClick={() => onChange(tiers.filter(t => t.id !== tier.id))}
+                        disabled={tiers.length <= 1}
+                        className="p-1 text-slate-500 hover:text-red-400 disabled:opacity-30 transition-colors"
+                    >
+                        <Trash2 size={12} />
+                    </button>
+                </div>
+            ))}
+            <button
+                type="button"
+                onClick={addTier}
+                className="flex items-center gap-1 text-xs text-sky-400 hover:text-sky-300"
+            >
+                <Plus size={12} />
+                新增級距
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,65 @@
+/* ===================================
+   Excess Return Chart Component
+   各起始日的策略超額報酬 (相對純定投)
+=================================== */
+
+import type { RollingWindowOutcome } from '../utils/rollingWindows';
+
+interface ExcessReturnChartProps {
+    windows: RollingWindowOutcome[];
+}
+
+const WIDTH = 480;
+const HEIGHT = 200;
+const PADDING = { top: 10, right: 12, bottom: 24, left: 48 };
+
+function formatPercent(value: number): string {
+    return `${value >= 0 ? '+' : ''}${value.toFixed(0)}%`;
+}
+
+export default function ExcessReturnChart({ windows }: ExcessReturnChartProps) {
+    if (windows.length === 0) return null;
+
+    const values = windows.map(w => w.excessReturn);
+    const yMax = Math.max(0, ...values);
+    const yMin = Math.min(0, ...values);
+
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+    const barWidth = plotWidth / windows.length;
+    const scaleY = (v: number) => PADDING.top + (yMax === yMin ? plotHeight / 2 : (1 - (v - yMin) / (yMax - yMin)) * plotHeight);
+    const zeroY = scaleY(0);
+
+    return (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">
+            <line x1={PADDING.left} y1={zeroY} x2={WIDTH - PADDING.right} y2={zeroY} stroke="#475569" />
+            <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={HEIGHT - PADDING.bottom} stroke="#475569" />
+            <text x={PADDING.left - 4} y={PADDING.top + 8} fill="#94a3b8" fontSize={9} textAnchor="end">{formatPercent(yMax)}</text>
+            <text x={PADDING.left - 4} y={zeroY + 3} fill="#94a3b8" fontSize={9} textAnchor="end">0%</text>
+            <text x={PADDING.left - 4} y={HEIGHT - PADDING.bottom} fill="#94a3b8" fontSize={9} textAnchor="end">{formatPercent(yMin)}</text>
+            <text x={PADDING.left} y={HEIGHT - 6} fill="#94a3b8" fontSize={9}>{new Date(windows[0].startTimestamp).toLocaleDateString('zh-TW')}</text>
+            <text x={WIDTH - PADDING.right} y={HEIGHT - 6} fill="#94a3b8" fontSize={9} textAnchor="end">
+                {new Date(windows[windows.length - 1].startTimestamp).toLocaleDateString('zh-TW')}
+            </text>
+
+            {windows.map((w, i) => {
+                const y = scaleY(w.excessReturn);
+                return (
+                    <rect
+                        key={w.startTimestamp}
+                        x={PADDING.left + i * barWidth}
+                        y={Math.min(y, zeroY)}
+                        width={Math.max(0.5, barWidth - (barWidth > 3 ? 1 : 0))}
+                        height={Math.abs(zeroY - y)}
+                        fill={w.excessReturn >= 0 ? '#34d399' : '#f87171'}
+                        fillOpacity={0.8}
+                    >
+                        <title>
+                            {`${new Date(w.startTimestamp).toLocaleDateString('zh-TW')} 起\n策略 ${formatPercent(w.roi)} / 定投 ${formatPercent(w.benchmarkRoi)}\n超額 ${formatPercent(w.excessReturn)}`}
+                        </title>
+                    </rect>
+                );
+            })}
+        </svg>
+    );
+}
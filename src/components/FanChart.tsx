@@ -0,0 +1,73 @@
+/* ===================================
+   Fan Chart Component
+   蒙地卡羅總資產分位數扇形圖 (策略 vs 純定投)
+=================================== */
+
+import type { FanChart as FanChartData, Percentiles } from '../utils/monteCarlo';
+
+interface FanChartProps {
+    fan: FanChartData;
+}
+
+const WIDTH = 480;
+const HEIGHT = 220;
+const PADDING = { top: 10, right: 12, bottom: 24, left: 60 };
+
+function formatUsd(value: number): string {
+    return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+}
+
+export default function FanChart({ fan }: FanChartProps) {
+    if (fan.timestamps.length < 2) return null;
+
+    const all = [...fan.strategy, ...fan.benchmark];
+    const yMin = Math.min(...all.map(p => p.p5));
+    const yMax = Math.max(...all.map(p => p.p95));
+    const xMin = fan.timestamps[0];
+    const xMax = fan.timestamps[fan.timestamps.length - 1];
+
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+    const scaleX = (t: number) => PADDING.left + ((t - xMin) / (xMax - xMin)) * plotWidth;
+    const scaleY = (v: number) => PADDING.top + (yMax === yMin ? plotHeight / 2 : (1 - (v - yMin) / (yMax - yMin)) * plotHeight);
+
+    /**
+     * 上下界之間的區塊 (上界由左到右，下界由右到左)
+     */
+    function band(series: Percentiles[], lower: keyof Percentiles, upper: keyof Percentiles): string {
+        const top = series.map((p, i) => `${scaleX(fan.timestamps[i])},${scaleY(p[upper])}`);
+        const bottom = series.map((p, i) => `${scaleX(fan.timestamps[i])},${scaleY(p[lower])}`).reverse();
+        return [...top, ...bottom].join(' ');
+    }
+
+    function line(series: Percentiles[], key: keyof Percentiles): string {
+        return series.map((p, i) => `${scaleX(fan.timestamps[i])},${scaleY(p[key])}`).join(' ');
+    }
+
+    return (
+        <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+            <div className="flex items-center justify-between mb-2 text-xs">
+                <span className="text-slate-400">總資產分佈 (現金 + 持倉)</span>
+                <div className="flex items-center gap-3 text-slate-400">
+                    <span className="flex items-center gap-1"><span className="w-3 h-2 bg-sky-400/40 inline-block" />策略 P5-P95 / P25-P75</span>
+                    <span className="flex items-center gap-1"><span className="w-3 border-t border-dashed border-amber-400 inline-block" />定投中位數</span>
+                </div>
+            </div>
+
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">
+                {/* 座標軸 */}
+                <line x1={PADDING.left} y1={HEIGHT - PADDING.bottom} x2={WIDTH - PADDING.right} y2={HEIGHT - PADDING.bottom} stroke="#475569" />
+                <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={HEIGHT - PADDING.bottom} stroke="#475569" />
+                <text x={PADDING.left} y={HEIGHT - 6} fill="#94a3b8" fontSize={9}>{new Date(xMin).toLocaleDateString('zh-TW')}</text>
+                <text x={WIDTH - PADDING.right} y={HEIGHT - 6} fill="#94a3b8" fontSize={9} textAnchor="end">{new Date(xMax).toLocaleDateString('zh-TW')}</text>
+                <text x={PADDING.left - 4} y={HEIGHT - PADDING.bottom} fill="#94a3b8" fontSize={9} textAnchor="end">{formatUsd(yMin)}</text>
+                <text x={PADDING.left - 4} y={PADDING.top + 8} fill="#94a3b8" fontSize={9} textAnchor="end">{formatUsd(yMax)}</text>
+
+                <polygon points={band(fan.strategy, 'p5', 'p95')} fill="#38bdf8" fillOpacity={0.15} />
+                <polygon points={band(fan.strategy, 'p25', 'p75')} fill="#38bdf8" fillOpacity={0.3} />
+                <polyline points={line(fan.strategy, 'p50')} fill="none" stroke="#38bdf8" strokeWidth={1.5} />
+                <polyline points={line(fan.benchmark, 'p50')} fill="none" stroke="#f59e0b" strokeWidth={1.5} strokeDasharray="4 3" />
+            </svg>
+        </div>
+    );
+}
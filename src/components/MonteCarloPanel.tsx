@@ -0,0 +1,243 @@
+/* ===================================
+   蒙地卡羅模擬面板
+   在大量模擬路徑上執行目前策略，顯示結果分佈並與純定投比較
+=================================== */
+
+import { useState, useRef, useEffect } from 'react';
+import { Shuffle, X } from 'lucide-react';
+import type { BacktestConfig, DrawdownTier, PriceDataPoint } from '../types';
+import { depletionProbability, summarizeDistribution, MONTE_CARLO_CANCELLED } from '../utils/monteCarlo';
+import type { MonteCarloResult, OutcomeMetric, PathOutcome } from '../utils/monteCarlo';
+import { DEFAULT_SYNTHETIC_MODELS, SYNTHETIC_MODEL_LABELS } from '../utils/synthetic';
+import type { SyntheticModel } from '../utils/synthetic';
+import { randomSeed } from '../utils/random';
+import { startMonteCarloRun } from '../workers/monteCarloClient';
+import type { MonteCarloRun } from '../workers/monteCarloClient';
+import SyntheticModelEditor from './SyntheticModelEditor';
+import FanChart from './FanChart';
+import OutcomeHistogram from './OutcomeHistogram';
+
+interface MonteCarloPanelProps {
+    prices: PriceDataPoint[];
+    config: BacktestConfig;
+    tiers: DrawdownTier[];
+}
+
+/**
+ * 顯示的指標
+ */
+const METRICS: { key: OutcomeMetric; label: string; format: (v: number) => string }[] = [
+    { key: 'roi', label: '投報率', format: v => `${v >= 0 ? '+' : ''}${v.toFixed(1)}%` },
+    { key: 'finalValue', label: '期末總資產', format: v => `$${v.toLocaleString(undefined, { maximumFractionDigits: 0 })}` },
+    { key: 'totalCoins', label: '持倉量', format: v => v.toLocaleString(undefined, { maximumFractionDigits: 4 }) },
+    { key: 'averagePrice', label: '均價', format: v => `$${v.toLocaleString(undefined, { maximumFractionDigits: 2 })}` },
+    { key: 'portfolioMaxDrawdown', label: '組合最大回撤', format: v => `${v.toFixed(1)}%` },
+];
+
+function pick(outcomes: PathOutcome[], key: OutcomeMetric): number[] {
+    return outcomes.map(o => o[key]);
+}
+
+export default function MonteCarloPanel({ prices, config, tiers }: MonteCarloPanelProps) {
+    const [model, setModel] = useState<SyntheticModel>(DEFAULT_SYNTHETIC_MODELS.bootstrap);
+    const [paths, setPaths] = useState(500);
+    const [seedInput, setSeedInput] = useState(''); // 空白 = 每次隨機
+    const [isRunning, setIsRunning] = useState(false);
+    const [progress, setProgress] = useState(0);
+    const [result, setResult] = useState<MonteCarloResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [histogramMetric, setHistogramMetric] = useState<OutcomeMetric>('roi');
+    const [depletionMonths, setDepletionMonths] = useState(12);
+    const runRef = useRef<MonteCarloRun | null>(null);
+
+    // 策略或資料變更後，舊的模擬結果不再適用
+    useEffect(() => {
+        setResult(null);
+        return () => runRef.current?.cancel();
+    }, [prices, config, tiers]);
+
+    async function handleRun() {
+        setIsRunning(true);
+        setProgress(0);
+        setError(null);
+        setResult(null);
+
+        const seed = seedInput.trim() !== '' ? Number(seedInput) >>> 0 : randomSeed();
+        const run = startMonteCarloRun(prices, config, tiers, { paths, model, seed }, (completed, total) => {
+            setProgress((completed / total) * 100);
+        });
+        runRef.current = run;
+
+        try {
+            setResult(await run.result);
+        } catch (err) {
+            if ((err as { code?: string }).code !== MONTE_CARLO_CANCELLED) {
+                setError((err as { message?: string }).message || '模擬失敗');
+            }
+        } finally {
+            runRef.current = null;
+            setIsRunning(false);
+        }
+    }
+
+    const histogram = METRICS.find(m => m.key === histogramMetric)!;
+    const outperformShare = result
+        ? result.strategy.filter((o, i) => o.finalValue > result.benchmark[i].finalValue).length / result.paths
+        : 0;
+
+    return (
+        <div className="card">
+            <div className="flex items-center gap-2 mb-4">
+                <Shuffle className="text-sky-400" size={20} />
+                <h3 className="text-lg font-bold text-slate-200">蒙地卡羅模擬</h3>
+            </div>
+
+            {/* 設定 */}
+            <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700 space-y-3">
+                <SyntheticModelEditor value={model} onChange={setModel} />
+                <div className="grid grid-cols-3 gap-2">
+                    <div>
+                        <label className="text-xs text-slate-400">路徑數</label>
+                        <input
+                            type="number"
+                            min={10}
+                            max={5000}
+                            step={100}
+                            value={paths}
+                            onChange={e => setPaths(Number(e.target.value))}
+                            className="w-full px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm font-mono"
+                        />
+                    </div>
+                    <div className="col-span-2">
+                        <label className="text-xs text-slate-400">亂數種子</label>
+                        <input
+                            type="text"
+                            inputMode="numeric"
+                            value={seedInput}
+                            onChange={e => setSeedInput(e.target.value.replace(/\D/g, ''))}
+                            placeholder={result ? `隨機 (上次 ${result.seed})` : '隨機'}
+                            className="w-full px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm font-mono"
+                        />
+                    </div>
+                </div>
+                <p className="text-xs text-slate-500">
+                    開始日前沿用真實價格，開始日後的 {model.type === 'bootstrap' ? '每日報酬自該幣種歷史區塊重抽樣' : '價格由模型產生'}
+                </p>
+
+                {isRunning ? (
+                    <div className="space-y-2">
+                        <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                            <div className="h-full bg-sky-500 transition-all duration-300" style={{ width: `${progress}%` }} />
+                        </div>
+                        <button
+                            type="button"
+                            onClick={() => runRef.current?.cancel()}
+                            className="w-full py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs rounded flex items-center justify-center gap-1"
+                        >
+                            <X size={14} />
+                            取消
+                        </button>
+                    </div>
+                ) : (
+                    <button
+                        type="button"
+                        onClick={handleRun}
+                        disabled={prices.length === 0}
+                        className="w-full py-1.5 bg-sky-500 hover:bg-sky-400 disabled:opacity-50 text-slate-900 text-xs font-bold rounded transition-colors"
+                    >
+                        執行 {paths.toLocaleString()} 條路徑
+                    </button>
+                )}
+                {error && <p className="text-xs text-red-400">{error}</p>}
+            </div>
+
+            {/* 結果 */}
+            {result && (
+                <div className="mt-4 space-y-4 fade-in">
+                    <p className="text-xs text-slate-500">
+                        {SYNTHETIC_MODEL_LABELS[result.model.type]} · {result.paths.toLocaleString()} 條路徑 · {result.windowDays.toLocaleString()} 天
+                        <span className="ml-2 font-mono">seed {result.seed}</span>
+                    </p>
+
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-xs">
+                            <thead>
+                                <tr className="text-slate-400 border-b border-slate-700">
+                                    <th className="text-left py-1">指標</th>
+                                    <th className="text-right py-1" colSpan={3}>策略 P5 / P50 / P95</th>
+                                    <th className="text-right py-1" colSpan={3}>純定投 P5 / P50 / P95</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {METRICS.map(({ key, label, format }) => {
+                                    const s = summarizeDistribution(pick(result.strategy, key));
+                                    const b = summarizeDistribution(pick(result.benchmark, key));
+                                    return (
+                                        <tr key={key} className="border-b border-slate-800 font-mono">
+                                            <td className="py-1 font-sans text-slate-300">{label}</td>
+                                            <td className="text-right text-slate-500">{format(s.p5)}</td>
+                                            <td className="text-right text-sky-300">{format(s.p50)}</td>
+                                            <td className="text-right text-slate-500">{format(s.p95)}</td>
+                                            <td className="text-right text-slate-500">{format(b.p5)}</td>
+                                            <td className="text-right text-amber-300">{format(b.p50)}</td>
+                                            <td className="text-right text-slate-500">{format(b.p95)}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2 text-xs">
+                        <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+                            <p className="text-slate-400">期末總資產勝過純定投</p>
+                            <p className="text-lg font-mono text-slate-200">{(outperformShare * 100).toFixed(1)}%</p>
+                        </div>
+                        <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+                            <p className="text-slate-400 flex items-center gap-1">
+                                資金在
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={depletionMonths}
+                                    onChange={e => setDepletionMonths(Math.max(1, Number(e.target.value)))}
+                                    className="w-12 px-1 bg-slate-800 border border-slate-600 rounded font-mono"
+                                />
+                                個月內耗盡
+                            </p>
+                            <p className="text-lg font-mono text-slate-200">
+                                {(depletionProbability(result.strategy, depletionMonths) * 100).toFixed(1)}%
+                                <span className="text-xs text-slate-500 ml-2">
+                                    定投 {(depletionProbability(result.benchmark, depletionMonths) * 100).toFixed(1)}%
+                                </span>
+                            </p>
+                        </div>
+                    </div>
+
+                    <FanChart fan={result.fan} />
+
+                    <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+                        <div className="flex items-center justify-between mb-2 text-xs">
+                            <select
+                                value={histogramMetric}
+                                onChange={e => setHistogramMetric(e.target.value as OutcomeMetric)}
+                                className="px-1 py-0.5 bg-slate-800 border border-slate-600 rounded"
+                            >
+                                {METRICS.map(m => <option key={m.key} value={m.key}>{m.label}</option>)}
+                            </select>
+                            <div className="flex items-center gap-3 text-slate-400">
+                                <span className="flex items-center gap-1"><span className="w-3 h-2 bg-sky-400/60 inline-block" />策略</span>
+                                <span className="flex items-center gap-1"><span className="w-3 h-2 border border-amber-400 inline-block" />純定投</span>
+                            </div>
+                        </div>
+                        <OutcomeHistogram
+                            strategy={pick(result.strategy, histogramMetric)}
+                            benchmark={pick(result.benchmark, histogramMetric)}
+                            format={histogram.format}
+                        />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
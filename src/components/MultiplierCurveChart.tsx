@@ -0,0 +1,67 @@
+/* ===================================
+   Multiplier Curve Chart Component
+   預覽跌幅與加碼倍率的對應曲線
+=================================== */
+
+import type { DrawdownTier, MultiplierCurve } from '../types';
+import { getMultiplier } from '../utils/calculator';
+import { isFormulaCurve } from '../utils/multiplierCurve';
+
+interface MultiplierCurveChartProps {
+    tiers: DrawdownTier[];
+    curve?: MultiplierCurve;
+}
+
+const WIDTH = 480;
+const HEIGHT = 160;
+const PADDING = { top: 10, right: 12, bottom: 24, left: 40 };
+const SAMPLES = 181;           // 0% ~ -90%，每 0.5% 一點
+const MAX_DRAWDOWN = -0.9;
+
+export default function MultiplierCurveChart({ tiers, curve }: MultiplierCurveChartProps) {
+    // 由淺到深取樣 (x 軸左側為 0%)
+    const points = Array.from({ length: SAMPLES }, (_, i) => {
+        const drawdown = (MAX_DRAWDOWN * i) / (SAMPLES - 1);
+        return { drawdown, multiplier: getMultiplier(drawdown, tiers, curve) };
+    });
+    const yMax = Math.max(...points.map(p => p.multiplier), 1) * 1.1;
+
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+    const scaleX = (drawdown: number) => PADDING.left + (drawdown / MAX_DRAWDOWN) * plotWidth;
+    const scaleY = (multiplier: number) => PADDING.top + (1 - multiplier / yMax) * plotHeight;
+
+    const path = points.map(p => `${scaleX(p.drawdown)},${scaleY(p.multiplier)}`).join(' ');
+    const tierPoints = isFormulaCurve(curve) ? [] : tiers.filter(t => t.threshold <= 0 && t.threshold >= MAX_DRAWDOWN);
+
+    return (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">
+            {/* 座標軸 */}
+            <line x1={PADDING.left} y1={HEIGHT - PADDING.bottom} x2={WIDTH - PADDING.right} y2={HEIGHT - PADDING.bottom} stroke="#475569" />
+            <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={HEIGHT - PADDING.bottom} stroke="#475569" />
+            <text x={PADDING.left - 4} y={PADDING.top + 8} fill="#94a3b8" fontSize={9} textAnchor="end">{yMax.toFixed(1)}x</text>
+            <text x={PADDING.left - 4} y={HEIGHT - PADDING.bottom} fill="#94a3b8" fontSize={9} textAnchor="end">0x</text>
+            <text x={PADDING.left} y={HEIGHT - 6} fill="#94a3b8" fontSize={9}>0%</text>
+            <text x={WIDTH - PADDING.right} y={HEIGHT - 6} fill="#94a3b8" fontSize={9} textAnchor="end">{MAX_DRAWDOWN * 100}%</text>
+
+            {/* 1x 基準線 */}
+            <line
+                x1={PADDING.left}
+                y1={scaleY(1)}
+                x2={WIDTH - PADDING.right}
+                y2={scaleY(1)}
+                stroke="#475569"
+                strokeDasharray="3 3"
+            />
+
+            <polyline points={path} fill="none" stroke="#38bdf8" strokeWidth={1.5} />
+
+            {/* 級距點 */}
+            {tierPoints.map(t => (
+                <circle key={t.id} cx={scaleX(t.threshold)} cy={scaleY(t.multiplier)} r={2.5} fill="#fbbf24">
+                    <title>{`${(t.threshold * 100).toFixed(0)}%\n${t.multiplier}x`}</title>
+                </circle>
+            ))}
+        </svg>
+    );
+}
@@ -0,0 +1,93 @@
+/* ===================================
+   倍率曲線設定元件
+   階梯、線性內插與公式曲線，附曲線預覽
+=================================== */
+
+import type { DrawdownTier, MultiplierCurve } from '../types';
+import {
+    DEFAULT_CURVES,
+    DEFAULT_MULTIPLIER_CURVE,
+    MULTIPLIER_CURVE_LABELS,
+    describeMultiplierCurve,
+    isFormulaCurve
+} from '../utils/multiplierCurve';
+import type { FormulaCurve } from '../utils/multiplierCurve';
+import MultiplierCurveChart from './MultiplierCurveChart';
+
+interface MultiplierCurveEditorProps {
+    value?: MultiplierCurve;
+    tiers: DrawdownTier[];    // 階梯與線性內插使用的級距表 (預覽用)
+    onChange: (curve: MultiplierCurve) => void;
+}
+
+/**
+ * 公式曲線的參數欄位
+ */
+const FORMULA_FIELDS: { key: 'k' | 'p' | 'min' | 'max'; label: string; step: number; min: number }[] = [
+    { key: 'k', label: 'k', step: 0.1, min: 0 },
+    { key: 'p', label: 'p', step: 0.1, min: 0.1 },
+    { key: 'min', label: '最低倍率', step: 0.1, min: 0 },
+    { key: 'max', label: '最高倍率', step: 0.5, min: 0.1 },
+];
+
+function getFormulaValue(curve: FormulaCurve, key: 'k' | 'p' | 'min' | 'max'): number {
+    if (key === 'p') return curve.type === 'power' ? curve.p : 1;
+    return curve[key];
+}
+
+export default function MultiplierCurveEditor({ value = DEFAULT_MULTIPLIER_CURVE, tiers, onChange }: MultiplierCurveEditorProps) {
+    /**
+     * 更新公式參數 (最低倍率不超過最高倍率)
+     */
+    function updateFormula(curve: FormulaCurve, key: 'k' | 'p' | 'min' | 'max', input: number) {
+        const next = { ...curve, [key]: Math.max(0, input) } as FormulaCurve;
+        if (key === 'min') next.max = Math.max(next.max, next.min);
+        if (key === 'max') next.min = Math.min(next.min, next.max);
+        onChange(next);
+    }
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-3">
+                <label className="label mb-0">倍率曲線</label>
+                <span className="text-xs text-sky-400/80">{describeMultiplierCurve(value)}</span>
+            </div>
+
+            <div className="space-y-3">
+                <select
+                    value={value.type}
+                    onChange={e => onChange(DEFAULT_CURVES[e.target.value as MultiplierCurve['type']])}
+                    className="input-field"
+                >
+                    {(Object.keys(MULTIPLIER_CURVE_LABELS) as MultiplierCurve['type'][]).map(type => (
+                        <option key={type} value={type}>{MULTIPLIER_CURVE_LABELS[type]}</option>
+                    ))}
+                </select>
+
+                {isFormulaCurve(value) && (
+                    <div className="grid grid-cols-4 gap-2">
+                        {FORMULA_FIELDS.filter(f => f.key !== 'p' || value.type === 'power').map(field => (
+                            <div key={field.key}>
+                                <label className="text-xs text-slate-400">{field.label}</label>
+                                <input
+                                    type="number"
+                                    min={field.min}
+                                    step={field.step}
+                                    value={getFormulaValue(value, field.key)}
+                                    onChange={e => updateFormula(value, field.key, Number(e.target.value))}
+                                    className="w-full px-2 py-1 bg-slate-800 border border-slate-600 rounded text-center text-sm"
+                                />
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <MultiplierCurveChart tiers={tiers} curve={value} />
+
+                {isFormulaCurve(value) && (
+                    <p className="text-xs text-slate-500">公式曲線不使用下方的回撤級距表</p>
+                )}
+            </div>
+        </div>
+    );
+}
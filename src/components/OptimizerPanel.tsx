@@ -3,18 +3,189 @@
    UI for running the Genetic Algorithm and displaying results.
 =================================== */
 
-import { useState } from 'react';
-import { Sparkles, Check, Trophy, Loader2 } from 'lucide-react';
-import type { BacktestConfig, DrawdownTier, PriceDataPoint } from '../types';
-import { runGeneticOptimizer, StrategyGenome } from '../utils/optimizer';
+import { useState, useRef, useEffect } from 'react';
+import { Sparkles, Check, Trophy, Loader2, Pause, Play, Square, SlidersHorizontal, AlertTriangle } from 'lucide-react';
+import type { BacktestConfig, DrawdownTier, MultiplierCurve, PriceDataPoint } from '../types';
+import { DEFAULT_OPTIMIZER_SETTINGS, INVALID_OPTIMIZER_SETTINGS, OPTIMIZER_CANCELLED } from '../utils/optimizer';
+import type { OptimizerMode, OptimizerSettings, StrategyGenome, ValidationFold, ValidationScheme } from '../utils/optimizer';
+import { randomSeed } from '../utils/random';
+import { describeMultiplierCurve, formulaMultiplier, isFormulaCurve } from '../utils/multiplierCurve';
+import { startOptimizerRun } from '../workers/optimizerClient';
+import type { OptimizerRun } from '../workers/optimizerClient';
+import ParetoScatter from './ParetoScatter';
+import OptimizerSettingsEditor from './OptimizerSettingsEditor';
 
 interface OptimizerPanelProps {
     prices: PriceDataPoint[];
     currentConfig: BacktestConfig;
-    onApplyStrategy: (tiers: DrawdownTier[]) => void;
+    onApplyStrategy: (tiers: DrawdownTier[], seed: number, curve?: MultiplierCurve) => void;
     controlPanelPrice?: number; // Current price for comparison
 }
 
+interface StrategyCardProps {
+    strategy: StrategyGenome;
+    index: number;
+    controlPanelPrice?: number;
+    onApply: (strategy: StrategyGenome) => void;
+}
+
+/**
+ * 樣本外驗證選項
+ */
+const VALIDATION_OPTIONS: { type: ValidationScheme['type']; label: string }[] = [
+    { type: 'none', label: '不驗證 (全區間)' },
+    { type: 'holdout', label: '保留樣本外區間' },
+    { type: 'walkForward', label: '前進分析 (Walk-forward)' },
+];
+
+const DEFAULT_VALIDATION: Record<ValidationScheme['type'], ValidationScheme> = {
+    none: { type: 'none' },
+    holdout: { type: 'holdout', testFraction: 0.3 },
+    walkForward: { type: 'walkForward', folds: 3 },
+};
+
+function formatPercent(value: number): string {
+    return `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+}
+
+function formatDateRange(start: Date, end: Date): string {
+    return `${start.toLocaleDateString('zh-TW')} ~ ${end.toLocaleDateString('zh-TW')}`;
+}
+
+/**
+ * 迷你曲線的長條：級距策略為各級倍率，公式曲線取 -5% ~ -90% 的倍率
+ */
+function getCurveBars(strategy: StrategyGenome): { label: string; value: number }[] {
+    const curve = strategy.curve;
+    if (curve) {
+        return Array.from({ length: 18 }, (_, i) => {
+            const drawdown = -(i + 1) * 0.05;
+            return { label: `${(drawdown * 100).toFixed(0)}%`, value: Number(formulaMultiplier(drawdown, curve).toFixed(2)) };
+        });
+    }
+    return strategy.genes.map((value, i) => ({ label: `Level ${i + 1}`, value }));
+}
+
+/**
+ * 單一策略的結果卡片
+ */
+function StrategyCard({ strategy, index, controlPanelPrice, onApply }: StrategyCardProps) {
+    return (
+        <div className="bg-slate-900 border border-slate-700/50 rounded-lg p-3 hover:border-amber-500/30 transition-colors group">
+            <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2">
+                    {index === 0 && <Trophy className="text-yellow-400" size={16} />}
+                    <span className="text-slate-300 font-bold">
+                        {strategy.labels && strategy.labels.length > 0
+                            ? strategy.labels[0]
+                            : `Strategy #${index + 1}`}
+                    </span>
+                </div>
+                {strategy.validation?.collapsed && (
+                    <span className="flex items-center gap-1 text-xs text-red-400 bg-red-500/10 px-2 py-0.5 rounded" title="樣本內勝過純定投，但樣本外優勢大幅消失，可能過度擬合">
+                        <AlertTriangle size={12} />
+                        樣本外失效
+                    </span>
+                )}
+            </div>
+            <div className="grid grid-cols-2 gap-4 mt-3">
+                <div className="bg-slate-900/50 p-2 rounded-lg">
+                    <div className="text-xs text-slate-400">平均買入價</div>
+                    <div className="text-sm font-mono text-slate-200">
+                        ${strategy.averagePrice?.toLocaleString(undefined, { maximumFractionDigits: 2 }) || '-'}
+                        {controlPanelPrice && strategy.averagePrice && (
+                            <span className={`ml-1 text-xs ${controlPanelPrice > strategy.averagePrice ? 'text-emerald-400' : 'text-red-400'}`}>
+                                ({((controlPanelPrice - strategy.averagePrice) / strategy.averagePrice * 100).toFixed(1)}%)
+                            </span>
+                        )}
+                    </div>
+                </div>
+                <div className="bg-slate-900/50 p-2 rounded-lg">
+                    <div className="text-xs text-slate-400">囤幣數量</div>
+                    <div className="text-sm font-mono text-slate-200">
+                        {strategy.totalCoins?.toLocaleString(undefined, { maximumFractionDigits: 4 }) || '-'}
+                    </div>
+                </div>
+                <div className="bg-slate-900/50 p-2 rounded-lg col-span-2">
+                    <div className="text-xs text-slate-400">執行期間</div>
+                    <div className="text-sm font-mono text-slate-200">
+                        {strategy.executionStartDate && strategy.executionEndDate ? (
+                            <span>
+                                {strategy.executionStartDate.toLocaleDateString('zh-TW')} ~ {strategy.executionEndDate.toLocaleDateString('zh-TW')}
+                                <span className="text-xs text-slate-500 ml-2">({strategy.executionDuration} 天)</span>
+                            </span>
+                        ) : (
+                            '-'
+                        )}
+                        {strategy.fundsDepletedDate && <span className="text-red-400 ml-1 text-xs">(提前耗盡)</span>}
+                    </div>
+                </div>
+                <div className="bg-slate-900/50 p-2 rounded-lg col-span-2">
+                    <div className="text-xs text-slate-400">投資報酬率 (ROI){strategy.validation && ' · 樣本內'}</div>
+                    <div className="text-sm font-bold text-emerald-400">
+                        +{strategy.fitness.toFixed(2)}%
+                        {strategy.portfolioMaxDrawdown !== undefined && (
+                            <span className="text-xs font-normal text-red-400 ml-2">
+                                組合 MDD {strategy.portfolioMaxDrawdown.toFixed(1)}%
+                            </span>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            {/* 樣本內 / 樣本外比較 (相對於同區間純定投) */}
+            {strategy.validation && (
+                <table className="w-full text-xs mt-3">
+                    <thead>
+                        <tr className="text-slate-400 border-b border-slate-700">
+                            <th className="text-left py-1">區間</th>
+                            <th className="text-right py-1">ROI</th>
+                            <th className="text-right py-1">定投</th>
+                            <th className="text-right py-1">超額</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {([['樣本內', strategy.validation.inSample], ['樣本外', strategy.validation.outOfSample]] as const).map(([label, sample]) => (
+                            <tr key={label} className="border-b border-slate-800 font-mono" title={formatDateRange(sample.startDate, sample.endDate)}>
+                                <td className="py-1 font-sans text-slate-300">{label}</td>
+                                <td className="text-right text-slate-200">{formatPercent(sample.roi)}</td>
+                                <td className="text-right text-amber-300">{formatPercent(sample.benchmarkRoi)}</td>
+                                <td className={`text-right ${sample.excessRoi >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                                    {formatPercent(sample.excessRoi)}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            {/* Mini Visualization of the Curve */}
+            {strategy.curve && (
+                <div className="text-xs text-sky-400/80 mt-3 font-mono">{describeMultiplierCurve(strategy.curve)}</div>
+            )}
+            <div className="h-8 flex items-end gap-0.5 mb-3 mt-3 opacity-80">
+                {getCurveBars(strategy).map((bar, i, bars) => (
+                    <div
+                        key={i}
+                        className="w-full bg-sky-500/30 rounded-t-sm hover:bg-sky-400 transition-colors"
+                        style={{ height: `${(bar.value / Math.max(...bars.map(b => b.value), 1)) * 100}%` }}
+                        title={`${bar.label}: ${bar.value}x`}
+                    />
+                ))}
+            </div>
+
+            <button
+                type="button"
+                onClick={() => onApply(strategy)}
+                className="w-full py-1.5 bg-slate-800 hover:bg-slate-700 text-sky-400 text-xs font-bold rounded flex items-center justify-center gap-1.5 transition-colors"
+            >
+                <Check size={14} />
+                套用此策略
+            </button>
+        </div>
+    );
+}
+
 export default function OptimizerPanel({
     prices,
     currentConfig,
@@ -26,6 +197,25 @@ export default function OptimizerPanel({
     const [generation, setGeneration] = useState(0);
     const [topStrategies, setTopStrategies] = useState<StrategyGenome[]>([]);
     const [showResults, setShowResults] = useState(false);
+    const [isPaused, setIsPaused] = useState(false);
+    const [bestSoFar, setBestSoFar] = useState<StrategyGenome | null>(null);
+    const [statusMessage, setStatusMessage] = useState<string | null>(null);
+    const [mode, setMode] = useState<OptimizerMode>('single');
+    const [paretoFront, setParetoFront] = useState<StrategyGenome[]>([]);
+    const [selectedParetoIndex, setSelectedParetoIndex] = useState<number | null>(null);
+    const [settings, setSettings] = useState<OptimizerSettings>(DEFAULT_OPTIMIZER_SETTINGS);
+    const [showAdvanced, setShowAdvanced] = useState(false);
+    const [totalGenerations, setTotalGenerations] = useState(DEFAULT_OPTIMIZER_SETTINGS.generations);
+    const [seedInput, setSeedInput] = useState(''); // 空白 = 每次隨機
+    const [runSeed, setRunSeed] = useState<number | null>(null);
+    const [validation, setValidation] = useState<ValidationScheme>(DEFAULT_VALIDATION.none);
+    const [validationFolds, setValidationFolds] = useState<ValidationFold[]>([]);
+    const runRef = useRef<OptimizerRun | null>(null);
+
+    // 元件卸載時取消仍在執行的最佳化
+    useEffect(() => {
+        return () => runRef.current?.cancel();
+    }, []);
 
     async function handleStartOptimization() {
         if (prices.length === 0) {
@@ -38,28 +228,79 @@ export default function OptimizerPanel({
         setProgress(0);
         setGeneration(0);
         setTopStrategies([]);
+        setIsPaused(false);
+        setBestSoFar(null);
+        setStatusMessage(null);
+        setParetoFront([]);
+        setSelectedParetoIndex(null);
+        setValidationFolds([]);
+        setTotalGenerations(settings.generations * (validation.type === 'walkForward' ? validation.folds : 1));
 
-        try {
-            // Run the genetic algorithm
-            const result = await runGeneticOptimizer(
-                prices,
-                currentConfig,
-                (prog, gen) => {
-                    setProgress(prog);
-                    setGeneration(gen);
-                }
-            );
+        // 先決定種子，取消時仍可記錄取消前最佳策略的來源
+        const seed = seedInput.trim() !== '' ? Number(seedInput) >>> 0 : randomSeed();
+        setRunSeed(seed);
+
+        // Run the genetic algorithm in a worker
+        const run = startOptimizerRun(
+            prices,
+            currentConfig,
+            { ...settings, mode, seed, validation },
+            (prog, gen, best) => {
+                setProgress(prog);
+                setGeneration(gen);
+                setBestSoFar(best);
+            }
+        );
+        runRef.current = run;
 
+        try {
+            const result = await run.result;
             setTopStrategies(result.topStrategies);
+            setParetoFront(result.paretoFront ?? []);
+            setValidationFolds(result.validationFolds ?? []);
+            setProgress(100);
         } catch (error) {
-            console.error('Optimization failed:', error);
-            alert('優化過程發生錯誤，請稍後再試');
+            if ((error as { code?: string }).code === OPTIMIZER_CANCELLED) {
+                setStatusMessage('已取消，以下為取消前的最佳策略');
+            } else if ((error as { code?: string }).code === INVALID_OPTIMIZER_SETTINGS) {
+                setShowResults(false);
+                alert((error as { message: string }).message);
+            } else {
+                console.error('Optimization failed:', error);
+                alert('優化過程發生錯誤，請稍後再試');
+            }
         } finally {
+            runRef.current = null;
             setIsOptimizing(false);
-            setProgress(100);
+            setIsPaused(false);
+        }
+    }
+
+    function handleTogglePause() {
+        if (!runRef.current) return;
+        if (isPaused) {
+            runRef.current.resume();
+        } else {
+            runRef.current.pause();
         }
+        setIsPaused(!isPaused);
+    }
+
+    function handleCancel() {
+        runRef.current?.cancel();
+    }
+
+    // 套用策略時一併記錄種子
+    function handleApply(strategy: StrategyGenome) {
+        if (runSeed === null) return;
+        onApplyStrategy(strategy.tiers, runSeed, strategy.curve);
     }
 
+    // 取消後仍可套用取消前的最佳策略
+    const displayedStrategies = topStrategies.length === 0 && !isOptimizing && bestSoFar
+        ? [{ ...bestSoFar, labels: ['Best So Far'] }]
+        : topStrategies;
+
     return (
         <div className="bg-slate-800/50 border border-slate-700/50 rounded-xl p-4 mt-6">
             <div className="flex items-center justify-between mb-4">
@@ -71,12 +312,119 @@ export default function OptimizerPanel({
 
             <p className="text-xs text-slate-400 mb-4">
                 使用基因演算法 (Genetic Algorithm) 自動尋找最佳的「單調遞增」加碼策略。
-                這將會測試數萬種組合，找出 ROI 最高的配置。
+                {mode === 'pareto'
+                    ? '多目標模式 (NSGA-II) 同時權衡 ROI、囤幣數量、組合回撤與資金續航，回傳整條柏拉圖前緣。'
+                    : '這將會測試數萬種組合，找出 ROI 最高的配置。'}
             </p>
 
+            {isFormulaCurve(currentConfig.multiplierCurve) && (
+                <p className="text-xs text-sky-400/80 mb-4">
+                    目前使用公式倍率曲線：將最佳化曲線參數，倍數範圍作為曲線的上下限，回撤門檻設定不適用。
+                </p>
+            )}
+
+            {/* 最佳化模式 */}
+            {!isOptimizing && (
+                <div className="flex gap-1 mb-4 bg-slate-900/50 p-1 rounded-lg">
+                    {([['single', '單一目標 (ROI)'], ['pareto', '多目標 (柏拉圖前緣)']] as [OptimizerMode, string][]).map(([value, label]) => (
+                        <button
+                            key={value}
+                            type="button"
+                            onClick={() => setMode(value)}
+                            className={`flex-1 py-1.5 text-xs font-bold rounded transition-colors ${mode === value ? 'bg-amber-500 text-slate-900' : 'text-slate-400 hover:text-slate-200'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {/* 樣本外驗證 */}
+            {!isOptimizing && (
+                <div className="flex items-center gap-2 mb-4 text-xs">
+                    <span className="text-slate-400 whitespace-nowrap">樣本外驗證</span>
+                    <select
+                        value={validation.type}
+                        onChange={e => setValidation(DEFAULT_VALIDATION[e.target.value as ValidationScheme['type']])}
+                        className="flex-1 px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm"
+                    >
+                        {VALIDATION_OPTIONS.map(o => <option key={o.type} value={o.type}>{o.label}</option>)}
+                    </select>
+                    {validation.type === 'holdout' && (
+                        <label className="flex items-center gap-1 text-slate-400 whitespace-nowrap">
+                            最後
+                            <input
+                                type="number"
+                                min={5}
+                                max={95}
+                                step={5}
+                                value={Math.round(validation.testFraction * 100)}
+                                onChange={e => setValidation({ type: 'holdout', testFraction: Number(e.target.value) / 100 })}
+                                className="w-14 px-1 py-1 bg-slate-800 border border-slate-600 rounded text-sm font-mono"
+                            />
+                            %
+                        </label>
+                    )}
+                    {validation.type === 'walkForward' && (
+                        <label className="flex items-center gap-1 text-slate-400 whitespace-nowrap">
+                            <input
+                                type="number"
+                                min={1}
+                                max={20}
+                                value={validation.folds}
+                                onChange={e => setValidation({ type: 'walkForward', folds: Math.max(1, Math.round(Number(e.target.value))) })}
+                                className="w-14 px-1 py-1 bg-slate-800 border border-slate-600 rounded text-sm font-mono"
+                            />
+                            輪
+                        </label>
+                    )}
+                </div>
+            )}
+
+            {/* 進階設定 */}
+            {!isOptimizing && (
+                <div className="mb-4">
+                    <button
+                        type="button"
+                        onClick={() => setShowAdvanced(!showAdvanced)}
+                        className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-slate-200 mb-2"
+                    >
+                        <SlidersHorizontal size={14} />
+                        進階設定 {showAdvanced ? '▲' : '▼'}
+                    </button>
+                    {showAdvanced && (
+                        <div className="space-y-2">
+                            <OptimizerSettingsEditor value={settings} onChange={setSettings} />
+                            <div className="flex items-center gap-2 text-xs">
+                                <span className="text-slate-400 whitespace-nowrap">亂數種子</span>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={1}
+                                    value={seedInput}
+                                    onChange={e => setSeedInput(e.target.value)}
+                                    placeholder="留空則隨機"
+                                    className="flex-1 px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm font-mono"
+                                />
+                                {runSeed !== null && (
+                                    <button
+                                        type="button"
+                                        onClick={() => setSeedInput(String(runSeed))}
+                                        className="text-slate-400 hover:text-slate-200 whitespace-nowrap"
+                                    >
+                                        沿用上次
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+
             {/* Start Button */}
             {!isOptimizing && !showResults && (
                 <button
+                    type="button"
                     onClick={handleStartOptimization}
                     className="w-full py-3 bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-400 hover:to-orange-400 text-slate-900 font-bold rounded-lg flex items-center justify-center gap-2 shadow-lg shadow-orange-500/20 transition-all"
                 >
@@ -91,106 +439,135 @@ export default function OptimizerPanel({
                     {/* Status Bar */}
                     <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
                         <div className="flex justify-between text-xs text-slate-400 mb-2">
-                            <span>演化世代: {generation} / 50</span>
-                            <span>{isOptimizing ? '計算中...' : '完成'}</span>
+                            <span>
+                                演化世代: {generation} / {totalGenerations}
+                                {runSeed !== null && <span className="ml-2 font-mono text-slate-500">seed {runSeed}</span>}
+                            </span>
+                            <span>{isOptimizing ? (isPaused ? '已暫停' : '計算中...') : (statusMessage ? '已取消' : '完成')}</span>
                         </div>
                         <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
                             <div
-                                className="h-full bg-amber-500 transition-all duration-300"
+                                className={`h-full transition-all duration-300 ${isPaused ? 'bg-slate-500' : 'bg-amber-500'}`}
                                 style={{ width: `${progress}%` }}
                             />
                         </div>
+
+                        {/* 即時最佳策略 */}
+                        {isOptimizing && bestSoFar && (
+                            <div className="flex justify-between text-xs mt-2">
+                                <span className="text-slate-500">目前最佳 ROI</span>
+                                <span className="font-mono text-emerald-400">
+                                    {bestSoFar.fitness >= 0 ? '+' : ''}{bestSoFar.fitness.toFixed(2)}%
+                                    <span className="text-slate-500 ml-2">
+                                        ({bestSoFar.totalCoins?.toLocaleString(undefined, { maximumFractionDigits: 4 })} 顆)
+                                    </span>
+                                </span>
+                            </div>
+                        )}
+
+                        {/* 執行控制 */}
+                        {isOptimizing && (
+                            <div className="flex gap-2 mt-3">
+                                <button
+                                    type="button"
+                                    onClick={handleTogglePause}
+                                    className="flex-1 py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs font-bold rounded flex items-center justify-center gap-1.5 transition-colors"
+                                >
+                                    {isPaused ? <Play size={14} /> : <Pause size={14} />}
+                                    {isPaused ? '繼續' : '暫停'}
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={handleCancel}
+                                    className="flex-1 py-1.5 bg-slate-800 hover:bg-red-500/20 text-red-400 text-xs font-bold rounded flex items-center justify-center gap-1.5 transition-colors"
+                                >
+                                    <Square size={14} />
+                                    取消
+                                </button>
+                            </div>
+                        )}
                     </div>
 
+                    {statusMessage && (
+                        <p className="text-xs text-slate-500 text-center">{statusMessage}</p>
+                    )}
+
+                    {/* 各輪驗證結果 (每輪冠軍為 Most Accumulated) */}
+                    {validationFolds.length > 0 && (
+                        <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+                            <p className="text-xs text-slate-400 mb-2">
+                                {validationFolds.length > 1 ? '前進分析：每輪以前一段最佳化、下一段測試' : '樣本外驗證'}，下方策略取自最後一輪
+                            </p>
+                            <table className="w-full text-xs">
+                                <thead>
+                                    <tr className="text-slate-400 border-b border-slate-700">
+                                        <th className="text-left py-1">樣本外區間</th>
+                                        <th className="text-right py-1">樣本內超額</th>
+                                        <th className="text-right py-1">樣本外超額</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {validationFolds.map((fold, i) => {
+                                        const champion = fold.champions[0]?.validation;
+                                        return (
+                                            <tr key={i} className="border-b border-slate-800 font-mono">
+                                                <td className="py-1 text-slate-400" title={`樣本內 ${formatDateRange(fold.trainStart, fold.trainEnd)}`}>
+                                                    {formatDateRange(fold.testStart, fold.testEnd)}
+                                                </td>
+                                                <td className="text-right text-slate-200">{champion ? formatPercent(champion.inSample.excessRoi) : '-'}</td>
+                                                <td className={`text-right ${champion?.collapsed ? 'text-red-400' : 'text-emerald-400'}`}>
+                                                    {champion ? formatPercent(champion.outOfSample.excessRoi) : '-'}
+                                                </td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+
+                    {/* 柏拉圖前緣 */}
+                    {paretoFront.length > 0 && (
+                        <div className="space-y-3">
+                            <ParetoScatter
+                                front={paretoFront}
+                                selectedIndex={selectedParetoIndex}
+                                onSelect={setSelectedParetoIndex}
+                            />
+                            {selectedParetoIndex !== null && paretoFront[selectedParetoIndex] && (
+                                <StrategyCard
+                                    strategy={{ ...paretoFront[selectedParetoIndex], labels: [`Pareto #${selectedParetoIndex + 1}`] }}
+                                    index={-1}
+                                    controlPanelPrice={controlPanelPrice}
+                                    onApply={handleApply}
+                                />
+                            )}
+                        </div>
+                    )}
+
                     {/* Results List */}
                     <div className="space-y-3">
-                        {topStrategies.length === 0 && isOptimizing && (
+                        {displayedStrategies.length === 0 && isOptimizing && (
                             <div className="text-center py-4 text-slate-500 flex items-center justify-center gap-2">
                                 <Loader2 className="animate-spin" size={16} />
                                 正在培育優良策略...
                             </div>
                         )}
 
-                        {topStrategies.map((strategy, index) => (
-                            <div
+                        {displayedStrategies.map((strategy, index) => (
+                            <StrategyCard
                                 key={index}
-                                className="bg-slate-900 border border-slate-700/50 rounded-lg p-3 hover:border-amber-500/30 transition-colors group"
-                            >
-                                <div className="flex items-center justify-between mb-2">
-                                    <div className="flex items-center gap-2">
-                                        {index === 0 && <Trophy className="text-yellow-400" size={16} />}
-                                        <span className="text-slate-300 font-bold">
-                                            {strategy.labels && strategy.labels.length > 0
-                                                ? strategy.labels[0]
-                                                : `Strategy #${index + 1}`}
-                                        </span>
-                                    </div>
-                                </div>
-                                <div className="grid grid-cols-2 gap-4 mt-3">
-                                    <div className="bg-slate-900/50 p-2 rounded-lg">
-                                        <div className="text-xs text-slate-400">平均買入價</div>
-                                        <div className="text-sm font-mono text-slate-200">
-                                            ${strategy.averagePrice?.toLocaleString(undefined, { maximumFractionDigits: 2 }) || '-'}
-                                            {controlPanelPrice && strategy.averagePrice && (
-                                                <span className={`ml-1 text-xs ${controlPanelPrice > strategy.averagePrice ? 'text-emerald-400' : 'text-red-400'}`}>
-                                                    ({((controlPanelPrice - strategy.averagePrice) / strategy.averagePrice * 100).toFixed(1)}%)
-                                                </span>
-                                            )}
-                                        </div>
-                                    </div>
-                                    <div className="bg-slate-900/50 p-2 rounded-lg">
-                                        <div className="text-xs text-slate-400">囤幣數量</div>
-                                        <div className="text-sm font-mono text-slate-200">
-                                            {strategy.totalCoins?.toLocaleString(undefined, { maximumFractionDigits: 4 }) || '-'}
-                                        </div>
-                                    </div>
-                                    <div className="bg-slate-900/50 p-2 rounded-lg col-span-2">
-                                        <div className="text-xs text-slate-400">執行期間</div>
-                                        <div className="text-sm font-mono text-slate-200">
-                                            {strategy.executionStartDate && strategy.executionEndDate ? (
-                                                <span>
-                                                    {strategy.executionStartDate.toLocaleDateString('zh-TW')} ~ {strategy.executionEndDate.toLocaleDateString('zh-TW')}
-                                                    <span className="text-xs text-slate-500 ml-2">({strategy.executionDuration} 天)</span>
-                                                </span>
-                                            ) : (
-                                                '-'
-                                            )}
-                                            {strategy.fundsDepletedDate && <span className="text-red-400 ml-1 text-xs">(提前耗盡)</span>}
-                                        </div>
-                                    </div>
-                                    <div className="bg-slate-900/50 p-2 rounded-lg col-span-2">
-                                        <div className="text-xs text-slate-400">投資報酬率 (ROI)</div>
-                                        <div className="text-sm font-bold text-emerald-400">
-                                            +{strategy.fitness.toFixed(2)}%
-                                        </div>
-                                    </div>
-                                </div>
-
-                                {/* Mini Visualization of the Curve */}
-                                <div className="h-8 flex items-end gap-0.5 mb-3 opacity-80">
-                                    {strategy.genes.map((val, i) => (
-                                        <div
-                                            key={i}
-                                            className="w-full bg-sky-500/30 rounded-t-sm hover:bg-sky-400 transition-colors"
-                                            style={{ height: `${(val / 3) * 100}%` }}
-                                            title={`Level ${i + 1}: ${val}x`}
-                                        />
-                                    ))}
-                                </div>
-
-                                <button
-                                    onClick={() => onApplyStrategy(strategy.tiers)}
-                                    className="w-full py-1.5 bg-slate-800 hover:bg-slate-700 text-sky-400 text-xs font-bold rounded flex items-center justify-center gap-1.5 transition-colors"
-                                >
-                                    <Check size={14} />
-                                    套用此策略
-                                </button>
-                            </div>
+                                strategy={strategy}
+                                index={index}
+                                controlPanelPrice={controlPanelPrice}
+                                onApply={handleApply}
+                            />
                         ))}
                     </div>
 
                     {!isOptimizing && (
                         <button
+                            type="button"
                             onClick={handleStartOptimization}
                             className="w-full py-2 bg-slate-700 hover:bg-slate-600 text-slate-300 text-sm font-medium rounded-lg transition-colors"
                         >
@@ -0,0 +1,122 @@
+/* ===================================
+   Optimizer Settings Editor
+   進階設定：搜尋空間與基因演算法參數
+=================================== */
+
+import { useState } from 'react';
+import { DEFAULT_OPTIMIZER_SETTINGS } from '../utils/optimizer';
+import type { OptimizerSettings } from '../utils/optimizer';
+
+interface OptimizerSettingsEditorProps {
+    value: OptimizerSettings;
+    onChange: (settings: OptimizerSettings) => void;
+}
+
+type NumericField = Exclude<keyof OptimizerSettings, 'thresholds' | 'monotonic'>;
+
+/**
+ * 數值欄位設定
+ */
+const NUMERIC_FIELDS: { field: NumericField; label: string; step: number; min: number; max?: number; percent?: boolean }[] = [
+    { field: 'tierCount', label: '層級數', step: 1, min: 1 },
+    { field: 'minMultiplier', label: '最小倍數', step: 0.1, min: 0.1 },
+    { field: 'maxMultiplier', label: '最大倍數', step: 0.1, min: 0.1 },
+    { field: 'multiplierStep', label: '倍數間距', step: 0.05, min: 0.01 },
+    { field: 'populationSize', label: '族群大小', step: 50, min: 2 },
+    { field: 'generations', label: '世代數', step: 10, min: 1 },
+    { field: 'elitismCount', label: '菁英保留數', step: 10, min: 1 },
+    { field: 'mutationRate', label: '突變率 (%)', step: 1, min: 0, max: 100, percent: true },
+    { field: 'crossoverRate', label: '交配率 (%)', step: 1, min: 0, max: 100, percent: true },
+];
+
+/**
+ * 解析以逗號分隔的門檻 (%)，正數視為回撤幅度
+ */
+function parseThresholds(text: string): number[] {
+    return text
+        .split(/[\s,、]+/)
+        .map(t => Number(t.trim()))
+        .filter(t => t !== 0 && isFinite(t) && Math.abs(t) < 100)
+        .map(t => -Math.abs(t));
+}
+
+export default function OptimizerSettingsEditor({ value, onChange }: OptimizerSettingsEditorProps) {
+    // 門檻輸入保留原始字串，避免輸入到一半被格式化
+    const [thresholdText, setThresholdText] = useState(value.thresholds.join(', '));
+
+    function handleThresholdChange(text: string) {
+        setThresholdText(text);
+        const thresholds = parseThresholds(text);
+        if (thresholds.length > 0) {
+            onChange({ ...value, thresholds });
+        }
+    }
+
+    function updateField(field: NumericField, fieldValue: number, percent?: boolean) {
+        if (!isFinite(fieldValue)) return;
+        onChange({ ...value, [field]: percent ? fieldValue / 100 : fieldValue });
+    }
+
+    function handleReset() {
+        setThresholdText(DEFAULT_OPTIMIZER_SETTINGS.thresholds.join(', '));
+        onChange({ ...DEFAULT_OPTIMIZER_SETTINGS });
+    }
+
+    const evaluations = value.populationSize * value.generations;
+
+    return (
+        <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700 space-y-3">
+            <div>
+                <label className="label">回撤門檻 (%)</label>
+                <input
+                    type="text"
+                    value={thresholdText}
+                    onChange={e => handleThresholdChange(e.target.value)}
+                    placeholder="-5, -10, -15, ..."
+                    className="input-field text-sm font-mono"
+                />
+                <p className="text-xs text-slate-500 mt-1">
+                    共 {value.thresholds.length} 個門檻；門檻多於層級數時，較淺的門檻共用第一層倍數
+                </p>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+                {NUMERIC_FIELDS.map(({ field, label, step, min, max, percent }) => (
+                    <div key={field}>
+                        <label className="text-xs text-slate-400">{label}</label>
+                        <input
+                            type="number"
+                            step={step}
+                            min={min}
+                            max={max}
+                            value={percent ? Number((value[field] * 100).toFixed(2)) : value[field]}
+                            onChange={e => updateField(field, Number(e.target.value), percent)}
+                            className="w-full px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm font-mono"
+                        />
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex items-center justify-between">
+                <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={value.monotonic}
+                        onChange={e => onChange({ ...value, monotonic: e.target.checked })}
+                        className="w-3 h-3 rounded border-slate-600 bg-slate-800"
+                    />
+                    強制單調遞增 (越深的回撤倍數越大)
+                </label>
+                <button
+                    type="button"
+                    onClick={handleReset}
+                    className="text-xs text-slate-400 hover:text-slate-200"
+                >
+                    重設
+                </button>
+            </div>
+
+            <p className="text-xs text-slate-500">預計回測次數：約 {evaluations.toLocaleString()} 次</p>
+        </div>
+    );
+}
@@ -0,0 +1,77 @@
+/* ===================================
+   Outcome Histogram Component
+   蒙地卡羅單一指標的分佈直方圖 (策略 vs 純定投)
+=================================== */
+
+interface OutcomeHistogramProps {
+    strategy: number[];
+    benchmark: number[];
+    format: (value: number) => string;
+    bins?: number;
+}
+
+const WIDTH = 480;
+const HEIGHT = 160;
+const PADDING = { top: 10, right: 12, bottom: 24, left: 12 };
+
+export default function OutcomeHistogram({ strategy, benchmark, format, bins = 30 }: OutcomeHistogramProps) {
+    const values = [...strategy, ...benchmark].filter(v => isFinite(v));
+    if (values.length === 0) return null;
+
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const width = max > min ? (max - min) / bins : 1;
+
+    // 分箱計數 (最大值落在最後一箱)
+    const count = (series: number[]) => {
+        const counts = new Array<number>(bins).fill(0);
+        series.forEach(v => {
+            if (!isFinite(v)) return;
+            counts[Math.min(bins - 1, Math.floor((v - min) / width))]++;
+        });
+        return counts;
+    };
+    const strategyCounts = count(strategy);
+    const benchmarkCounts = count(benchmark);
+    const maxCount = Math.max(...strategyCounts, ...benchmarkCounts, 1);
+
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+    const barWidth = plotWidth / bins;
+    const barHeight = (n: number) => (n / maxCount) * plotHeight;
+
+    return (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">
+            <line x1={PADDING.left} y1={HEIGHT - PADDING.bottom} x2={WIDTH - PADDING.right} y2={HEIGHT - PADDING.bottom} stroke="#475569" />
+            <text x={PADDING.left} y={HEIGHT - 6} fill="#94a3b8" fontSize={9}>{format(min)}</text>
+            <text x={WIDTH - PADDING.right} y={HEIGHT - 6} fill="#94a3b8" fontSize={9} textAnchor="end">{format(max)}</text>
+
+            {strategyCounts.map((n, i) => (
+                <rect
+                    key={`s${i}`}
+                    x={PADDING.left + i * barWidth}
+                    y={HEIGHT - PADDING.bottom - barHeight(n)}
+                    width={Math.max(0, barWidth - 1)}
+                    height={barHeight(n)}
+                    fill="#38bdf8"
+                    fillOpacity={0.6}
+                >
+                    <title>{`${format(min + i * width)} ~ ${format(min + (i + 1) * width)}\n策略: ${n} 條路徑\n定投: ${benchmarkCounts[i]} 條路徑`}</title>
+                </rect>
+            ))}
+            {benchmarkCounts.map((n, i) => (
+                <rect
+                    key={`b${i}`}
+                    x={PADDING.left + i * barWidth}
+                    y={HEIGHT - PADDING.bottom - barHeight(n)}
+                    width={Math.max(0, barWidth - 1)}
+                    height={barHeight(n)}
+                    fill="none"
+                    stroke="#f59e0b"
+                    strokeOpacity={0.9}
+                    pointerEvents="none"
+                />
+            ))}
+        </svg>
+    );
+}
@@ -0,0 +1,111 @@
+/* ===================================
+   Pareto Scatter Component
+   柏拉圖前緣散佈圖，點選任一策略以檢視
+=================================== */
+
+import { useState } from 'react';
+import { OBJECTIVES } from '../utils/optimizer';
+import type { ObjectiveKey, StrategyGenome } from '../utils/optimizer';
+
+interface ParetoScatterProps {
+    front: StrategyGenome[];
+    selectedIndex: number | null;
+    onSelect: (index: number) => void;
+}
+
+const WIDTH = 320;
+const HEIGHT = 220;
+const PADDING = { top: 10, right: 12, bottom: 28, left: 52 };
+
+/**
+ * 數值格式化 (座標軸與提示)
+ */
+function formatValue(key: ObjectiveKey, value: number): string {
+    switch (key) {
+        case 'roi':
+        case 'portfolioDrawdown':
+            return `${value.toFixed(1)}%`;
+        case 'totalCoins':
+            return value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+        case 'runway':
+            return `${Math.round(value)}天`;
+    }
+}
+
+export default function ParetoScatter({ front, selectedIndex, onSelect }: ParetoScatterProps) {
+    const [xKey, setXKey] = useState<ObjectiveKey>('portfolioDrawdown');
+    const [yKey, setYKey] = useState<ObjectiveKey>('roi');
+
+    const points = front.filter(g => g.objectives);
+    if (points.length === 0) return null;
+
+    const xs = front.map(g => g.objectives?.[xKey] ?? 0);
+    const ys = front.map(g => g.objectives?.[yKey] ?? 0);
+    const xMin = Math.min(...xs);
+    const xMax = Math.max(...xs);
+    const yMin = Math.min(...ys);
+    const yMax = Math.max(...ys);
+
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+    const scaleX = (v: number) => PADDING.left + (xMax === xMin ? plotWidth / 2 : ((v - xMin) / (xMax - xMin)) * plotWidth);
+    const scaleY = (v: number) => PADDING.top + (yMax === yMin ? plotHeight / 2 : (1 - (v - yMin) / (yMax - yMin)) * plotHeight);
+
+    return (
+        <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+            <div className="flex items-center justify-between gap-2 mb-2 text-xs">
+                <span className="text-slate-400">柏拉圖前緣 ({front.length} 個策略)</span>
+                <div className="flex items-center gap-1">
+                    <select
+                        value={yKey}
+                        onChange={e => setYKey(e.target.value as ObjectiveKey)}
+                        className="px-1 py-0.5 bg-slate-800 border border-slate-600 rounded"
+                    >
+                        {OBJECTIVES.map(o => <option key={o.key} value={o.key}>{o.label}</option>)}
+                    </select>
+                    <span className="text-slate-500">vs</span>
+                    <select
+                        value={xKey}
+                        onChange={e => setXKey(e.target.value as ObjectiveKey)}
+                        className="px-1 py-0.5 bg-slate-800 border border-slate-600 rounded"
+                    >
+                        {OBJECTIVES.map(o => <option key={o.key} value={o.key}>{o.label}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">
+                {/* 座標軸 */}
+                <line x1={PADDING.left} y1={HEIGHT - PADDING.bottom} x2={WIDTH - PADDING.right} y2={HEIGHT - PADDING.bottom} stroke="#475569" />
+                <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={HEIGHT - PADDING.bottom} stroke="#475569" />
+                <text x={PADDING.left} y={HEIGHT - 8} fill="#94a3b8" fontSize={9}>{formatValue(xKey, xMin)}</text>
+                <text x={WIDTH - PADDING.right} y={HEIGHT - 8} fill="#94a3b8" fontSize={9} textAnchor="end">{formatValue(xKey, xMax)}</text>
+                <text x={PADDING.left - 4} y={HEIGHT - PADDING.bottom} fill="#94a3b8" fontSize={9} textAnchor="end">{formatValue(yKey, yMin)}</text>
+                <text x={PADDING.left - 4} y={PADDING.top + 8} fill="#94a3b8" fontSize={9} textAnchor="end">{formatValue(yKey, yMax)}</text>
+
+                {front.map((genome, index) => {
+                    if (!genome.objectives) return null;
+                    const isSelected = index === selectedIndex;
+                    return (
+                        <circle
+                            key={index}
+                            cx={scaleX(genome.objectives[xKey])}
+                            cy={scaleY(genome.objectives[yKey])}
+                            r={isSelected ? 6 : 4}
+                            fill={isSelected ? '#f59e0b' : '#38bdf8'}
+                            fillOpacity={isSelected ? 1 : 0.6}
+                            stroke={isSelected ? '#fde68a' : 'none'}
+                            className="cursor-pointer"
+                            onClick={() => onSelect(index)}
+                        >
+                            <title>
+                                {OBJECTIVES.map(o => `${o.label}: ${formatValue(o.key, genome.objectives![o.key])}`).join('\n')}
+                            </title>
+                        </circle>
+                    );
+                })}
+            </svg>
+            <p className="text-xs text-slate-500 mt-1">點選任一點以檢視並套用該策略</p>
+        </div>
+    );
+}
@@ -0,0 +1,353 @@
+/* ===================================
+   多幣種投資組合面板
+   設定資產與目標權重、級距套用方式與再平衡規則，顯示各資產與總體結果
+=================================== */
+
+import { useState, useRef, useEffect } from 'react';
+import { Layers, Plus, Trash2, ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+import type { ApiError, BacktestConfig, CoinOption, DrawdownTier, PriceDataPoint } from '../types';
+import { fetchCoinList, fetchPriceHistory } from '../services/api';
+import { isAbortError } from '../services/httpClient';
+import { runPortfolioBacktest } from '../utils/portfolio';
+import type { PortfolioResult, RebalanceRule, TierScope } from '../utils/portfolio';
+import DrawdownTierEditor from './DrawdownTierEditor';
+import AllocationChart from './AllocationChart';
+
+interface PortfolioPanelProps {
+    config: BacktestConfig;   // 沿用日期、資金、入金計畫、定投金額、排程與交易成本
+    tiers: DrawdownTier[];    // 新增資產時的預設級距
+}
+
+/**
+ * 資產列 (權重以 % 輸入)
+ */
+interface AssetRow {
+    coinId: string;
+    weight: number;
+    tiers: DrawdownTier[];
+}
+
+const REBALANCE_DEFAULTS: Record<RebalanceRule['type'], RebalanceRule> = {
+    none: { type: 'none' },
+    periodic: { type: 'periodic', days: 90 },
+    threshold: { type: 'threshold', band: 0.05 },
+};
+
+const REBALANCE_LABELS: Record<RebalanceRule['type'], string> = {
+    none: '不再平衡',
+    periodic: '定期',
+    threshold: '偏離門檻',
+};
+
+// 預設組合的第二個資產
+const DEFAULT_SECOND_ASSET = 'ethereum';
+
+function formatUsd(value: number): string {
+    return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+}
+
+function formatPercent(value: number): string {
+    return `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+}
+
+export default function PortfolioPanel({ config, tiers }: PortfolioPanelProps) {
+    const [coins, setCoins] = useState<CoinOption[]>([]);
+    const [rows, setRows] = useState<AssetRow[]>(() => [
+        { coinId: config.coinId, weight: 60, tiers },
+        ...(config.coinId !== DEFAULT_SECOND_ASSET ? [{ coinId: DEFAULT_SECOND_ASSET, weight: 40, tiers }] : []),
+    ]);
+    const [expandedRow, setExpandedRow] = useState<number | null>(null);
+    const [tierScope, setTierScope] = useState<TierScope>('perAsset');
+    const [basketTiers, setBasketTiers] = useState<DrawdownTier[]>(tiers);
+    const [rebalanceRule, setRebalanceRule] = useState<RebalanceRule>(REBALANCE_DEFAULTS.none);
+    const [isRunning, setIsRunning] = useState(false);
+    const [loadingCoin, setLoadingCoin] = useState<string | null>(null);
+    const [result, setResult] = useState<PortfolioResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const requestRef = useRef<AbortController | null>(null);
+
+    // 載入幣種列表；卸載時取消進行中的價格請求
+    useEffect(() => {
+        const controller = new AbortController();
+        fetchCoinList(controller.signal)
+            .then(setCoins)
+            .catch(err => {
+                if (!isAbortError(err)) console.error('載入幣種列表失敗:', err);
+            });
+        return () => {
+            controller.abort();
+            requestRef.current?.abort();
+        };
+    }, []);
+
+    // 回測設定變更後，舊結果不再適用
+    useEffect(() => {
+        setResult(null);
+    }, [config]);
+
+    const coinName = (coinId: string) => coins.find(c => c.id === coinId)?.symbol.toUpperCase() || coinId;
+    const weightTotal = rows.reduce((sum, r) => sum + Math.max(0, r.weight), 0);
+
+    function updateRow(index: number, patch: Partial<AssetRow>) {
+        setRows(rows.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+    }
+
+    function addRow() {
+        const next = coins.find(c => !rows.some(r => r.coinId === c.id));
+        if (!next) return;
+        setRows([...rows, { coinId: next.id, weight: 0, tiers }]);
+    }
+
+    async function handleRun() {
+        requestRef.current?.abort();
+        const controller = new AbortController();
+        requestRef.current = controller;
+
+        setIsRunning(true);
+        setError(null);
+        setResult(null);
+
+        try {
+            // 依序載入各資產價格 (避免同時發出大量請求)
+            const pricesByAsset: Record<string, PriceDataPoint[]> = {};
+            for (const row of rows) {
+                setLoadingCoin(row.coinId);
+                pricesByAsset[row.coinId] = (await fetchPriceHistory(row.coinId, { signal: controller.signal })).prices;
+            }
+            setLoadingCoin(null);
+
+            setResult(runPortfolioBacktest(pricesByAsset, config, {
+                assets: rows.map(r => ({ coinId: r.coinId, weight: r.weight, tiers: r.tiers })),
+                tierScope,
+                basketTiers,
+                rebalance: rebalanceRule
+            }));
+        } catch (err) {
+            if (isAbortError(err)) return;
+            setError((err as ApiError).message || '投資組合回測失敗');
+        } finally {
+            if (requestRef.current === controller) {
+                requestRef.current = null;
+                setIsRunning(false);
+                setLoadingCoin(null);
+            }
+        }
+    }
+
+    return (
+        <div className="card">
+            <div className="flex items-center gap-2 mb-4">
+                <Layers className="text-sky-400" size={20} />
+                <h3 className="text-lg font-bold text-slate-200">多幣種投資組合</h3>
+            </div>
+
+            {/* 設定 */}
+            <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700 space-y-3">
+                <div className="space-y-2">
+                    {rows.map((row, index) => (
+                        <div key={index} className="space-y-1">
+                            <div className="flex items-center gap-2">
+                                <select
+                                    value={row.coinId}
+                                    onChange={e => updateRow(index, { coinId: e.target.value })}
+                                    className="flex-1 px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm"
+                                >
+                                    {!coins.some(c => c.id === row.coinId) && <option value={row.coinId}>{row.coinId}</option>}
+                                    {coins
+                                        .filter(c => c.id === row.coinId || !rows.some(r => r.coinId === c.id))
+                                        .map(c => <option key={c.id} value={c.id}>{c.symbol.toUpperCase()} - {c.name}</option>)}
+                                </select>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={5}
+                                    value={row.weight}
+                                    onChange={e => updateRow(index, { weight: Math.max(0, Number(e.target.value)) })}
+                                    className="w-16 px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm font-mono text-right"
+                                />
+                                <span className="text-xs text-slate-400 w-10 text-right">
+                                    {weightTotal > 0 ? `${((row.weight / weightTotal) * 100).toFixed(0)}%` : '-'}
+                                </span>
+                                {tierScope === 'perAsset' && (
+                                    <button
+                                        type="button"
+                                        onClick={() => setExpandedRow(expandedRow === index ? null : index)}
+                                        className="p-1 text-slate-400 hover:text-slate-200"
+                                        title="個別級距"
+                                    >
+                                        {expandedRow === index ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                                    </button>
+                                )}
+                                <button
+                                    type="button"
+                                    onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                                    disabled={rows.length <= 1}
+                                    className="p-1 text-slate-500 hover:text-red-400 disabled:opacity-30 transition-colors"
+                                >
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                            {tierScope === 'perAsset' && expandedRow === index && (
+                                <div className="pl-2 border-l border-slate-700">
+                                    <DrawdownTierEditor tiers={row.tiers} onChange={newTiers => updateRow(index, { tiers: newTiers })} />
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                    <button
+                        type="button"
+                        onClick={addRow}
+                        disabled={coins.length === 0}
+                        className="flex items-center gap-1 text-xs text-sky-400 hover:text-sky-300 disabled:opacity-50"
+                    >
+                        <Plus size={14} />
+                        新增資產
+                    </button>
+                </div>
+
+                {/* 級距套用方式 */}
+                <div>
+                    <label className="text-xs text-slate-400">回撤級距</label>
+                    <div className="flex gap-1 mt-1 bg-slate-800/50 p-1 rounded-lg">
+                        {([['perAsset', '各資產分別計算'], ['basket', '整個籃子']] as [TierScope, string][]).map(([value, label]) => (
+                            <button
+                                key={value}
+                                type="button"
+                                onClick={() => setTierScope(value)}
+                                className={`flex-1 py-1 text-xs font-bold rounded transition-colors ${tierScope === value ? 'bg-sky-500 text-slate-900' : 'text-slate-400 hover:text-slate-200'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    {tierScope === 'basket' && (
+                        <div className="mt-2">
+                            <p className="text-xs text-slate-500 mb-1">依目標權重組成的籃子指數相對其 ATH 的跌幅決定倍率</p>
+                            <DrawdownTierEditor tiers={basketTiers} onChange={setBasketTiers} />
+                        </div>
+                    )}
+                </div>
+
+                {/* 再平衡 */}
+                <div className="flex items-center gap-2 text-xs">
+                    <span className="text-slate-400 whitespace-nowrap">再平衡</span>
+                    <select
+                        value={rebalanceRule.type}
+                        onChange={e => setRebalanceRule(REBALANCE_DEFAULTS[e.target.value as RebalanceRule['type']])}
+                        className="flex-1 px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm"
+                    >
+                        {(Object.keys(REBALANCE_LABELS) as RebalanceRule['type'][]).map(type => (
+                            <option key={type} value={type}>{REBALANCE_LABELS[type]}</option>
+                        ))}
+                    </select>
+                    {rebalanceRule.type === 'periodic' && (
+                        <label className="flex items-center gap-1 text-slate-400 whitespace-nowrap">
+                            每
+                            <input
+                                type="number"
+                                min={1}
+                                value={rebalanceRule.days}
+                                onChange={e => setRebalanceRule({ type: 'periodic', days: Math.max(1, Math.round(Number(e.target.value))) })}
+                                className="w-14 px-1 py-1 bg-slate-800 border border-slate-600 rounded text-sm font-mono"
+                            />
+                            天
+                        </label>
+                    )}
+                    {rebalanceRule.type === 'threshold' && (
+                        <label className="flex items-center gap-1 text-slate-400 whitespace-nowrap">
+                            偏離
+                            <input
+                                type="number"
+                                min={1}
+                                max={50}
+                                value={Math.round(rebalanceRule.band * 100)}
+                                onChange={e => setRebalanceRule({ type: 'threshold', band: Math.max(1, Number(e.target.value)) / 100 })}
+                                className="w-14 px-1 py-1 bg-slate-800 border border-slate-600 rounded text-sm font-mono"
+                            />
+                            %
+                        </label>
+                    )}
+                </div>
+
+                <p className="text-xs text-slate-500">
+                    沿用目前的日期、資金、入金計畫、定投金額、排程與交易成本；所有資產共用一個現金池，不套用出場級距
+                </p>
+
+                <button
+                    type="button"
+                    onClick={handleRun}
+                    disabled={isRunning || weightTotal <= 0}
+                    className="w-full py-1.5 bg-sky-500 hover:bg-sky-400 disabled:opacity-50 text-slate-900 text-xs font-bold rounded transition-colors flex items-center justify-center gap-1"
+                >
+                    {isRunning && <Loader2 className="animate-spin" size={14} />}
+                    {loadingCoin ? `載入 ${coinName(loadingCoin)} 價格...` : isRunning ? '計算中...' : '執行組合回測'}
+                </button>
+                {error && <p className="text-xs text-red-400">{error}</p>}
+            </div>
+
+            {/* 結果 */}
+            {result && (
+                <div className="mt-4 space-y-4 fade-in">
+                    <div className="grid grid-cols-3 gap-2 text-xs">
+                        <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+                            <p className="text-slate-400">總投入</p>
+                            <p className="text-lg font-mono text-slate-200">{formatUsd(result.totalInvested)}</p>
+                            <p className="text-slate-500">剩餘現金 {formatUsd(result.remainingCash)}</p>
+                            {result.totalContributions > 0 && <p className="text-slate-500">累計入金 {formatUsd(result.totalContributions)}</p>}
+                            {result.totalInterest > 0 && <p className="text-slate-500">現金利息 {formatUsd(result.totalInterest)}</p>}
+                        </div>
+                        <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+                            <p className="text-slate-400">期末持倉市值</p>
+                            <p className="text-lg font-mono text-sky-300">{formatUsd(result.finalValue)}</p>
+                            <p className={result.roi >= 0 ? 'text-emerald-400' : 'text-red-400'}>ROI {formatPercent(result.roi)}</p>
+                        </div>
+                        <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+                            <p className="text-slate-400">組合最大回撤</p>
+                            <p className="text-lg font-mono text-red-400">{result.portfolioMaxDrawdown.toFixed(1)}%</p>
+                            <p className="text-slate-500">再平衡 {result.rebalanceCount} 次 · 成本 {formatUsd(result.totalFees)}</p>
+                        </div>
+                    </div>
+                    {result.fundsDepletedDate && (
+                        <p className="text-xs text-red-400">資金於 {result.fundsDepletedDate.toLocaleDateString('zh-TW')} 耗盡</p>
+                    )}
+
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-xs">
+                            <thead>
+                                <tr className="text-slate-400 border-b border-slate-700">
+                                    <th className="text-left py-1">資產</th>
+                                    <th className="text-right py-1">目標 / 期末權重</th>
+                                    <th className="text-right py-1">投入</th>
+                                    <th className="text-right py-1">持倉量</th>
+                                    <th className="text-right py-1">均價</th>
+                                    <th className="text-right py-1">市值</th>
+                                    <th className="text-right py-1">ROI</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {result.assets.map(asset => (
+                                    <tr key={asset.coinId} className="border-b border-slate-800 font-mono">
+                                        <td className="py-1 font-sans text-slate-300">{coinName(asset.coinId)}</td>
+                                        <td className="text-right text-slate-400">
+                                            {(asset.targetWeight * 100).toFixed(0)}% / {(asset.finalWeight * 100).toFixed(0)}%
+                                        </td>
+                                        <td className="text-right text-slate-200">{formatUsd(asset.totalInvested)}</td>
+                                        <td className="text-right text-slate-200">{asset.totalCoins.toLocaleString(undefined, { maximumFractionDigits: 4 })}</td>
+                                        <td className="text-right text-slate-200">${asset.averagePrice.toLocaleString(undefined, { maximumFractionDigits: 2 })}</td>
+                                        <td className="text-right text-sky-300">{formatUsd(asset.finalValue)}</td>
+                                        <td className={`text-right ${asset.roi >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{formatPercent(asset.roi)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+                        <p className="text-xs text-slate-400 mb-2">資產配置 (市值)</p>
+                        <AllocationChart points={result.allocation} labels={result.assets.map(a => coinName(a.coinId))} />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
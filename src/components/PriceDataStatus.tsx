@@ -0,0 +1,51 @@
+/* ===================================
+   價格資料狀態元件
+   顯示資料來源、新鮮度與離線狀態
+=================================== */
+
+import { Database, RefreshCw, WifiOff } from 'lucide-react';
+import type { PriceDataPoint, PriceHistory } from '../types';
+import { getProvider } from '../services/providers';
+
+interface PriceDataStatusProps {
+    prices: PriceDataPoint[];
+    info: Omit<PriceHistory, 'prices'>;
+    isRefreshing: boolean;
+    onRefresh: () => void;
+}
+
+export default function PriceDataStatus({ prices, info, isRefreshing, onRefresh }: PriceDataStatusProps) {
+    if (prices.length === 0) return null;
+
+    const lastDate = new Date(prices[prices.length - 1].timestamp);
+
+    return (
+        <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-2 bg-slate-800/50 border border-slate-700/50 rounded-lg text-xs">
+            <div className="flex flex-wrap items-center gap-3 text-slate-400">
+                <span className="flex items-center gap-1.5">
+                    <Database size={14} className="text-sky-400" />
+                    {getProvider(info.source).name}
+                </span>
+                <span>資料至 {lastDate.toLocaleDateString('zh-TW')}</span>
+                <span>更新於 {info.updatedAt.toLocaleString('zh-TW')}</span>
+                {info.offline ? (
+                    <span className="flex items-center gap-1 text-amber-400">
+                        <WifiOff size={12} />
+                        離線 (使用快取)
+                    </span>
+                ) : info.fromCache && (
+                    <span className="text-emerald-400">快取</span>
+                )}
+            </div>
+            <button
+                onClick={onRefresh}
+                disabled={isRefreshing}
+                className="flex items-center gap-1 text-slate-400 hover:text-slate-200 disabled:opacity-50 transition-colors"
+                title="抓取最新資料"
+            >
+                <RefreshCw size={12} className={isRefreshing ? 'animate-spin' : ''} />
+                更新
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,85 @@
+/* ===================================
+   資料來源設定元件
+   調整價格資料來源的優先順序
+=================================== */
+
+import { useState } from 'react';
+import { ArrowUp, ArrowDown, Database } from 'lucide-react';
+import type { PriceSource } from '../types';
+import { getProvider, getProviderPriority, setProviderPriority, DEFAULT_PROVIDER_PRIORITY } from '../services/providers';
+
+interface ProviderSettingsProps {
+    onChange: () => void; // 順序變更後重新載入價格
+}
+
+export default function ProviderSettings({ onChange }: ProviderSettingsProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [priority, setPriority] = useState<PriceSource[]>(getProviderPriority);
+
+    function applyPriority(next: PriceSource[]) {
+        setPriority(next);
+        setProviderPriority(next);
+        onChange();
+    }
+
+    /**
+     * 將來源上移 / 下移一位
+     */
+    function move(index: number, offset: -1 | 1) {
+        const target = index + offset;
+        if (target < 0 || target >= priority.length) return;
+        const next = [...priority];
+        [next[index], next[target]] = [next[target], next[index]];
+        applyPriority(next);
+    }
+
+    return (
+        <div className="mt-2">
+            <button
+                type="button"
+                onClick={() => setIsOpen(!isOpen)}
+                className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-slate-200 transition-colors"
+            >
+                <Database size={14} />
+                資料來源順序 {isOpen ? '▲' : '▼'}
+            </button>
+
+            {isOpen && (
+                <div className="mt-2 p-3 bg-slate-900/50 rounded-lg border border-slate-700 space-y-1">
+                    {priority.map((id, index) => (
+                        <div key={id} className="flex items-center gap-2 text-sm">
+                            <span className="text-slate-500 w-5">{index + 1}.</span>
+                            <span className="flex-1 text-slate-300">{getProvider(id).name}</span>
+                            <button
+                                type="button"
+                                onClick={() => move(index, -1)}
+                                disabled={index === 0}
+                                className="p-1 text-slate-400 hover:text-slate-200 disabled:opacity-30"
+                            >
+                                <ArrowUp size={14} />
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => move(index, 1)}
+                                disabled={index === priority.length - 1}
+                                className="p-1 text-slate-400 hover:text-slate-200 disabled:opacity-30"
+                            >
+                                <ArrowDown size={14} />
+                            </button>
+                        </div>
+                    ))}
+                    <div className="flex items-center justify-between pt-1">
+                        <p className="text-xs text-slate-500">前面的來源優先使用，失敗時依序回退</p>
+                        <button
+                            type="button"
+                            onClick={() => applyPriority([...DEFAULT_PROVIDER_PRIORITY])}
+                            className="text-xs text-slate-400 hover:text-slate-200"
+                        >
+                            重設
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,7 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Calculator, RefreshCw, AlertCircle, ArrowRight } from 'lucide-react';
 import { fetchRealTimeData } from '../services/api';
-import type { DrawdownTier } from '../types';
+import { isAbortError } from '../services/httpClient';
+import type { ApiError, DrawdownTier } from '../types';
 
 interface RealTimeCalculatorProps {
     coinId: string;
@@ -13,33 +14,40 @@ export default function RealTimeCalculator({ coinId, baseAmount, tiers }: RealTi
     const [isLoading, setIsLoading] = useState(false);
     const [data, setData] = useState<{ price: number, ath: number } | null>(null);
     const [error, setError] = useState<string | null>(null);
-    const [cooldown, setCooldown] = useState(0);
+    const requestRef = useRef<AbortController | null>(null);
 
-    // 倒數計時器
+    // 切換幣種時取消進行中的查詢並清除舊報價
     useEffect(() => {
-        if (cooldown > 0) {
-            const timer = setTimeout(() => setCooldown(c => c - 1), 1000);
-            return () => clearTimeout(timer);
-        }
-    }, [cooldown]);
+        setData(null);
+        setError(null);
+        return () => {
+            requestRef.current?.abort();
+            requestRef.current = null;
+        };
+    }, [coinId]);
 
+    // 頻率限制由請求層的節流與重試處理
     const handleCalculate = async () => {
-        if (cooldown > 0) return;
+        requestRef.current?.abort();
+        const controller = new AbortController();
+        requestRef.current = controller;
 
         setIsLoading(true);
         setError(null);
         try {
-            const result = await fetchRealTimeData(coinId);
+            const result = await fetchRealTimeData(coinId, controller.signal);
             setData({
                 price: result.currentPrice,
                 ath: result.ath
             });
-            setCooldown(10); // 成功後冷卻 10 秒
         } catch (err) {
-            setError('無法取得即時價格 (可能觸發頻率限制)');
+            if (isAbortError(err)) return;
+            setError((err as ApiError).message || '無法取得即時價格');
             console.error(err);
         } finally {
-            setIsLoading(false);
+            if (requestRef.current === controller || requestRef.current === null) {
+                setIsLoading(false);
+            }
         }
     };
 
@@ -168,7 +176,7 @@ export default function RealTimeCalculator({ coinId, baseAmount, tiers }: RealTi
             {/* 按鈕 */}
             <button
                 onClick={handleCalculate}
-                disabled={isLoading || cooldown > 0}
+                disabled={isLoading}
                 className="btn w-full mt-4 bg-slate-700 hover:bg-slate-600 text-slate-200 flex justify-center items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
             >
                 {isLoading ? (
@@ -176,11 +184,6 @@ export default function RealTimeCalculator({ coinId, baseAmount, tiers }: RealTi
                         <RefreshCw className="animate-spin" size={18} />
                         查詢中...
                     </>
-                ) : cooldown > 0 ? (
-                    <>
-                        <RefreshCw size={18} />
-                        冷卻中 ({cooldown}s)
-                    </>
                 ) : (
                     <>
                         <RefreshCw size={18} />
@@ -3,8 +3,9 @@
    顯示關鍵指標卡片
 =================================== */
 
-import { TrendingUp, TrendingDown, Coins, DollarSign, PiggyBank, AlertTriangle, Calendar } from 'lucide-react';
+import { TrendingUp, TrendingDown, Coins, DollarSign, PiggyBank, AlertTriangle, Calendar, HandCoins, Receipt } from 'lucide-react';
 import type { BacktestResult } from '../types';
+import { getProvider } from '../services/providers';
 
 interface ResultsSummaryProps {
     result: BacktestResult;
@@ -27,12 +28,41 @@ function formatCurrency(num: number): string {
     return `$${formatNumber(num)}`;
 }
 
+/**
+ * 格式化百分比 (無法計算時顯示 -)
+ */
+function formatPercent(num: number): string {
+    return Number.isFinite(num) ? `${num >= 0 ? '+' : ''}${formatNumber(num)}%` : '-';
+}
+
+/**
+ * 風險調整績效的顯示項目
+ */
+function getMetricItems(result: BacktestResult): { label: string; value: string; hint: string }[] {
+    const m = result.metrics;
+    return [
+        { label: 'XIRR (年化)', value: formatPercent(m.xirr), hint: '資金加權報酬：考慮每筆投入的時間點' },
+        { label: 'TWR (年化)', value: formatPercent(m.annualizedTwr), hint: `時間加權報酬，區間累計 ${formatPercent(m.twr)}` },
+        { label: '年化波動率', value: `${formatNumber(m.volatility)}%`, hint: '投資組合 (現金 + 持倉) 每日報酬的年化標準差' },
+        { label: 'Sharpe', value: formatNumber(m.sharpe), hint: '年化報酬 / 年化波動率 (無風險利率 0)' },
+        { label: 'Sortino', value: formatNumber(m.sortino), hint: '年化報酬 / 下行波動率' },
+        { label: 'Calmar', value: formatNumber(m.calmar), hint: '年化 TWR / 投資組合最大回撤' },
+    ];
+}
+
 export default function ResultsSummary({ result }: ResultsSummaryProps) {
     // const isProfit = result.roi >= 0; // 移除，改用 result.roiAtLastBuy 判斷
+    const buyCount = result.trades.filter(t => t.side === 'buy').length;
+    const sellCount = result.trades.length - buyCount;
 
     return (
         <div className="card">
-            <h2 className="text-xl font-bold text-gradient mb-6">回測結果</h2>
+            <div className="flex items-baseline justify-between mb-6">
+                <h2 className="text-xl font-bold text-gradient">回測結果</h2>
+                {result.dataSource && (
+                    <span className="text-xs text-slate-500">資料來源: {getProvider(result.dataSource).name}</span>
+                )}
+            </div>
 
             {/* 資金枯竭警告 */}
             {/* 資金耗盡提示 (中性資訊) */}
@@ -42,7 +72,9 @@ export default function ResultsSummary({ result }: ResultsSummaryProps) {
                     <div>
                         <p className="text-sky-400 font-medium">資金已於 {result.fundsDepletedDate?.toLocaleDateString('zh-TW')} 耗盡</p>
                         <p className="text-sky-400/70 text-sm mt-1">
-                            隨後的期間將不再進行投入，僅計算持有資產的價值變化。
+                            {result.totalContributions > 0
+                                ? '之後的定投僅能使用新入金，不足的部分不再買入。'
+                                : '隨後的期間將不再進行投入，僅計算持有資產的價值變化。'}
                         </p>
                     </div>
                 </div>
@@ -65,7 +97,7 @@ export default function ResultsSummary({ result }: ResultsSummaryProps) {
                     <span className="stat-label flex flex-col items-center">
                         <span>投報率 (ROI)</span>
                         <span className="text-[10px] opacity-60 mt-0.5">
-                            現今: {result.roi >= 0 ? '+' : ''}{formatNumber(result.roi)}%
+                            結束日: {result.roi >= 0 ? '+' : ''}{formatNumber(result.roi)}%
                         </span>
                     </span>
                 </div>
@@ -84,8 +116,13 @@ export default function ResultsSummary({ result }: ResultsSummaryProps) {
                             </span>
                         )}
                         <span className="text-[10px] opacity-60 mt-0.5">
-                            現今: {formatCurrency(result.finalValue)}
+                            結束日: {formatCurrency(result.finalValue)}
                         </span>
+                        {result.totalInterest > 0 && (
+                            <span className="text-[10px] text-emerald-400/80 mt-0.5">
+                                含現金利息: {formatCurrency(result.totalInterest)}
+                            </span>
+                        )}
                     </span>
                 </div>
 
@@ -95,7 +132,19 @@ export default function ResultsSummary({ result }: ResultsSummaryProps) {
                         <PiggyBank className="text-purple-400" size={24} />
                     </div>
                     <span className="stat-value text-purple-400">{formatCurrency(result.totalInvested)}</span>
-                    <span className="stat-label">總投入成本</span>
+                    <span className="stat-label flex flex-col items-center">
+                        <span>總投入成本</span>
+                        {result.totalContributions > 0 && (
+                            <span className="text-[10px] opacity-60 mt-0.5">
+                                累計入金: {formatCurrency(result.totalContributions)}
+                            </span>
+                        )}
+                        {result.netInvested < result.totalInvested && (
+                            <span className="text-[10px] opacity-60 mt-0.5">
+                                外部資金: {formatCurrency(result.netInvested)} (其餘為賣出所得再投入)
+                            </span>
+                        )}
+                    </span>
                 </div>
 
                 {/* 持倉數量 */}
@@ -143,14 +192,78 @@ export default function ResultsSummary({ result }: ResultsSummaryProps) {
                         <TrendingDown className="text-orange-400" size={24} />
                     </div>
                     <span className="stat-value text-orange-400">{formatNumber(result.maxDrawdown)}%</span>
-                    <span className="stat-label">最大回撤</span>
+                    <span className="stat-label">價格最大回撤 (ATH)</span>
+                </div>
+
+                {/* 投資組合最大回撤 */}
+                <div className="stat-card border-rose-500/30">
+                    <div className="p-3 rounded-full mb-3 bg-rose-500/10">
+                        <TrendingDown className="text-rose-400" size={24} />
+                    </div>
+                    <span className="stat-value text-rose-400">{formatNumber(result.portfolioMaxDrawdown)}%</span>
+                    <span className="stat-label flex flex-col items-center">
+                        <span>投資組合最大回撤</span>
+                        <span className="text-[10px] opacity-60 mt-0.5">
+                            最長水下 {result.portfolioDrawdownDuration} 天
+                        </span>
+                    </span>
+                </div>
+
+                {/* 交易成本 */}
+                <div className="stat-card">
+                    <div className="p-3 rounded-full mb-3 bg-slate-500/10">
+                        <Receipt className="text-slate-300" size={24} />
+                    </div>
+                    <span className="stat-value text-slate-300">{formatCurrency(result.totalFees)}</span>
+                    <span className="stat-label flex flex-col items-center">
+                        <span>交易成本</span>
+                        {result.totalInvested > 0 && (
+                            <span className="text-[10px] opacity-60 mt-0.5">
+                                佔投入 {formatNumber((result.totalFees / result.totalInvested) * 100)}%
+                            </span>
+                        )}
+                    </span>
+                </div>
+
+                {/* 已實現損益 (有賣出時才顯示) */}
+                {result.totalProceeds > 0 && (
+                    <div className={`stat-card ${result.realizedPnl >= 0 ? 'border-green-500/30' : 'border-red-500/30'}`}>
+                        <div className="p-3 rounded-full mb-3 bg-rose-500/10">
+                            <HandCoins className="text-rose-400" size={24} />
+                        </div>
+                        <span className={`stat-value ${result.realizedPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                            {result.realizedPnl >= 0 ? '+' : '-'}{formatCurrency(Math.abs(result.realizedPnl))}
+                        </span>
+                        <span className="stat-label flex flex-col items-center">
+                            <span>已實現損益</span>
+                            <span className="text-[10px] opacity-60 mt-0.5">
+                                賣出所得: {formatCurrency(result.totalProceeds)}
+                            </span>
+                        </span>
+                    </div>
+                )}
+            </div>
+
+            {/* 風險調整績效 */}
+            <div className="mt-6 pt-6 border-t border-slate-700">
+                <h3 className="text-sm font-medium text-slate-400 mb-3">風險調整績效</h3>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                    {getMetricItems(result).map(item => (
+                        <div key={item.label} className="bg-slate-900/50 rounded-lg p-3 text-center" title={item.hint}>
+                            <div className="text-xs text-slate-500 mb-1">{item.label}</div>
+                            <div className="font-mono text-slate-200">{item.value}</div>
+                        </div>
+                    ))}
                 </div>
             </div>
 
             {/* 交易次數 */}
             <div className="mt-6 pt-6 border-t border-slate-700 text-center">
                 <span className="text-slate-400">
-                    共執行 <span className="text-sky-400 font-semibold">{result.trades.length}</span> 筆定投
+                    共執行 <span className="text-sky-400 font-semibold">{buyCount}</span> 筆定投
+                    {sellCount > 0 && (
+                        <>、<span className="text-rose-400 font-semibold">{sellCount}</span> 筆賣出</>
+                    )}
                 </span>
             </div>
         </div>
@@ -0,0 +1,203 @@
+/* ===================================
+   滾動起始日分析面板
+   以所有可能的進場日回測目前策略，顯示勝率與超額報酬分佈
+=================================== */
+
+import { useState, useRef, useEffect } from 'react';
+import { CalendarRange, X } from 'lucide-react';
+import type { BacktestConfig, DrawdownTier, PriceDataPoint } from '../types';
+import { runRollingWindows, ROLLING_WINDOWS_CANCELLED } from '../utils/rollingWindows';
+import type { RollingWindowOutcome, RollingWindowResult } from '../utils/rollingWindows';
+import { summarizeDistribution } from '../utils/monteCarlo';
+import ExcessReturnChart from './ExcessReturnChart';
+
+interface RollingWindowsPanelProps {
+    prices: PriceDataPoint[];
+    config: BacktestConfig;
+    tiers: DrawdownTier[];
+}
+
+// 起始日間隔選項
+const STEP_OPTIONS = [
+    { days: 1, label: '每日' },
+    { days: 7, label: '每週' },
+    { days: 30, label: '每月' },
+];
+
+function formatPercent(value: number): string {
+    return `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+}
+
+function formatDate(timestamp: number): string {
+    return new Date(timestamp).toLocaleDateString('zh-TW');
+}
+
+export default function RollingWindowsPanel({ prices, config, tiers }: RollingWindowsPanelProps) {
+    const [horizonMonths, setHorizonMonths] = useState(24);
+    const [stepDays, setStepDays] = useState(7);
+    const [isRunning, setIsRunning] = useState(false);
+    const [progress, setProgress] = useState(0);
+    const [result, setResult] = useState<RollingWindowResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const cancelledRef = useRef(false);
+
+    // 策略或資料變更後，舊的分析結果不再適用
+    useEffect(() => {
+        setResult(null);
+        return () => { cancelledRef.current = true; };
+    }, [prices, config, tiers]);
+
+    async function handleRun() {
+        cancelledRef.current = false;
+        setIsRunning(true);
+        setProgress(0);
+        setError(null);
+        setResult(null);
+
+        try {
+            const analysis = await runRollingWindows(
+                prices,
+                config,
+                tiers,
+                { horizonDays: Math.round(horizonMonths * 30.44), stepDays },
+                (completed, total) => setProgress((completed / total) * 100),
+                { isCancelled: () => cancelledRef.current }
+            );
+            setResult(analysis);
+        } catch (err) {
+            if ((err as { code?: string }).code !== ROLLING_WINDOWS_CANCELLED) {
+                setError((err as { message?: string }).message || '分析失敗');
+            }
+        } finally {
+            setIsRunning(false);
+        }
+    }
+
+    const roiSummary = result ? summarizeDistribution(result.windows.map(w => w.roi)) : null;
+    const benchmarkSummary = result ? summarizeDistribution(result.windows.map(w => w.benchmarkRoi)) : null;
+
+    const highlights: { label: string; outcome: RollingWindowOutcome }[] = result
+        ? [
+            { label: '最佳', outcome: result.best },
+            { label: '中位數', outcome: result.median },
+            { label: '最差', outcome: result.worst },
+        ]
+        : [];
+
+    return (
+        <div className="card">
+            <div className="flex items-center gap-2 mb-4">
+                <CalendarRange className="text-sky-400" size={20} />
+                <h3 className="text-lg font-bold text-slate-200">滾動起始日分析</h3>
+            </div>
+
+            {/* 設定 */}
+            <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700 space-y-3">
+                <div className="grid grid-cols-2 gap-2">
+                    <div>
+                        <label className="text-xs text-slate-400">每段回測期間 (月)</label>
+                        <input
+                            type="number"
+                            min={1}
+                            value={horizonMonths}
+                            onChange={e => setHorizonMonths(Math.max(1, Number(e.target.value)))}
+                            className="w-full px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm font-mono"
+                        />
+                    </div>
+                    <div>
+                        <label className="text-xs text-slate-400">起始日間隔</label>
+                        <select
+                            value={stepDays}
+                            onChange={e => setStepDays(Number(e.target.value))}
+                            className="w-full px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm"
+                        >
+                            {STEP_OPTIONS.map(o => <option key={o.days} value={o.days}>{o.label}</option>)}
+                        </select>
+                    </div>
+                </div>
+                <p className="text-xs text-slate-500">
+                    沿用目前的資金、排程與級距設定，只改變開始與結束日期
+                </p>
+
+                {isRunning ? (
+                    <div className="space-y-2">
+                        <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                            <div className="h-full bg-sky-500 transition-all duration-300" style={{ width: `${progress}%` }} />
+                        </div>
+                        <button
+                            type="button"
+                            onClick={() => { cancelledRef.current = true; }}
+                            className="w-full py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs rounded flex items-center justify-center gap-1"
+                        >
+                            <X size={14} />
+                            取消
+                        </button>
+                    </div>
+                ) : (
+                    <button
+                        type="button"
+                        onClick={handleRun}
+                        disabled={prices.length === 0}
+                        className="w-full py-1.5 bg-sky-500 hover:bg-sky-400 disabled:opacity-50 text-slate-900 text-xs font-bold rounded transition-colors"
+                    >
+                        開始分析
+                    </button>
+                )}
+                {error && <p className="text-xs text-red-400">{error}</p>}
+            </div>
+
+            {/* 結果 */}
+            {result && roiSummary && benchmarkSummary && (
+                <div className="mt-4 space-y-4 fade-in">
+                    <div className="grid grid-cols-3 gap-2 text-xs">
+                        <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+                            <p className="text-slate-400">勝過純定投</p>
+                            <p className="text-lg font-mono text-slate-200">{(result.winRate * 100).toFixed(1)}%</p>
+                            <p className="text-slate-500">{result.windows.length.toLocaleString()} 個起始日</p>
+                        </div>
+                        <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+                            <p className="text-slate-400">策略 ROI 中位數</p>
+                            <p className="text-lg font-mono text-sky-300">{formatPercent(roiSummary.p50)}</p>
+                            <p className="text-slate-500">P5 {formatPercent(roiSummary.p5)} / P95 {formatPercent(roiSummary.p95)}</p>
+                        </div>
+                        <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+                            <p className="text-slate-400">定投 ROI 中位數</p>
+                            <p className="text-lg font-mono text-amber-300">{formatPercent(benchmarkSummary.p50)}</p>
+                            <p className="text-slate-500">P5 {formatPercent(benchmarkSummary.p5)} / P95 {formatPercent(benchmarkSummary.p95)}</p>
+                        </div>
+                    </div>
+
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-slate-400 border-b border-slate-700">
+                                <th className="text-left py-1">超額報酬</th>
+                                <th className="text-left py-1">起始日</th>
+                                <th className="text-right py-1">策略</th>
+                                <th className="text-right py-1">定投</th>
+                                <th className="text-right py-1">差距</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {highlights.map(({ label, outcome }) => (
+                                <tr key={label} className="border-b border-slate-800 font-mono">
+                                    <td className="py-1 font-sans text-slate-300">{label}</td>
+                                    <td className="text-slate-400">{formatDate(outcome.startTimestamp)} ~ {formatDate(outcome.endTimestamp)}</td>
+                                    <td className="text-right text-sky-300">{formatPercent(outcome.roi)}</td>
+                                    <td className="text-right text-amber-300">{formatPercent(outcome.benchmarkRoi)}</td>
+                                    <td className={`text-right ${outcome.excessReturn >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                                        {formatPercent(outcome.excessReturn)}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+
+                    <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+                        <p className="text-xs text-slate-400 mb-2">各起始日的超額報酬 (策略 ROI - 定投 ROI)</p>
+                        <ExcessReturnChart windows={result.windows} />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
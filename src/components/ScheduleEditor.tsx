@@ -0,0 +1,171 @@
+/* ===================================
+   定投排程設定元件
+   固定間隔、每週、每月、月底工作日與自訂日期
+=================================== */
+
+import { useState } from 'react';
+import type { DcaSchedule, DcaScheduleRule, MissingDayPolicy } from '../types';
+import { describeSchedule } from '../utils/schedule';
+
+interface ScheduleEditorProps {
+    value: DcaSchedule;
+    onChange: (schedule: DcaSchedule) => void;
+}
+
+const WEEKDAYS = ['日', '一', '二', '三', '四', '五', '六'];
+
+/**
+ * 各排程類型的預設規則
+ */
+const DEFAULT_RULES: Record<DcaScheduleRule['type'], DcaScheduleRule> = {
+    interval: { type: 'interval', days: 7 },
+    weekly: { type: 'weekly', weekdays: [1] },
+    monthly: { type: 'monthly', days: [1, 15] },
+    lastBusinessDay: { type: 'lastBusinessDay' },
+    custom: { type: 'custom', dates: [] },
+};
+
+/**
+ * 解析以逗號 / 換行分隔的文字
+ */
+function splitList(text: string): string[] {
+    return text.split(/[\s,、]+/).map(t => t.trim()).filter(Boolean);
+}
+
+export default function ScheduleEditor({ value, onChange }: ScheduleEditorProps) {
+    // 文字輸入框保留原始字串，避免輸入到一半被格式化
+    const [monthlyText, setMonthlyText] = useState(value.type === 'monthly' ? value.days.join(', ') : '1, 15');
+    const [customText, setCustomText] = useState(value.type === 'custom' ? value.dates.join('\n') : '');
+
+    const missingDay = value.missingDay ?? 'nextAvailable';
+
+    /**
+     * 切換排程類型
+     */
+    function changeType(type: DcaScheduleRule['type']) {
+        if (type === value.type) return;
+        const rule = DEFAULT_RULES[type];
+        if (rule.type === 'monthly') setMonthlyText(rule.days.join(', '));
+        if (rule.type === 'custom') setCustomText('');
+        onChange({ ...rule, missingDay });
+    }
+
+    /**
+     * 切換每週的星期
+     */
+    function toggleWeekday(day: number) {
+        if (value.type !== 'weekly') return;
+        const weekdays = value.weekdays.includes(day)
+            ? value.weekdays.filter(d => d !== day)
+            : [...value.weekdays, day];
+        if (weekdays.length === 0) return; // 至少保留一天
+        onChange({ ...value, weekdays });
+    }
+
+    function handleMonthlyChange(text: string) {
+        setMonthlyText(text);
+        const days = splitList(text)
+            .map(Number)
+            .filter(d => Number.isInteger(d) && d >= 1 && d <= 31);
+        if (days.length > 0) {
+            onChange({ type: 'monthly', days: Array.from(new Set(days)), missingDay });
+        }
+    }
+
+    function handleCustomChange(text: string) {
+        setCustomText(text);
+        const dates = splitList(text).filter(d => /^\d{4}-\d{2}-\d{2}$/.test(d) && !isNaN(new Date(d).getTime()));
+        onChange({ type: 'custom', dates: Array.from(new Set(dates)).sort(), missingDay });
+    }
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-3">
+                <label className="label mb-0">定投排程</label>
+                <span className="text-xs text-sky-400/80">{describeSchedule(value)}</span>
+            </div>
+
+            <div className="space-y-3">
+                <select
+                    value={value.type}
+                    onChange={e => changeType(e.target.value as DcaScheduleRule['type'])}
+                    className="input-field"
+                >
+                    <option value="interval">固定間隔 (每 N 天)</option>
+                    <option value="weekly">每週指定星期</option>
+                    <option value="monthly">每月指定日期</option>
+                    <option value="lastBusinessDay">每月最後一個工作日</option>
+                    <option value="custom">自訂日期</option>
+                </select>
+
+                {value.type === 'interval' && (
+                    <div className="flex items-center gap-2">
+                        <span className="text-slate-400 text-sm">每</span>
+                        <input
+                            type="number"
+                            min={1}
+                            max={365}
+                            value={value.days}
+                            onChange={e => onChange({ ...value, days: Math.max(1, Math.round(Number(e.target.value))) })}
+                            className="w-20 px-2 py-1 bg-slate-800 border border-slate-600 rounded text-center text-sm"
+                        />
+                        <span className="text-slate-400 text-sm">天</span>
+                    </div>
+                )}
+
+                {value.type === 'weekly' && (
+                    <div className="flex gap-1">
+                        {WEEKDAYS.map((label, day) => (
+                            <button
+                                key={day}
+                                type="button"
+                                onClick={() => toggleWeekday(day)}
+                                className={`flex-1 py-1 rounded text-sm transition-colors ${value.weekdays.includes(day) ? 'bg-sky-500 text-slate-900 font-bold' : 'bg-slate-800 text-slate-400 hover:text-slate-200'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                )}
+
+                {value.type === 'monthly' && (
+                    <div>
+                        <input
+                            type="text"
+                            value={monthlyText}
+                            onChange={e => handleMonthlyChange(e.target.value)}
+                            placeholder="例如: 1, 15"
+                            className="input-field"
+                        />
+                        <p className="text-xs text-slate-500 mt-1">以逗號分隔 (1-31)，超過當月天數時於月底執行</p>
+                    </div>
+                )}
+
+                {value.type === 'custom' && (
+                    <div>
+                        <textarea
+                            value={customText}
+                            onChange={e => handleCustomChange(e.target.value)}
+                            placeholder={'2024-01-05\n2024-02-05'}
+                            rows={4}
+                            className="input-field font-mono text-sm"
+                        />
+                        <p className="text-xs text-slate-500 mt-1">每行一個日期 (YYYY-MM-DD)，已解析 {value.dates.length} 個</p>
+                    </div>
+                )}
+
+                <div className="flex items-center gap-2">
+                    <span className="text-slate-400 text-sm whitespace-nowrap">缺少價格資料時</span>
+                    <select
+                        value={missingDay}
+                        onChange={e => onChange({ ...value, missingDay: e.target.value as MissingDayPolicy })}
+                        className="flex-1 px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm"
+                    >
+                        <option value="nextAvailable">順延至下一個有資料的日子</option>
+                        <option value="skip">略過該次定投</option>
+                    </select>
+                </div>
+            </div>
+        </div>
+    );
+}
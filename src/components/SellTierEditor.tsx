@@ -0,0 +1,107 @@
+/* ===================================
+   出場級距編輯元件
+   設定分批賣出 (獲利了結) 的觸發條件
+=================================== */
+
+import { Plus, Trash2 } from 'lucide-react';
+import type { SellTier, SellTrigger } from '../types';
+import { createSellTier } from '../utils/calculator';
+
+interface SellTierEditorProps {
+    tiers: SellTier[];
+    onChange: (tiers: SellTier[]) => void;
+}
+
+export default function SellTierEditor({ tiers, onChange }: SellTierEditorProps) {
+    /**
+     * 更新級距欄位
+     */
+    function updateTier(id: string, patch: Partial<SellTier>) {
+        onChange(tiers.map(t => t.id === id ? { ...t, ...patch } : t));
+    }
+
+    /**
+     * 切換觸發條件 (同時重置為該條件的預設門檻)
+     */
+    function changeTrigger(id: string, trigger: SellTrigger) {
+        updateTier(id, { trigger, threshold: createSellTier(trigger).threshold });
+    }
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-3">
+                <label className="label mb-0">出場級距表</label>
+                <button
+                    type="button"
+                    onClick={() => onChange([...tiers, createSellTier()])}
+                    className="p-2 text-rose-400 hover:text-rose-300 transition-colors"
+                    title="新增出場級距"
+                >
+                    <Plus size={18} />
+                </button>
+            </div>
+
+            {tiers.length === 0 ? (
+                <p className="text-xs text-slate-500">
+                    未設定出場級距，回測只買不賣
+                </p>
+            ) : (
+                <div className="space-y-2">
+                    {tiers.map((tier, index) => (
+                        <div key={tier.id} className="flex items-center gap-2 p-3 bg-slate-900/50 rounded-lg">
+                            <span className="text-slate-500 w-6">{index + 1}.</span>
+
+                            <select
+                                value={tier.trigger}
+                                onChange={e => changeTrigger(tier.id, e.target.value as SellTrigger)}
+                                className="px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm"
+                            >
+                                <option value="aboveCost">高於均價</option>
+                                <option value="nearAth">距 ATH</option>
+                            </select>
+
+                            <div className="flex items-center gap-1 flex-1">
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={5}
+                                    value={Math.round(tier.threshold * 100)}
+                                    onChange={e => updateTier(tier.id, { threshold: Math.abs(Number(e.target.value)) / 100 })}
+                                    className="w-16 px-2 py-1 bg-slate-800 border border-slate-600 rounded text-center text-sm"
+                                />
+                                <span className="text-slate-400 text-sm">
+                                    {tier.trigger === 'aboveCost' ? '%' : '% 內'}
+                                </span>
+                            </div>
+
+                            <div className="flex items-center gap-1 flex-1">
+                                <span className="text-slate-400 text-sm">賣出</span>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={100}
+                                    step={1}
+                                    value={Math.round(tier.sellPercent * 100)}
+                                    onChange={e => updateTier(tier.id, { sellPercent: Math.min(100, Math.abs(Number(e.target.value))) / 100 })}
+                                    className="w-16 px-2 py-1 bg-slate-800 border border-slate-600 rounded text-center text-sm"
+                                />
+                                <span className="text-slate-400 text-sm">%</span>
+                            </div>
+
+                            <button
+                                type="button"
+                                onClick={() => onChange(tiers.filter(t => t.id !== tier.id))}
+                                className="p-1.5 text-slate-500 hover:text-red-400 transition-colors"
+                            >
+                                <Trash2 size={16} />
+                            </button>
+                        </div>
+                    ))}
+                    <p className="text-xs text-slate-500">
+                        於定投日檢查，觸發時改為賣出持倉的指定比例 (多個同時觸發取最大比例)；每個級距在價格創新高前只賣出一次
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+}
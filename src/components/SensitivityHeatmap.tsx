@@ -0,0 +1,116 @@
+/* ===================================
+   Sensitivity Heatmap Component
+   兩個參數掃描：以顏色表示各組合的指標
+=================================== */
+
+interface SensitivityHeatmapProps {
+    xValues: number[];
+    yValues: number[];
+    grid: number[][];          // grid[y 索引][x 索引]
+    higherIsBetter: boolean;   // 決定色階方向 (綠 = 較佳)
+    baseline?: { x: number; y: number }; // 目前設定值 (標示外框)
+    formatX: (value: number) => string;
+    formatY: (value: number) => string;
+    formatValue: (value: number) => string;
+}
+
+const WIDTH = 480;
+const HEIGHT = 260;
+const PADDING = { top: 10, right: 12, bottom: 24, left: 56 };
+
+/**
+ * 0 (差) → 1 (佳) 對應紅 → 黃 → 綠
+ */
+function colorFor(t: number): string {
+    const hue = Math.round(Math.max(0, Math.min(1, t)) * 140);
+    return `hsl(${hue}, 70%, 45%)`;
+}
+
+/**
+ * 最接近目前設定值的索引
+ */
+function nearestIndex(values: number[], target: number): number {
+    let best = 0;
+    values.forEach((v, i) => {
+        if (Math.abs(v - target) < Math.abs(values[best] - target)) best = i;
+    });
+    return best;
+}
+
+export default function SensitivityHeatmap({
+    xValues,
+    yValues,
+    grid,
+    higherIsBetter,
+    baseline,
+    formatX,
+    formatY,
+    formatValue
+}: SensitivityHeatmapProps) {
+    if (xValues.length === 0 || yValues.length === 0) return null;
+
+    const finite = grid.flat().filter(v => isFinite(v));
+    const min = Math.min(...finite);
+    const max = Math.max(...finite);
+
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+    const cellWidth = plotWidth / xValues.length;
+    const cellHeight = plotHeight / yValues.length;
+
+    const baselineCell = baseline
+        ? { x: nearestIndex(xValues, baseline.x), y: nearestIndex(yValues, baseline.y) }
+        : null;
+
+    // y 軸由下往上遞增
+    const cellY = (row: number) => PADDING.top + (yValues.length - 1 - row) * cellHeight;
+
+    return (
+        <div>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">
+                <text x={PADDING.left - 4} y={PADDING.top + 8} fill="#94a3b8" fontSize={9} textAnchor="end">{formatY(yValues[yValues.length - 1])}</text>
+                <text x={PADDING.left - 4} y={HEIGHT - PADDING.bottom} fill="#94a3b8" fontSize={9} textAnchor="end">{formatY(yValues[0])}</text>
+                <text x={PADDING.left} y={HEIGHT - 6} fill="#94a3b8" fontSize={9}>{formatX(xValues[0])}</text>
+                <text x={WIDTH - PADDING.right} y={HEIGHT - 6} fill="#94a3b8" fontSize={9} textAnchor="end">{formatX(xValues[xValues.length - 1])}</text>
+
+                {grid.map((row, y) => row.map((value, x) => {
+                    const t = max === min ? 0.5 : (value - min) / (max - min);
+                    return (
+                        <rect
+                            key={`${x}-${y}`}
+                            x={PADDING.left + x * cellWidth}
+                            y={cellY(y)}
+                            width={cellWidth}
+                            height={cellHeight}
+                            fill={isFinite(value) ? colorFor(higherIsBetter ? t : 1 - t) : '#1e293b'}
+                            stroke="#0f172a"
+                            strokeWidth={0.5}
+                        >
+                            <title>{`${formatX(xValues[x])} / ${formatY(yValues[y])}\n${formatValue(value)}`}</title>
+                        </rect>
+                    );
+                }))}
+
+                {baselineCell && (
+                    <rect
+                        x={PADDING.left + baselineCell.x * cellWidth}
+                        y={cellY(baselineCell.y)}
+                        width={cellWidth}
+                        height={cellHeight}
+                        fill="none"
+                        stroke="#f8fafc"
+                        strokeWidth={1.5}
+                        pointerEvents="none"
+                    />
+                )}
+            </svg>
+
+            {/* 色階 */}
+            <div className="flex items-center gap-2 text-xs text-slate-400 mt-1">
+                <span className="font-mono">{formatValue(higherIsBetter ? min : max)}</span>
+                <div className="flex-1 h-2 rounded" style={{ background: `linear-gradient(to right, ${colorFor(0)}, ${colorFor(0.5)}, ${colorFor(1)})` }} />
+                <span className="font-mono">{formatValue(higherIsBetter ? max : min)}</span>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,67 @@
+/* ===================================
+   Sensitivity Line Chart Component
+   單一參數掃描：指標隨參數值的變化
+=================================== */
+
+interface SensitivityLineChartProps {
+    xValues: number[];
+    values: number[];
+    baselineX?: number;        // 目前設定值 (畫參考線)
+    formatX: (value: number) => string;
+    formatY: (value: number) => string;
+}
+
+const WIDTH = 480;
+const HEIGHT = 200;
+const PADDING = { top: 10, right: 12, bottom: 24, left: 56 };
+
+export default function SensitivityLineChart({ xValues, values, baselineX, formatX, formatY }: SensitivityLineChartProps) {
+    if (xValues.length === 0) return null;
+
+    const xMin = xValues[0];
+    const xMax = xValues[xValues.length - 1];
+    const finite = values.filter(v => isFinite(v));
+    const yMin = Math.min(...finite);
+    const yMax = Math.max(...finite);
+
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+    const scaleX = (v: number) => PADDING.left + (xMax === xMin ? plotWidth / 2 : ((v - xMin) / (xMax - xMin)) * plotWidth);
+    const scaleY = (v: number) => PADDING.top + (yMax === yMin ? plotHeight / 2 : (1 - (v - yMin) / (yMax - yMin)) * plotHeight);
+
+    const path = xValues
+        .map((x, i) => (isFinite(values[i]) ? `${scaleX(x)},${scaleY(values[i])}` : null))
+        .filter(p => p !== null)
+        .join(' ');
+
+    return (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">
+            {/* 座標軸 */}
+            <line x1={PADDING.left} y1={HEIGHT - PADDING.bottom} x2={WIDTH - PADDING.right} y2={HEIGHT - PADDING.bottom} stroke="#475569" />
+            <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={HEIGHT - PADDING.bottom} stroke="#475569" />
+            <text x={PADDING.left - 4} y={PADDING.top + 8} fill="#94a3b8" fontSize={9} textAnchor="end">{formatY(yMax)}</text>
+            <text x={PADDING.left - 4} y={HEIGHT - PADDING.bottom} fill="#94a3b8" fontSize={9} textAnchor="end">{formatY(yMin)}</text>
+            <text x={PADDING.left} y={HEIGHT - 6} fill="#94a3b8" fontSize={9}>{formatX(xMin)}</text>
+            <text x={WIDTH - PADDING.right} y={HEIGHT - 6} fill="#94a3b8" fontSize={9} textAnchor="end">{formatX(xMax)}</text>
+
+            {/* 目前設定值 */}
+            {baselineX !== undefined && baselineX >= xMin && baselineX <= xMax && (
+                <line
+                    x1={scaleX(baselineX)}
+                    y1={PADDING.top}
+                    x2={scaleX(baselineX)}
+                    y2={HEIGHT - PADDING.bottom}
+                    stroke="#fbbf24"
+                    strokeDasharray="3 3"
+                />
+            )}
+
+            <polyline points={path} fill="none" stroke="#38bdf8" strokeWidth={1.5} />
+            {xValues.map((x, i) => isFinite(values[i]) && (
+                <circle key={i} cx={scaleX(x)} cy={scaleY(values[i])} r={2.5} fill="#38bdf8">
+                    <title>{`${formatX(x)}\n${formatY(values[i])}`}</title>
+                </circle>
+            ))}
+        </svg>
+    );
+}
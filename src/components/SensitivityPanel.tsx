@@ -0,0 +1,331 @@
+/* ===================================
+   參數敏感度分析面板
+   掃描一或兩個參數，以折線圖或熱度圖顯示策略對設定值的敏感程度
+=================================== */
+
+import { useState, useRef, useEffect } from 'react';
+import { Grid3x3, X } from 'lucide-react';
+import type { BacktestConfig, DrawdownTier, PriceDataPoint } from '../types';
+import { getParameterValue, runSensitivity, SENSITIVITY_CANCELLED, SENSITIVITY_METRIC_LABELS } from '../utils/sensitivity';
+import type { SensitivityMetric, SensitivityParameter, SensitivityResult } from '../utils/sensitivity';
+import SensitivityLineChart from './SensitivityLineChart';
+import SensitivityHeatmap from './SensitivityHeatmap';
+
+interface SensitivityPanelProps {
+    prices: PriceDataPoint[];
+    config: BacktestConfig;
+    tiers: DrawdownTier[];
+}
+
+/**
+ * 可選參數 (scale: 輸入框顯示值 = 實際值 × scale)
+ */
+interface ParameterOption {
+    key: string;
+    label: string;
+    parameter: SensitivityParameter;
+    scale: number;
+    format: (value: number) => string;
+}
+
+/**
+ * 軸的輸入範圍 (顯示單位)
+ */
+interface AxisInput {
+    key: string;
+    min: number;
+    max: number;
+    steps: number;
+}
+
+const METRIC_FORMATS: Record<SensitivityMetric, (v: number) => string> = {
+    roi: v => `${v >= 0 ? '+' : ''}${v.toFixed(1)}%`,
+    totalCoins: v => v.toLocaleString(undefined, { maximumFractionDigits: 4 }),
+    averagePrice: v => `$${v.toLocaleString(undefined, { maximumFractionDigits: 2 })}`,
+    runwayDays: v => `${Math.round(v)} 天`,
+};
+
+function formatUsd(value: number): string {
+    return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+}
+
+function buildParameterOptions(tiers: DrawdownTier[]): ParameterOption[] {
+    const sortedTiers = [...tiers].sort((a, b) => b.threshold - a.threshold);
+    return [
+        { key: 'baseDcaAmount', label: '基礎定投金額', parameter: { kind: 'config', field: 'baseDcaAmount' }, scale: 1, format: formatUsd },
+        { key: 'dcaFrequency', label: '定投頻率 (天)', parameter: { kind: 'config', field: 'dcaFrequency' }, scale: 1, format: v => `${Math.round(v)} 天` },
+        { key: 'initialCapital', label: '初始資金', parameter: { kind: 'config', field: 'initialCapital' }, scale: 1, format: formatUsd },
+        ...sortedTiers.flatMap((tier, i): ParameterOption[] => [
+            {
+                key: `${tier.id}:multiplier`,
+                label: `級距 ${i + 1} (${(tier.threshold * 100).toFixed(0)}%) 倍率`,
+                parameter: { kind: 'tier', tierId: tier.id, field: 'multiplier' },
+                scale: 1,
+                format: v => `${v.toFixed(2)}x`
+            },
+            {
+                key: `${tier.id}:threshold`,
+                label: `級距 ${i + 1} (${(tier.threshold * 100).toFixed(0)}%) 閾值 (%)`,
+                parameter: { kind: 'tier', tierId: tier.id, field: 'threshold' },
+                scale: 100,
+                format: v => `${(v * 100).toFixed(1)}%`
+            },
+        ]),
+    ];
+}
+
+/**
+ * 以目前設定值為中心的預設範圍
+ */
+function defaultAxis(option: ParameterOption, config: BacktestConfig, tiers: DrawdownTier[], steps: number): AxisInput {
+    const current = (getParameterValue(option.parameter, config, tiers) ?? 0) * option.scale;
+    const round = (v: number) => Math.round(v * 100) / 100;
+    if (option.parameter.kind === 'tier' && option.parameter.field === 'threshold') {
+        return { key: option.key, min: Math.max(-99, round(current - 10)), max: Math.min(-1, round(current + 10)), steps };
+    }
+    if (option.parameter.kind === 'tier') {
+        return { key: option.key, min: Math.max(0, round(current - 1)), max: round(current + 1), steps };
+    }
+    if (option.parameter.field === 'dcaFrequency') {
+        return { key: option.key, min: Math.max(1, Math.round(current / 2)), max: Math.max(2, Math.round(current * 2)), steps };
+    }
+    return { key: option.key, min: round(current * 0.5), max: round(current * 1.5), steps };
+}
+
+interface AxisEditorProps {
+    label: string;
+    value: AxisInput;
+    options: ParameterOption[];
+    allowNone?: boolean;
+    onSelect: (key: string) => void;
+    onChange: (value: AxisInput) => void;
+}
+
+/**
+ * 單一軸的參數與範圍設定
+ */
+function AxisEditor({ label, value, options, allowNone, onSelect, onChange }: AxisEditorProps) {
+    const inputClass = 'w-full px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm font-mono';
+    return (
+        <div className="space-y-1">
+            <div className="flex items-center gap-2">
+                <span className="text-xs text-slate-400 w-10">{label}</span>
+                <select
+                    value={value.key}
+                    onChange={e => onSelect(e.target.value)}
+                    className="flex-1 px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm"
+                >
+                    {allowNone && <option value="">(無，一維掃描)</option>}
+                    {options.map(o => <option key={o.key} value={o.key}>{o.label}</option>)}
+                </select>
+            </div>
+            {value.key !== '' && (
+                <div className="grid grid-cols-3 gap-2 pl-12">
+                    <div>
+                        <label className="text-xs text-slate-500">最小</label>
+                        <input type="number" value={value.min} onChange={e => onChange({ ...value, min: Number(e.target.value) })} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="text-xs text-slate-500">最大</label>
+                        <input type="number" value={value.max} onChange={e => onChange({ ...value, max: Number(e.target.value) })} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className="text-xs text-slate-500">點數</label>
+                        <input
+                            type="number"
+                            min={1}
+                            max={50}
+                            value={value.steps}
+                            onChange={e => onChange({ ...value, steps: Math.round(Number(e.target.value)) })}
+                            className={inputClass}
+                        />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default function SensitivityPanel({ prices, config, tiers }: SensitivityPanelProps) {
+    const options = buildParameterOptions(tiers);
+    const findOption = (key: string) => options.find(o => o.key === key);
+
+    const [xAxis, setXAxis] = useState<AxisInput>(() => defaultAxis(options[0], config, tiers, 11));
+    const [yAxis, setYAxis] = useState<AxisInput>({ key: '', min: 0, max: 0, steps: 9 });
+    const [metric, setMetric] = useState<SensitivityMetric>('roi');
+    const [isRunning, setIsRunning] = useState(false);
+    const [progress, setProgress] = useState(0);
+    const [result, setResult] = useState<SensitivityResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const cancelledRef = useRef(false);
+
+    // 策略或資料變更後，舊的分析結果不再適用
+    useEffect(() => {
+        setResult(null);
+        return () => { cancelledRef.current = true; };
+    }, [prices, config, tiers]);
+
+    // 級距被刪除時，改回第一個參數
+    useEffect(() => {
+        if (!findOption(xAxis.key)) setXAxis(defaultAxis(options[0], config, tiers, 11));
+        if (yAxis.key !== '' && !findOption(yAxis.key)) setYAxis({ ...yAxis, key: '' });
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [tiers]);
+
+    function selectAxis(key: string, steps: number): AxisInput {
+        const option = findOption(key);
+        return option ? defaultAxis(option, config, tiers, steps) : { key: '', min: 0, max: 0, steps };
+    }
+
+    async function handleRun() {
+        const xOption = findOption(xAxis.key);
+        const yOption = findOption(yAxis.key);
+        if (!xOption) return;
+
+        cancelledRef.current = false;
+        setIsRunning(true);
+        setProgress(0);
+        setError(null);
+        setResult(null);
+
+        const toAxis = (option: ParameterOption, input: AxisInput) => ({
+            parameter: option.parameter,
+            min: input.min / option.scale,
+            max: input.max / option.scale,
+            steps: input.steps
+        });
+
+        try {
+            const analysis = await runSensitivity(
+                prices,
+                config,
+                tiers,
+                { x: toAxis(xOption, xAxis), y: yOption ? toAxis(yOption, yAxis) : undefined },
+                (completed, total) => setProgress((completed / total) * 100),
+                { isCancelled: () => cancelledRef.current }
+            );
+            setResult(analysis);
+        } catch (err) {
+            if ((err as { code?: string }).code !== SENSITIVITY_CANCELLED) {
+                setError((err as { message?: string }).message || '分析失敗');
+            }
+        } finally {
+            setIsRunning(false);
+        }
+    }
+
+    // 顯示時以結果中的參數為準 (設定可能已在執行後變更)
+    const optionFor = (parameter: SensitivityParameter) =>
+        options.find(o => JSON.stringify(o.parameter) === JSON.stringify(parameter));
+    const xResultOption = result ? optionFor(result.x.parameter) : undefined;
+    const yResultOption = result?.y ? optionFor(result.y.parameter) : undefined;
+    const formatMetric = METRIC_FORMATS[metric];
+    const grid = result ? result.cells.map(row => row.map(cell => cell[metric])) : [];
+    const points = grid.flat();
+    const baselineX = result ? getParameterValue(result.x.parameter, config, tiers) : undefined;
+    const baselineY = result?.y ? getParameterValue(result.y.parameter, config, tiers) : undefined;
+
+    return (
+        <div className="card">
+            <div className="flex items-center gap-2 mb-4">
+                <Grid3x3 className="text-sky-400" size={20} />
+                <h3 className="text-lg font-bold text-slate-200">參數敏感度</h3>
+            </div>
+
+            {/* 設定 */}
+            <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700 space-y-3">
+                <AxisEditor
+                    label="X 軸"
+                    value={xAxis}
+                    options={options.filter(o => o.key !== yAxis.key)}
+                    onSelect={key => setXAxis(selectAxis(key, xAxis.steps))}
+                    onChange={setXAxis}
+                />
+                <AxisEditor
+                    label="Y 軸"
+                    value={yAxis}
+                    options={options.filter(o => o.key !== xAxis.key)}
+                    allowNone
+                    onSelect={key => setYAxis(selectAxis(key, yAxis.steps))}
+                    onChange={setYAxis}
+                />
+                <p className="text-xs text-slate-500">
+                    其餘設定與級距維持不變{(xAxis.key === 'dcaFrequency' || yAxis.key === 'dcaFrequency') && '；掃描定投頻率時以「每 N 天」排程取代目前排程'}
+                    ，共 {(xAxis.steps * (yAxis.key !== '' ? yAxis.steps : 1)).toLocaleString()} 次回測
+                </p>
+
+                {isRunning ? (
+                    <div className="space-y-2">
+                        <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                            <div className="h-full bg-sky-500 transition-all duration-300" style={{ width: `${progress}%` }} />
+                        </div>
+                        <button
+                            type="button"
+                            onClick={() => { cancelledRef.current = true; }}
+                            className="w-full py-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 text-xs rounded flex items-center justify-center gap-1"
+                        >
+                            <X size={14} />
+                            取消
+                        </button>
+                    </div>
+                ) : (
+                    <button
+                        type="button"
+                        onClick={handleRun}
+                        disabled={prices.length === 0}
+                        className="w-full py-1.5 bg-sky-500 hover:bg-sky-400 disabled:opacity-50 text-slate-900 text-xs font-bold rounded transition-colors"
+                    >
+                        開始分析
+                    </button>
+                )}
+                {error && <p className="text-xs text-red-400">{error}</p>}
+            </div>
+
+            {/* 結果 */}
+            {result && xResultOption && (
+                <div className="mt-4 space-y-3 fade-in">
+                    <div className="flex items-center justify-between text-xs">
+                        <select
+                            value={metric}
+                            onChange={e => setMetric(e.target.value as SensitivityMetric)}
+                            className="px-1 py-0.5 bg-slate-800 border border-slate-600 rounded"
+                        >
+                            {(Object.keys(SENSITIVITY_METRIC_LABELS) as SensitivityMetric[]).map(m => (
+                                <option key={m} value={m}>{SENSITIVITY_METRIC_LABELS[m]}</option>
+                            ))}
+                        </select>
+                        <span className="text-slate-400">
+                            目前設定 {formatMetric(result.baseline[metric])} · 範圍 {formatMetric(Math.min(...points))} ~ {formatMetric(Math.max(...points))}
+                        </span>
+                    </div>
+
+                    <div className="bg-slate-900/50 rounded-lg p-3 border border-slate-700">
+                        <p className="text-xs text-slate-400 mb-2">
+                            {result.y && yResultOption ? `${yResultOption.label} (縱軸) × ${xResultOption.label} (橫軸)` : xResultOption.label}
+                        </p>
+                        {result.y && yResultOption ? (
+                            <SensitivityHeatmap
+                                xValues={result.x.values}
+                                yValues={result.y.values}
+                                grid={grid}
+                                higherIsBetter={metric !== 'averagePrice'}
+                                baseline={baselineX !== undefined && baselineY !== undefined ? { x: baselineX, y: baselineY } : undefined}
+                                formatX={xResultOption.format}
+                                formatY={yResultOption.format}
+                                formatValue={formatMetric}
+                            />
+                        ) : (
+                            <SensitivityLineChart
+                                xValues={result.x.values}
+                                values={grid[0]}
+                                baselineX={baselineX}
+                                formatX={xResultOption.format}
+                                formatY={formatMetric}
+                            />
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
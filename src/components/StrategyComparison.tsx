@@ -1,6 +1,41 @@
 import { useState, useEffect } from 'react';
 import { Save, Trash2, FolderOpen, ArrowUpRight, TrendingDown } from 'lucide-react';
-import type { BacktestConfig, DrawdownTier, BacktestResult, SavedStrategy } from '../types';
+import type { BacktestConfig, DrawdownTier, BacktestResult, SavedStrategy, PerformanceMetrics } from '../types';
+import { describeSchedule, getSchedule } from '../utils/schedule';
+import { getProvider } from '../services/providers';
+
+// 排序依據
+type RankKey = 'created' | 'roi' | keyof PerformanceMetrics;
+
+const RANK_OPTIONS: { key: RankKey; label: string }[] = [
+    { key: 'created', label: '儲存順序' },
+    { key: 'roi', label: 'ROI' },
+    { key: 'xirr', label: 'XIRR' },
+    { key: 'annualizedTwr', label: '年化 TWR' },
+    { key: 'sharpe', label: 'Sharpe' },
+    { key: 'sortino', label: 'Sortino' },
+    { key: 'calmar', label: 'Calmar' },
+];
+
+/**
+ * 取得排序用的數值 (舊策略沒有績效指標時為 NaN)
+ */
+function getRankValue(result: { roi: number; metrics?: PerformanceMetrics | null }, key: RankKey): number {
+    if (key === 'created') return NaN;
+    if (key === 'roi') return result.roi;
+    const value = result.metrics?.[key];
+    return typeof value === 'number' ? value : NaN;
+}
+
+/**
+ * 格式化排序指標 (報酬類顯示百分比)
+ */
+function formatRankValue(value: number, key: RankKey): string {
+    if (!Number.isFinite(value)) return '-';
+    return key === 'sharpe' || key === 'sortino' || key === 'calmar'
+        ? value.toFixed(2)
+        : `${value.toFixed(2)}%`;
+}
 
 interface StrategyComparisonProps {
     currentConfig: BacktestConfig | null;
@@ -19,6 +54,7 @@ export default function StrategyComparison({
 }: StrategyComparisonProps) {
     const [strategies, setStrategies] = useState<SavedStrategy[]>([]);
     const [strategyName, setStrategyName] = useState('');
+    const [rankBy, setRankBy] = useState<RankKey>('created');
 
     // 初始載入
     useEffect(() => {
@@ -47,12 +83,17 @@ export default function StrategyComparison({
                 roi: currentResult.roi,
                 roiAtLastBuy: currentResult.roiAtLastBuy,
                 maxDrawdown: currentResult.maxDrawdown,
+                portfolioMaxDrawdown: currentResult.portfolioMaxDrawdown,
+                metrics: currentResult.metrics,
                 finalValue: currentResult.finalValue,
                 finalValueAtLastBuy: currentResult.finalValueAtLastBuy,
                 totalInvested: currentResult.totalInvested,
                 totalCoins: currentResult.totalCoins,
                 averagePrice: currentResult.averagePrice,
-                executionDuration: currentResult.executionDuration
+                realizedPnl: currentResult.realizedPnl,
+                totalFees: currentResult.totalFees,
+                executionDuration: currentResult.executionDuration,
+                dataSource: currentResult.dataSource
             }
         };
 
@@ -80,6 +121,18 @@ export default function StrategyComparison({
         window.scrollTo({ top: 0, behavior: 'smooth' });
     };
 
+    // 依選定指標排序 (由高到低，無資料者排最後)
+    const rankedStrategies = rankBy === 'created'
+        ? strategies
+        : [...strategies].sort((a, b) => {
+            const va = getRankValue(a.result, rankBy);
+            const vb = getRankValue(b.result, rankBy);
+            if (!Number.isFinite(va)) return 1;
+            if (!Number.isFinite(vb)) return -1;
+            return vb - va;
+        });
+    const rankLabel = RANK_OPTIONS.find(o => o.key === rankBy)?.label;
+
     return (
         <div className="card mt-8">
             <div className="flex items-center gap-2 mb-6">
@@ -110,6 +163,22 @@ export default function StrategyComparison({
                 </button>
             </div>
 
+            {/* 排序選擇 */}
+            {strategies.length > 1 && (
+                <div className="flex items-center justify-end gap-2 mb-3 text-sm">
+                    <span className="text-slate-400">排序依據</span>
+                    <select
+                        value={rankBy}
+                        onChange={e => setRankBy(e.target.value as RankKey)}
+                        className="px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm"
+                    >
+                        {RANK_OPTIONS.map(option => (
+                            <option key={option.key} value={option.key}>{option.label}</option>
+                        ))}
+                    </select>
+                </div>
+            )}
+
             {/* 列表區塊 */}
             {strategies.length === 0 ? (
                 <div className="text-center text-slate-500 py-8">
@@ -129,6 +198,9 @@ export default function StrategyComparison({
                                 <th className="px-4 py-3 text-right">最終價值</th>
                                 <th className="px-4 py-3 text-right">ROI</th>
                                 <th className="px-4 py-3 text-right">最大回撤</th>
+                                {rankBy !== 'created' && rankBy !== 'roi' && (
+                                    <th className="px-4 py-3 text-right">{rankLabel}</th>
+                                )}
                                 <th className="px-4 py-3 rounded-r-lg text-center">操作</th>
                             </tr>
                         </thead>
@@ -145,7 +217,7 @@ export default function StrategyComparison({
                                     <td className="px-4 py-4 text-slate-400">
                                         <div>{currentConfig?.coinId.toUpperCase()}</div>
                                         <div className="text-xs">
-                                            每 {currentConfig?.dcaFrequency} 天 ${currentConfig?.baseDcaAmount}
+                                            {currentConfig && describeSchedule(getSchedule(currentConfig))} ${currentConfig?.baseDcaAmount}
                                         </div>
                                         <div className="text-[10px] text-slate-500">
                                             (無加碼策略)
@@ -178,7 +250,7 @@ export default function StrategyComparison({
                                     <td className="px-4 py-4 text-right text-slate-200 font-bold">
                                         <div>${(standardResult.finalValueAtLastBuy ?? standardResult.finalValue).toLocaleString()}</div>
                                         <div className="text-[10px] text-slate-500 font-normal">
-                                            (現: ${standardResult.finalValue.toLocaleString()})
+                                            (結束日: ${standardResult.finalValue.toLocaleString()})
                                         </div>
                                     </td>
                                     <td className="px-4 py-4 text-right">
@@ -187,18 +259,26 @@ export default function StrategyComparison({
                                             {(standardResult.roiAtLastBuy ?? standardResult.roi).toFixed(2)}%
                                         </div>
                                         <div className="text-[10px] text-slate-500 mt-0.5">
-                                            (現: {standardResult.roi.toFixed(2)}%)
+                                            (結束日: {standardResult.roi.toFixed(2)}%)
                                         </div>
                                     </td>
                                     <td className="px-4 py-4 text-right text-orange-400">
                                         {standardResult.maxDrawdown.toFixed(2)}%
+                                        <div className="text-[10px] text-rose-400/80 mt-0.5">
+                                            (組合: {standardResult.portfolioMaxDrawdown.toFixed(2)}%)
+                                        </div>
                                     </td>
+                                    {rankBy !== 'created' && rankBy !== 'roi' && (
+                                        <td className="px-4 py-4 text-right text-sky-300 font-mono">
+                                            {formatRankValue(getRankValue(standardResult, rankBy), rankBy)}
+                                        </td>
+                                    )}
                                     <td className="px-4 py-4 text-center">
                                         <span className="text-xs text-slate-500">-</span>
                                     </td>
                                 </tr>
                             )}
-                            {strategies.map((s) => (
+                            {rankedStrategies.map((s) => (
                                 <tr key={s.id} className="hover:bg-slate-800/30 transition-colors">
                                     <td className="px-4 py-4 font-medium text-slate-200 cursor-help" title={s.tiers.map((t, i) => `第 ${i + 1} 階: 跌幅 ${Math.abs(Math.round(t.threshold * 100))}% → 買入 ${t.multiplier} 倍`).join('\n')}>
                                         {s.name}
@@ -207,10 +287,20 @@ export default function StrategyComparison({
                                         </div>
                                     </td>
                                     <td className="px-4 py-4 text-slate-400">
-                                        <div>{s.config.coinId.toUpperCase()}</div>
+                                        <div>
+                                            {s.config.coinId.toUpperCase()}
+                                            {s.result.dataSource && (
+                                                <span className="text-[10px] text-slate-500 ml-1">({getProvider(s.result.dataSource).name})</span>
+                                            )}
+                                        </div>
                                         <div className="text-xs">
-                                            每 {s.config.dcaFrequency} 天 ${s.config.baseDcaAmount}
+                                            {describeSchedule(getSchedule(s.config))} ${s.config.baseDcaAmount}
                                         </div>
+                                        {s.config.optimizerSeed !== undefined && (
+                                            <div className="text-[10px] text-amber-400/80 font-mono">
+                                                seed {s.config.optimizerSeed}
+                                            </div>
+                                        )}
                                     </td>
                                     <td className="px-4 py-4 text-right text-slate-300">
                                         ${s.result.totalInvested.toLocaleString()}
@@ -227,7 +317,7 @@ export default function StrategyComparison({
                                     <td className="px-4 py-4 text-right text-slate-200 font-bold">
                                         <div>${(s.result.finalValueAtLastBuy ?? s.result.finalValue).toLocaleString()}</div>
                                         <div className="text-[10px] text-slate-500 font-normal">
-                                            (現: ${s.result.finalValue.toLocaleString()})
+                                            (結束日: ${s.result.finalValue.toLocaleString()})
                                         </div>
                                     </td>
                                     <td className="px-4 py-4 text-right">
@@ -236,12 +326,22 @@ export default function StrategyComparison({
                                             {(s.result.roiAtLastBuy ?? s.result.roi).toFixed(2)}%
                                         </div>
                                         <div className="text-[10px] text-slate-500 mt-0.5">
-                                            (現: {s.result.roi.toFixed(2)}%)
+                                            (結束日: {s.result.roi.toFixed(2)}%)
                                         </div>
                                     </td>
                                     <td className="px-4 py-4 text-right text-orange-400">
                                         {s.result.maxDrawdown.toFixed(2)}%
+                                        {s.result.portfolioMaxDrawdown !== undefined && (
+                                            <div className="text-[10px] text-rose-400/80 mt-0.5">
+                                                (組合: {s.result.portfolioMaxDrawdown.toFixed(2)}%)
+                                            </div>
+                                        )}
                                     </td>
+                                    {rankBy !== 'created' && rankBy !== 'roi' && (
+                                        <td className="px-4 py-4 text-right text-sky-300 font-mono">
+                                            {formatRankValue(getRankValue(s.result, rankBy), rankBy)}
+                                        </td>
+                                    )}
                                     <td className="px-4 py-4 text-center">
                                         <div className="flex items-center justify-center gap-2">
                                             <button
@@ -0,0 +1,132 @@
+/* ===================================
+   合成價格產生元件
+   選擇隨機模型產生價格路徑，註冊為模擬資料來源的資產
+=================================== */
+
+import { useState } from 'react';
+import { Activity, AlertCircle, Dices } from 'lucide-react';
+import type { ApiError, CoinOption, PriceDataPoint } from '../types';
+import { generateSyntheticPrices, DEFAULT_SYNTHETIC_MODELS, SYNTHETIC_MODEL_LABELS } from '../utils/synthetic';
+import type { SyntheticModel } from '../utils/synthetic';
+import { randomSeed } from '../utils/random';
+import { registerMockAsset, MOCK_ASSET_PREFIX } from '../services/providers';
+import SyntheticModelEditor from './SyntheticModelEditor';
+
+interface SyntheticMarketGeneratorProps {
+    sourcePrices: PriceDataPoint[]; // 重抽樣使用目前載入的價格
+    sourceName: string;
+    onGenerated: (asset: CoinOption) => void;
+}
+
+export default function SyntheticMarketGenerator({ sourcePrices, sourceName, onGenerated }: SyntheticMarketGeneratorProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [model, setModel] = useState<SyntheticModel>(DEFAULT_SYNTHETIC_MODELS.regime);
+    const [years, setYears] = useState(8);
+    const [startPrice, setStartPrice] = useState(10000);
+    const [seed, setSeed] = useState(randomSeed);
+    const [error, setError] = useState<string | null>(null);
+
+    function handleGenerate() {
+        setError(null);
+        try {
+            const prices = generateSyntheticPrices(
+                model,
+                { days: Math.round(years * 365), startPrice, seed },
+                sourcePrices
+            );
+            const asset: CoinOption = {
+                id: `${MOCK_ASSET_PREFIX}synthetic-${model.type}-${seed}`,
+                symbol: 'SYN',
+                name: `${SYNTHETIC_MODEL_LABELS[model.type]} #${seed}`
+            };
+            registerMockAsset(asset, prices);
+            onGenerated(asset);
+        } catch (err) {
+            setError((err as ApiError).message || '無法產生合成價格');
+        }
+    }
+
+    return (
+        <div className="mt-2">
+            <button
+                type="button"
+                onClick={() => setIsOpen(!isOpen)}
+                className="flex items-center gap-1.5 text-xs text-slate-400 hover:text-slate-200 transition-colors"
+            >
+                <Activity size={14} />
+                產生合成價格 (壓力測試) {isOpen ? '▲' : '▼'}
+            </button>
+
+            {isOpen && (
+                <div className="mt-2 p-3 bg-slate-900/50 rounded-lg border border-slate-700 space-y-3">
+                    <SyntheticModelEditor value={model} onChange={setModel} />
+
+                    {model.type === 'bootstrap' && (
+                        <p className="text-xs text-slate-500">
+                            重抽樣來源：{sourceName} ({sourcePrices.length.toLocaleString()} 筆價格)
+                        </p>
+                    )}
+
+                    <div className="grid grid-cols-3 gap-2">
+                        <div>
+                            <label className="text-xs text-slate-400">年數</label>
+                            <input
+                                type="number"
+                                min={1}
+                                max={50}
+                                value={years}
+                                onChange={e => setYears(Number(e.target.value))}
+                                className="w-full px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm font-mono"
+                            />
+                        </div>
+                        <div>
+                            <label className="text-xs text-slate-400">起始價格</label>
+                            <input
+                                type="number"
+                                min={0}
+                                value={startPrice}
+                                onChange={e => setStartPrice(Number(e.target.value))}
+                                className="w-full px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm font-mono"
+                            />
+                        </div>
+                        <div>
+                            <label className="text-xs text-slate-400">種子</label>
+                            <div className="flex gap-1">
+                                <input
+                                    type="number"
+                                    value={seed}
+                                    onChange={e => setSeed(Number(e.target.value) >>> 0)}
+                                    className="w-full px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm font-mono"
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => setSeed(randomSeed())}
+                                    className="p-1 text-slate-400 hover:text-slate-200"
+                                    title="隨機種子"
+                                >
+                                    <Dices size={14} />
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+
+                    {error && (
+                        <p className="flex items-center gap-1 text-xs text-red-400">
+                            <AlertCircle size={12} />
+                            {error}
+                        </p>
+                    )}
+
+                    <button
+                        type="button"
+                        onClick={handleGenerate}
+                        className="w-full py-1.5 bg-sky-500 hover:bg-sky-400 text-slate-900 text-xs font-bold rounded transition-colors"
+                    >
+                        產生並選擇
+                    </button>
+                    <p className="text-xs text-slate-500">合成資產只保留在本次瀏覽，重新整理後需重新產生</p>
+                </div>
+            )}
+        </div>
+    );
+}
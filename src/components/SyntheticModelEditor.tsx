@@ -0,0 +1,91 @@
+/* ===================================
+   合成模型參數編輯元件
+   選擇價格模型並調整其參數 (合成價格與蒙地卡羅共用)
+=================================== */
+
+import { DEFAULT_SYNTHETIC_MODELS, SYNTHETIC_MODEL_LABELS } from '../utils/synthetic';
+import type { SyntheticModel, SyntheticModelType } from '../utils/synthetic';
+
+interface SyntheticModelEditorProps {
+    value: SyntheticModel;
+    onChange: (model: SyntheticModel) => void;
+}
+
+type ModelOf<T extends SyntheticModelType> = Extract<SyntheticModel, { type: T }>;
+
+interface ModelField<M> {
+    label: string;
+    percent?: boolean;        // 以 % 顯示與輸入
+    min?: number;             // 參數下限 (模型單位)
+    get: (model: M) => number;
+    set: (model: M, value: number) => M;
+}
+
+const JUMP_MEAN_MIN = -0.99;  // 單次跳躍最多下跌 99%
+
+/**
+ * 各模型可調整的參數
+ */
+const MODEL_FIELDS: { [T in SyntheticModelType]: ModelField<ModelOf<T>>[] } = {
+    gbm: [
+        { label: '年化報酬 (%)', percent: true, get: m => m.drift, set: (m, v) => ({ ...m, drift: v }) },
+        { label: '年化波動 (%)', percent: true, get: m => m.volatility, set: (m, v) => ({ ...m, volatility: v }) },
+    ],
+    regime: [
+        { label: '牛市報酬 (%)', percent: true, get: m => m.bull.drift, set: (m, v) => ({ ...m, bull: { ...m.bull, drift: v } }) },
+        { label: '牛市波動 (%)', percent: true, get: m => m.bull.volatility, set: (m, v) => ({ ...m, bull: { ...m.bull, volatility: v } }) },
+        { label: '牛市平均天數', get: m => m.bull.avgDays, set: (m, v) => ({ ...m, bull: { ...m.bull, avgDays: v } }) },
+        { label: '熊市報酬 (%)', percent: true, get: m => m.bear.drift, set: (m, v) => ({ ...m, bear: { ...m.bear, drift: v } }) },
+        { label: '熊市波動 (%)', percent: true, get: m => m.bear.volatility, set: (m, v) => ({ ...m, bear: { ...m.bear, volatility: v } }) },
+        { label: '熊市平均天數', get: m => m.bear.avgDays, set: (m, v) => ({ ...m, bear: { ...m.bear, avgDays: v } }) },
+    ],
+    jump: [
+        { label: '年化報酬 (%)', percent: true, get: m => m.drift, set: (m, v) => ({ ...m, drift: v }) },
+        { label: '年化波動 (%)', percent: true, get: m => m.volatility, set: (m, v) => ({ ...m, volatility: v }) },
+        { label: '每年跳躍次數', get: m => m.jumpsPerYear, set: (m, v) => ({ ...m, jumpsPerYear: v }) },
+        { label: '平均跳幅 (%)', percent: true, min: JUMP_MEAN_MIN, get: m => m.jumpMean, set: (m, v) => ({ ...m, jumpMean: v }) },
+        { label: '跳幅波動 (%)', percent: true, get: m => m.jumpVolatility, set: (m, v) => ({ ...m, jumpVolatility: v }) },
+    ],
+    bootstrap: [
+        { label: '區塊天數', get: m => m.blockDays, set: (m, v) => ({ ...m, blockDays: v }) },
+    ],
+};
+
+export default function SyntheticModelEditor({ value, onChange }: SyntheticModelEditorProps) {
+    const fields = MODEL_FIELDS[value.type] as ModelField<SyntheticModel>[];
+
+    return (
+        <>
+            <select
+                value={value.type}
+                onChange={e => onChange(DEFAULT_SYNTHETIC_MODELS[e.target.value as SyntheticModelType])}
+                className="input-field text-sm"
+            >
+                {(Object.keys(SYNTHETIC_MODEL_LABELS) as SyntheticModelType[]).map(type => (
+                    <option key={type} value={type}>{SYNTHETIC_MODEL_LABELS[type]}</option>
+                ))}
+            </select>
+
+            <div className="grid grid-cols-3 gap-2">
+                {fields.map(({ label, percent, min, get, set }) => (
+                    <div key={label}>
+                        <label className="text-xs text-slate-400">{label}</label>
+                        <input
+                            type="number"
+                            step={percent ? 1 : 10}
+                            min={min === undefined ? undefined : percent ? min * 100 : min}
+                            value={percent ? Number((get(value) * 100).toFixed(2)) : get(value)}
+                            onChange={e => {
+                                const fieldValue = Number(e.target.value);
+                                if (!isFinite(fieldValue)) return;
+                                const modelValue = percent ? fieldValue / 100 : fieldValue;
+                                onChange(set(value, min === undefined ? modelValue : Math.max(min, modelValue)));
+                            }}
+                            className="w-full px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm font-mono"
+                        />
+                    </div>
+                ))}
+            </div>
+        </>
+    );
+}
@@ -4,11 +4,15 @@
 =================================== */
 
 import { useState } from 'react';
-import { ChevronUp, ChevronDown, AlertCircle } from 'lucide-react';
-import type { TradeRecord } from '../types';
+import { ChevronUp, ChevronDown, AlertCircle, CalendarClock } from 'lucide-react';
+import type { DcaSchedule, DrawdownReference, TradeRecord } from '../types';
+import { describeSchedule } from '../utils/schedule';
+import { getReferenceShortLabel } from '../utils/drawdownReference';
 
 interface TradeLogProps {
     trades: TradeRecord[];
+    schedule?: DcaSchedule;   // 本次回測使用的排程
+    drawdownReference?: DrawdownReference; // 本次回測的跌幅參考點 (ath 欄位的意義)
 }
 
 // 排序欄位類型
@@ -36,7 +40,7 @@ function formatNumber(num: number, decimals = 2): string {
     });
 }
 
-export default function TradeLog({ trades }: TradeLogProps) {
+export default function TradeLog({ trades, schedule, drawdownReference }: TradeLogProps) {
     const [sortField, setSortField] = useState<SortField>('date');
     const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
 
@@ -118,7 +122,15 @@ export default function TradeLog({ trades }: TradeLogProps) {
 
     return (
         <div className="card">
-            <h2 className="text-xl font-bold text-gradient mb-6">交易紀錄</h2>
+            <div className="flex items-center justify-between mb-6">
+                <h2 className="text-xl font-bold text-gradient">交易紀錄</h2>
+                {schedule && (
+                    <span className="flex items-center gap-1.5 text-sm text-slate-400">
+                        <CalendarClock size={16} className="text-sky-400" />
+                        {describeSchedule(schedule)}
+                    </span>
+                )}
+            </div>
 
             {/* 表格容器 */}
             <div className="overflow-x-auto">
@@ -142,7 +154,7 @@ export default function TradeLog({ trades }: TradeLogProps) {
                                 className="py-3 px-4 text-right text-slate-400 font-medium cursor-pointer hover:text-slate-200"
                                 onClick={() => toggleSort('ath')}
                             >
-                                當前 ATH <SortIcon field="ath" />
+                                當前 {getReferenceShortLabel(drawdownReference)} <SortIcon field="ath" />
                             </th>
                             <th
                                 className="py-3 px-4 text-right text-slate-400 font-medium cursor-pointer hover:text-slate-200"
@@ -160,7 +172,7 @@ export default function TradeLog({ trades }: TradeLogProps) {
                                 className="py-3 px-4 text-right text-slate-400 font-medium cursor-pointer hover:text-slate-200"
                                 onClick={() => toggleSort('amount')}
                             >
-                                買入金額 <SortIcon field="amount" />
+                                金額 <SortIcon field="amount" />
                             </th>
                             <th className="py-3 px-4 text-right text-slate-400 font-medium">
                                 累計持倉
@@ -187,6 +199,11 @@ export default function TradeLog({ trades }: TradeLogProps) {
                                         )}
                                         {formatDate(trade.date)}
                                         {trade.insufficientFunds && <span className="text-xs text-red-400">(餘額不足)</span>}
+                                        {trade.scheduledDate && (
+                                            <span className="text-xs text-slate-500" title="原定排程日缺少價格資料，順延執行">
+                                                (原定 {formatDate(trade.scheduledDate)})
+                                            </span>
+                                        )}
                                     </div>
                                 </td>
 
@@ -195,7 +212,7 @@ export default function TradeLog({ trades }: TradeLogProps) {
                                     ${formatNumber(trade.price)}
                                 </td>
 
-                                {/* 當前 ATH */}
+                                {/* 當前參考價 (預設為 ATH) */}
                                 <td className="py-3 px-4 text-right text-amber-400 font-mono">
                                     ${formatNumber(trade.ath)}
                                 </td>
@@ -205,17 +222,44 @@ export default function TradeLog({ trades }: TradeLogProps) {
                                     {formatNumber(trade.drawdown * 100)}%
                                 </td>
 
-                                {/* 倍率 */}
+                                {/* 倍率 (賣出時顯示賣出比例) */}
                                 <td className="py-3 px-4 text-center">
-                                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${getMultiplierStyle(trade.multiplier)}`}>
-                                        {trade.multiplier}x
-                                    </span>
+                                    {trade.side === 'sell' ? (
+                                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-rose-500/30 text-rose-300">
+                                            賣 {formatNumber((trade.sellPercent || 0) * 100, 0)}%
+                                        </span>
+                                    ) : (
+                                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${getMultiplierStyle(trade.multiplier)}`}>
+                                            {trade.multiplier}x
+                                        </span>
+                                    )}
                                 </td>
 
-                                {/* 買入金額 */}
-                                <td className="py-3 px-4 text-right text-emerald-400 font-mono">
-                                    ${formatNumber(trade.amount)}
-                                </td>
+                                {/* 金額 (買入 / 賣出所得) */}
+                                {trade.side === 'sell' ? (
+                                    <td className="py-3 px-4 text-right text-rose-400 font-mono">
+                                        +${formatNumber(trade.amount)}
+                                        {trade.realizedPnl !== undefined && (
+                                            <div className={`text-[10px] ${trade.realizedPnl >= 0 ? 'text-emerald-400/70' : 'text-red-400/70'}`}>
+                                                損益 {trade.realizedPnl >= 0 ? '+' : '-'}${formatNumber(Math.abs(trade.realizedPnl))}
+                                            </div>
+                                        )}
+                                        {trade.fee > 0 && (
+                                            <div className="text-[10px] text-slate-500">
+                                                成本 ${formatNumber(trade.fee)}
+                                            </div>
+                                        )}
+                                    </td>
+                                ) : (
+                                    <td className="py-3 px-4 text-right text-emerald-400 font-mono">
+                                        ${formatNumber(trade.amount)}
+                                        {trade.fee > 0 && (
+                                            <div className="text-[10px] text-slate-500">
+                                                成本 ${formatNumber(trade.fee)}
+                                            </div>
+                                        )}
+                                    </td>
+                                )}
 
                                 {/* 累計持倉 */}
                                 <td className="py-3 px-4 text-right text-sky-400 font-mono">
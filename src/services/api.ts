@@ -1,164 +1,162 @@
 /* ===================================
-   CoinGecko API 服務
-   負責取得歷史價格資料
+   價格資料服務
+   依來源優先順序取得幣種列表、歷史價格 (搭配本機快取) 與即時價格
 =================================== */
 
-import type { PriceDataPoint, CoinOption } from '../types';
+import type { CoinOption, PriceHistory } from '../types';
+import { getCachedPrices, putCachedPrices, listCachedCoinIds, mergePriceTail } from './priceCache';
+import type { CachedPriceHistory } from './priceCache';
+import { getOrderedProviders, mergeAssetLists, rememberAssets, resolveAsset, FALLBACK_ASSETS } from './providers';
+import type { PriceProvider, SpotQuote } from './providers';
+import { isAbortError } from './httpClient';
 
-// API 基礎 URL
-const CG_BASE_URL = 'https://api.coingecko.com/api/v3';
-const CC_BASE_URL = 'https://min-api.cryptocompare.com/data/v2';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CACHE_TTL_MS = 60 * 60 * 1000; // 一小時內更新過的快取直接使用
 
-// 幣種 ID 映射 (CoinGecko ID -> CryptoCompare Symbol)
-const COIN_MAP: Record<string, string> = {
-    'bitcoin': 'BTC',
-    'ethereum': 'ETH',
-    'binancecoin': 'BNB',
-    'solana': 'SOL',
-    'ripple': 'XRP',
-    'cardano': 'ADA',
-    'dogecoin': 'DOGE',
-    'polkadot': 'DOT',
-    'avalanche-2': 'AVAX',
-    'chainlink': 'LINK',
-    'matic-network': 'MATIC',
-    'shiba-inu': 'SHIB',
-    'litecoin': 'LTC',
-    'uniswap': 'UNI'
-};
-
-
-
-/**
- * 從 CryptoCompare 取得歷史價格 (支援長天數)
- */
 /**
- * 從 CryptoCompare 取得完整歷史價格
+ * 取得可提供此資產的來源 (依優先順序)
  */
-async function fetchFromCryptoCompare(symbol: string): Promise<PriceDataPoint[]> {
-    // 使用 allData=true 取得該幣種所有歷史數據
-    const url = `${CC_BASE_URL}/histoday?fsym=${symbol}&tsym=USD&allData=true`;
-    const response = await fetch(url);
-    const result = await response.json();
-
-    if (result.Response === 'Error') {
-        throw { code: 'CC_ERROR', message: result.Message };
+function getProviderChain(coinId: string): { asset: CoinOption; chain: PriceProvider[] } {
+    const asset = resolveAsset(coinId);
+    const chain = getOrderedProviders().filter(p => p.supports(asset));
+    if (chain.length === 0) {
+        throw { code: 'NO_PROVIDER', message: '沒有可提供此資產的資料來源' };
     }
-
-    const data = result.Data.Data;
-    if (!data || data.length === 0) return [];
-
-    // 轉換格式
-    return data.map((d: any) => ({
-        timestamp: d.time * 1000,
-        price: d.close
-    }));
+    return { asset, chain };
 }
 
 /**
  * 取得熱門幣種列表 (用於下拉選單)
+ * 合併所有來源的列表；線上來源都失敗時使用預設列表 + 已快取的幣種
  */
-export async function fetchCoinList(): Promise<CoinOption[]> {
-    try {
-        const url = `${CG_BASE_URL}/coins/markets?vs_currency=usd&order=market_cap_desc&per_page=50&page=1`;
-        const response = await fetch(url);
-        if (!response.ok) throw new Error('API Error');
-        const data = await response.json();
-
-        return data.map((coin: { id: string; symbol: string; name: string }) => ({
-            id: coin.id,
-            symbol: coin.symbol.toUpperCase(),
-            name: coin.name
-        }));
-    } catch (e) {
-        console.error('CoinGecko list failed, using fallback list');
-        // 預設列表
-        return [
-            { id: 'bitcoin', symbol: 'BTC', name: 'Bitcoin' },
-            { id: 'ethereum', symbol: 'ETH', name: 'Ethereum' },
-            { id: 'binancecoin', symbol: 'BNB', name: 'BNB' },
-            { id: 'solana', symbol: 'SOL', name: 'Solana' },
-        ];
+export async function fetchCoinList(signal?: AbortSignal): Promise<CoinOption[]> {
+    const providers = getOrderedProviders();
+    const results = await Promise.all(providers.map(async provider => {
+        try {
+            return { provider, assets: await provider.listAssets(signal) };
+        } catch (e) {
+            if (isAbortError(e)) throw e;
+            console.warn(`${provider.name} list failed`, e);
+            return null;
+        }
+    }));
+    const lists = results.filter((r): r is { provider: PriceProvider; assets: CoinOption[] } => r !== null);
+
+    const hasMarketList = lists.some(l => l.provider.kind === 'market' && l.assets.length > 0);
+    if (!hasMarketList) {
+        console.error('Market asset lists failed, using fallback list');
+        // 預設列表 + 已快取的幣種 (離線時仍可選擇)
+        const fallback = [...FALLBACK_ASSETS];
+        const cachedIds = await listCachedCoinIds();
+        cachedIds
+            .filter(id => !fallback.some(c => c.id === id))
+            .forEach(id => fallback.push(resolveAsset(id)));
+        lists.unshift({ provider: providers.find(p => p.kind === 'market')!, assets: fallback });
     }
+
+    const assets = mergeAssetLists(lists);
+    rememberAssets(assets);
+    return assets;
+}
+
+function toPriceHistory(record: CachedPriceHistory, fromCache: boolean, offline: boolean): PriceHistory {
+    return {
+        prices: record.prices,
+        source: record.source,
+        updatedAt: new Date(record.updatedAt),
+        fromCache,
+        offline
+    };
 }
 
 /**
  * 取得歷史價格資料
- * 即使指定了 from/to，為了計算 ATH，我們傾向抓取完整歷史數據
+ * 為了計算 ATH，一律使用完整歷史
+ *
+ * 邏輯說明：
+ * 1. 本機來源 (匯入檔案、模擬資料) -> 直接讀取
+ * 2. 最優先來源的快取在 CACHE_TTL_MS 內更新過 -> 直接使用 (forceRefresh 時略過)
+ * 3. 依優先順序嘗試線上來源：有該來源快取時只抓尾段並合併，否則抓全量
+ * 4. 所有來源都失敗但有快取 -> 以離線模式回傳快取
+ * 5. 取消 (signal) 時直接拋出 ABORTED，不嘗試其他來源
  */
 export async function fetchPriceHistory(
     coinId: string,
-    _from?: number, // 保留參數介面，但內部抓全量
-    _to?: number
-): Promise<PriceDataPoint[]> {
-    // 1. 嘗試 CryptoCompare (優先支援長歷史)
-    const symbol = COIN_MAP[coinId];
-    if (symbol) {
-        try {
-            console.log(`Fetching full history from CryptoCompare: ${symbol}`);
-            return await fetchFromCryptoCompare(symbol);
-        } catch (e) {
-            console.warn('CryptoCompare failed, falling back to CoinGecko', e);
-        }
+    options: { forceRefresh?: boolean; signal?: AbortSignal } = {}
+): Promise<PriceHistory> {
+    const { asset, chain } = getProviderChain(coinId);
+
+    // 1. 本機來源
+    const localProvider = chain.find(p => p.kind === 'local');
+    if (localProvider) {
+        const prices = await localProvider.fetchHistory(asset, undefined, options.signal);
+        return { prices, source: localProvider.id, updatedAt: new Date(), fromCache: false, offline: false };
     }
 
-    // 2. 回退 CoinGecko (使用 days=max 抓全量)
-    // 注意: CoinGecko days=max 資料粒度會自動調整 (每日/每四日)，適合長歷史
-    const url = `${CG_BASE_URL}/coins/${coinId}/market_chart?vs_currency=usd&days=max&interval=daily`;
-
-    try {
-        const response = await fetch(url);
-
-        if (response.status === 429) {
-            throw { code: 'RATE_LIMIT', message: 'API 請求過於頻繁，請稍後再試' };
-        }
+    // 2. 讀取快取 (依所有線上來源的優先順序，離線時代號可能未知)
+    let cached: CachedPriceHistory | null = null;
+    for (const provider of getOrderedProviders().filter(p => p.kind === 'market')) {
+        cached = await getCachedPrices(coinId, provider.id);
+        if (cached) break;
+    }
 
-        if (!response.ok) {
-            throw { code: `HTTP_${response.status}`, message: 'API 請求失敗' };
-        }
+    // 只有最優先來源的快取才直接使用，調整優先順序後會改抓新的首選來源
+    const isPreferred = cached?.source === chain[0].id;
+    if (cached && isPreferred && !options.forceRefresh && Date.now() - cached.updatedAt < CACHE_TTL_MS) {
+        return toPriceHistory(cached, true, false);
+    }
 
-        const data = await response.json();
+    // 3. 自網路更新
+    let lastError: any = null;
+    for (const provider of chain) {
+        const base = cached?.source === provider.id ? cached : null;
+        const days = base
+            ? Math.ceil((Date.now() - base.prices[base.prices.length - 1].timestamp) / DAY_MS) + 1
+            : undefined;
 
-        if (!data.prices || data.prices.length === 0) {
-            throw { code: 'NO_DATA', message: '無價格資料' };
+        try {
+            console.log(`Fetching ${days ? `last ${days} days` : 'full history'} from ${provider.name}: ${coinId}`);
+            const fetched = await provider.fetchHistory(asset, days, options.signal);
+            const prices = base ? mergePriceTail(base.prices, fetched) : fetched;
+            if (prices.length === 0) {
+                return { prices, source: provider.id, updatedAt: new Date(), fromCache: false, offline: false };
+            }
+
+            const record = await putCachedPrices(coinId, provider.id, prices);
+            return toPriceHistory(record, false, false);
+        } catch (e) {
+            if (isAbortError(e)) throw e;
+            console.warn(`${provider.name} failed`, e);
+            lastError = e;
         }
+    }
 
-        return data.prices.map(([timestamp, price]: [number, number]) => ({
-            timestamp,
-            price
-        }));
-    } catch (err: any) {
-        if (err.code) throw err;
-        throw { code: 'UNKNOWN', message: '無法取得價格資料' };
+    // 4. 離線：使用既有快取
+    if (cached) {
+        return toPriceHistory(cached, true, true);
     }
+
+    if (lastError?.code) throw lastError;
+    throw { code: 'UNKNOWN', message: '無法取得價格資料' };
 }
 
 /**
  * 取得實時價格與 ATH (用於實時計算機)
  */
-export async function fetchRealTimeData(coinId: string): Promise<{ currentPrice: number, ath: number }> {
-    try {
-        const url = `${CG_BASE_URL}/coins/markets?vs_currency=usd&ids=${coinId}`;
-        const response = await fetch(url);
-
-        if (!response.ok) {
-            throw new Error('API Request Failed');
-        }
+export async function fetchRealTimeData(coinId: string, signal?: AbortSignal): Promise<SpotQuote> {
+    const { asset, chain } = getProviderChain(coinId);
 
-        const data = await response.json();
-        if (!data || data.length === 0) {
-            throw new Error('No Data Found');
+    let lastError: unknown = null;
+    for (const provider of chain) {
+        try {
+            return await provider.fetchSpot(asset, signal);
+        } catch (e) {
+            if (isAbortError(e)) throw e;
+            console.warn(`${provider.name} spot failed`, e);
+            lastError = e;
         }
-
-        const coinData = data[0];
-        // CoinGecko API 回傳的 ath 是該幣種的歷史最高價
-        // 我們直接使用它，這樣最準確
-        return {
-            currentPrice: coinData.current_price,
-            ath: coinData.ath
-        };
-    } catch (e) {
-        console.error('Fetch Real-time Data Failed', e);
-        throw e;
     }
+
+    console.error('Fetch Real-time Data Failed', lastError);
+    throw lastError;
 }
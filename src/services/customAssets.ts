@@ -0,0 +1,63 @@
+/* ===================================
+   自訂資產
+   匯入的價格資料以 'file' 來源存於價格快取
+=================================== */
+
+import type { CoinOption, PriceDataPoint } from '../types';
+import { getCachedPrices, writeCachedPrices, deleteCachedPrices, listCachedRecords } from './priceCache';
+
+export const CUSTOM_ASSET_PREFIX = 'custom:';
+
+/**
+ * 是否為自訂資產 ID
+ */
+export function isCustomAsset(coinId: string): boolean {
+    return coinId.startsWith(CUSTOM_ASSET_PREFIX);
+}
+
+/**
+ * 由名稱產生資產 ID (例如 "My Index" -> custom:my-index)
+ */
+function toAssetId(name: string): string {
+    const slug = name.trim().toLowerCase().replace(/[^a-z0-9一-鿿]+/g, '-').replace(/^-|-$/g, '');
+    return `${CUSTOM_ASSET_PREFIX}${slug || Date.now()}`;
+}
+
+/**
+ * 儲存匯入的價格資料 (同名資產會被覆蓋)
+ * 寫入失敗時拋出 { code, message }，由匯入介面顯示
+ */
+export async function saveCustomAsset(name: string, symbol: string, prices: PriceDataPoint[]): Promise<CoinOption> {
+    const asset: CoinOption = { id: toAssetId(name), symbol: symbol.trim().toUpperCase() || 'CUSTOM', name: name.trim() };
+    await writeCachedPrices(asset.id, 'file', prices, { name: asset.name, symbol: asset.symbol });
+    return asset;
+}
+
+/**
+ * 列出所有自訂資產
+ */
+export async function listCustomAssets(): Promise<CoinOption[]> {
+    const records = await listCachedRecords();
+    return records
+        .filter(r => r.source === 'file')
+        .map(r => ({ id: r.coinId, symbol: r.symbol || 'CUSTOM', name: r.name || r.coinId.slice(CUSTOM_ASSET_PREFIX.length) }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * 讀取自訂資產價格
+ */
+export async function getCustomAssetPrices(coinId: string) {
+    const record = await getCachedPrices(coinId, 'file');
+    if (!record) {
+        throw { code: 'NO_DATA', message: '找不到此自訂資產的價格資料，請重新匯入' };
+    }
+    return record;
+}
+
+/**
+ * 刪除自訂資產
+ */
+export async function deleteCustomAsset(coinId: string): Promise<void> {
+    await deleteCachedPrices(coinId, 'file');
+}
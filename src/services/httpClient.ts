@@ -0,0 +1,240 @@
+/* ===================================
+   HTTP 請求層
+   依主機節流 (Token Bucket)、退避重試、請求去重、逾時與取消
+=================================== */
+
+/**
+ * 單一請求選項
+ */
+export interface RequestOptions {
+    signal?: AbortSignal;     // 呼叫端取消 (例如切換幣種)
+    timeoutMs?: number;       // 單次嘗試逾時 (預設 20 秒)
+    retries?: number;         // 429 / 5xx / 網路錯誤的重試次數 (預設 3)
+}
+
+/**
+ * 主機的節流設定
+ */
+interface RateLimit {
+    capacity: number;         // 可瞬間發出的請求數
+    refillPerSecond: number;  // 每秒補充的請求數
+}
+
+interface Bucket extends RateLimit {
+    tokens: number;
+    updatedAt: number;
+}
+
+export const REQUEST_ABORTED = 'ABORTED';
+
+const DEFAULT_TIMEOUT_MS = 20000;
+const DEFAULT_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+// 免費方案的大致限制 (CoinGecko 約每分鐘 30 次)
+const RATE_LIMITS: Record<string, RateLimit> = {
+    'api.coingecko.com': { capacity: 5, refillPerSecond: 0.5 },
+    'min-api.cryptocompare.com': { capacity: 10, refillPerSecond: 5 },
+};
+const DEFAULT_RATE_LIMIT: RateLimit = { capacity: 5, refillPerSecond: 2 };
+
+const buckets = new Map<string, Bucket>();
+
+/**
+ * 進行中的請求 (相同 URL 共用同一個請求)
+ */
+interface InFlight {
+    promise: Promise<unknown>;
+    controller: AbortController;
+    subscribers: number;
+}
+
+const inFlight = new Map<string, InFlight>();
+
+function abortedError() {
+    return { code: REQUEST_ABORTED, message: '請求已取消' };
+}
+
+export function isAbortError(err: unknown): boolean {
+    return (err as { code?: string } | null)?.code === REQUEST_ABORTED;
+}
+
+/**
+ * 可被取消的等待
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(abortedError());
+            return;
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortedError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * 取得主機的請求額度，不足時等待補充
+ */
+async function acquireToken(host: string, signal?: AbortSignal): Promise<void> {
+    let bucket = buckets.get(host);
+    if (!bucket) {
+        const limit = RATE_LIMITS[host] ?? DEFAULT_RATE_LIMIT;
+        bucket = { ...limit, tokens: limit.capacity, updatedAt: Date.now() };
+        buckets.set(host, bucket);
+    }
+
+    for (;;) {
+        const now = Date.now();
+        bucket.tokens = Math.min(bucket.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * bucket.refillPerSecond);
+        bucket.updatedAt = now;
+
+        if (bucket.tokens >= 1) {
+            bucket.tokens -= 1;
+            return;
+        }
+        await sleep(((1 - bucket.tokens) / bucket.refillPerSecond) * 1000, signal);
+    }
+}
+
+/**
+ * 解析 Retry-After (秒數或 HTTP 日期)
+ */
+function parseRetryAfter(header: string | null): number | null {
+    if (!header) return null;
+    const seconds = Number(header);
+    if (isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function backoffDelay(attempt: number): number {
+    const exponential = BASE_BACKOFF_MS * Math.pow(2, attempt);
+    return Math.min(MAX_BACKOFF_MS, exponential * (0.75 + Math.random() * 0.5)); // ±25% 抖動
+}
+
+/**
+ * 實際發出請求 (含節流、逾時與重試)
+ */
+async function executeRequest(url: string, signal: AbortSignal, timeoutMs: number, retries: number): Promise<unknown> {
+    const host = new URL(url).host;
+
+    for (let attempt = 0; ; attempt++) {
+        await acquireToken(host, signal);
+
+        // 單次嘗試的逾時
+        const attemptController = new AbortController();
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            attemptController.abort();
+        }, timeoutMs);
+        const onAbort = () => attemptController.abort();
+        signal.addEventListener('abort', onAbort, { once: true });
+
+        let retryDelay: number | null = null;
+        let error: { code: string; message: string };
+
+        try {
+            const response = await fetch(url, { signal: attemptController.signal });
+
+            if (response.ok) {
+                return await response.json();
+            }
+
+            if (response.status === 429) {
+                error = { code: 'RATE_LIMIT', message: 'API 請求過於頻繁，請稍後再試' };
+                retryDelay = parseRetryAfter(response.headers.get('Retry-After')) ?? backoffDelay(attempt);
+            } else {
+                error = { code: `HTTP_${response.status}`, message: 'API 請求失敗' };
+                if (response.status >= 500) retryDelay = backoffDelay(attempt);
+            }
+        } catch (err) {
+            if (signal.aborted) throw abortedError();
+            error = timedOut
+                ? { code: 'TIMEOUT', message: '請求逾時，請稍後再試' }
+                : { code: 'NETWORK', message: '無法連線，請檢查網路' };
+            retryDelay = backoffDelay(attempt);
+            if (!timedOut) console.warn('Request failed:', url, err);
+        } finally {
+            clearTimeout(timer);
+            signal.removeEventListener('abort', onAbort);
+        }
+
+        if (retryDelay === null || attempt >= retries) {
+            throw error;
+        }
+        console.warn(`${error.code} on ${host}, retrying in ${Math.round(retryDelay)}ms`);
+        await sleep(retryDelay, signal);
+    }
+}
+
+/**
+ * 取得 JSON
+ *
+ * 邏輯說明：
+ * 1. 相同 URL 的進行中請求共用同一個結果
+ * 2. 每個呼叫端可各自取消；所有呼叫端都取消後才中斷實際請求
+ * 3. 失敗時拋出 { code, message }，取消時 code 為 ABORTED
+ */
+export function getJson<T = any>(url: string, options: RequestOptions = {}): Promise<T> {
+    const { signal } = options;
+    if (signal?.aborted) return Promise.reject(abortedError());
+
+    let entry = inFlight.get(url);
+    if (!entry) {
+        const controller = new AbortController();
+        const promise = executeRequest(url, controller.signal, options.timeoutMs ?? DEFAULT_TIMEOUT_MS, options.retries ?? DEFAULT_RETRIES);
+        const created: InFlight = { promise, controller, subscribers: 0 };
+        // 只移除自己的紀錄：被取消後同 URL 可能已有新的請求
+        const forget = () => {
+            if (inFlight.get(url) === created) inFlight.delete(url);
+        };
+        promise.then(forget, forget);
+        inFlight.set(url, created);
+        entry = created;
+    }
+
+    const shared = entry;
+    shared.subscribers++;
+
+    return new Promise<T>((resolve, reject) => {
+        let settled = false;
+        const release = () => {
+            settled = true;
+            shared.subscribers--;
+            signal?.removeEventListener('abort', onAbort);
+        };
+        const onAbort = () => {
+            if (settled) return;
+            release();
+            if (shared.subscribers === 0) {
+                shared.controller.abort();
+                if (inFlight.get(url) === shared) inFlight.delete(url);
+            }
+            reject(abortedError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        shared.promise.then(
+            value => {
+                if (settled) return;
+                release();
+                resolve(value as T);
+            },
+            err => {
+                if (settled) return;
+                release();
+                reject(err);
+            }
+        );
+    });
+}
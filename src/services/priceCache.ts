@@ -0,0 +1,161 @@
+/* ===================================
+   價格快取 (IndexedDB)
+   依幣種與資料來源保存歷史價格，跨工作階段保留
+=================================== */
+
+import type { PriceDataPoint, PriceSource } from '../types';
+
+const DB_NAME = 'dca-price-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'prices';
+
+/**
+ * 快取紀錄
+ */
+export interface CachedPriceHistory {
+    key: string;              // `${source}:${coinId}`
+    coinId: string;
+    source: PriceSource;
+    prices: PriceDataPoint[]; // 依時間排序
+    updatedAt: number;        // 最後一次成功更新的時間 (毫秒)
+    name?: string;            // 自訂資產名稱 (來源為 file 時)
+    symbol?: string;          // 自訂資產代號 (來源為 file 時)
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getCacheKey(coinId: string, source: PriceSource): string {
+    return `${source}:${coinId}`;
+}
+
+/**
+ * 開啟資料庫 (瀏覽器不支援 IndexedDB 時 reject)
+ */
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject({ code: 'CACHE_UNAVAILABLE', message: '瀏覽器不支援 IndexedDB' });
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(STORE_NAME)) {
+                    db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject({ code: 'CACHE_ERROR', message: request.error?.message || '無法開啟價格快取' });
+        });
+        // 開啟失敗時允許下次重試
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+}
+
+/**
+ * 執行單一請求並以 Promise 回傳結果
+ * 等交易完成才 resolve，空間不足等在提交時才發生的錯誤也會 reject
+ */
+async function runRequest<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(STORE_NAME, mode);
+        const request = action(transaction.objectStore(STORE_NAME));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onabort = () => reject({
+            code: 'CACHE_ERROR',
+            message: request.error?.message || transaction.error?.message || '價格快取操作失敗'
+        });
+    });
+}
+
+/**
+ * 讀取快取 (無快取或快取不可用時回傳 null)
+ */
+export async function getCachedPrices(coinId: string, source: PriceSource): Promise<CachedPriceHistory | null> {
+    try {
+        const record = await runRequest<CachedPriceHistory | undefined>('readonly', store => store.get(getCacheKey(coinId, source)));
+        return record && record.prices.length > 0 ? record : null;
+    } catch (e) {
+        console.warn('讀取價格快取失敗:', e);
+        return null;
+    }
+}
+
+function createRecord(
+    coinId: string,
+    source: PriceSource,
+    prices: PriceDataPoint[],
+    meta: Pick<CachedPriceHistory, 'name' | 'symbol'>
+): CachedPriceHistory {
+    return { key: getCacheKey(coinId, source), coinId, source, prices, updatedAt: Date.now(), ...meta };
+}
+
+/**
+ * 寫入快取 (失敗時拋出 { code, message })
+ */
+export async function writeCachedPrices(
+    coinId: string,
+    source: PriceSource,
+    prices: PriceDataPoint[],
+    meta: Pick<CachedPriceHistory, 'name' | 'symbol'> = {}
+): Promise<CachedPriceHistory> {
+    const record = createRecord(coinId, source, prices, meta);
+    await runRequest('readwrite', store => store.put(record));
+    return record;
+}
+
+/**
+ * 寫入快取 (失敗不影響主流程)
+ */
+export async function putCachedPrices(
+    coinId: string,
+    source: PriceSource,
+    prices: PriceDataPoint[],
+    meta: Pick<CachedPriceHistory, 'name' | 'symbol'> = {}
+): Promise<CachedPriceHistory> {
+    try {
+        return await writeCachedPrices(coinId, source, prices, meta);
+    } catch (e) {
+        console.warn('寫入價格快取失敗:', e);
+        return createRecord(coinId, source, prices, meta);
+    }
+}
+
+/**
+ * 刪除快取
+ */
+export async function deleteCachedPrices(coinId: string, source: PriceSource): Promise<void> {
+    await runRequest('readwrite', store => store.delete(getCacheKey(coinId, source)));
+}
+
+/**
+ * 列出所有快取紀錄
+ */
+export async function listCachedRecords(): Promise<CachedPriceHistory[]> {
+    try {
+        return await runRequest<CachedPriceHistory[]>('readonly', store => store.getAll());
+    } catch (e) {
+        console.warn('讀取價格快取失敗:', e);
+        return [];
+    }
+}
+
+/**
+ * 列出已快取的幣種 ID (不含自訂資產)
+ */
+export async function listCachedCoinIds(): Promise<string[]> {
+    const records = await listCachedRecords();
+    return Array.from(new Set(records.filter(r => r.source !== 'file').map(r => r.coinId)));
+}
+
+/**
+ * 合併新抓取的尾段資料：以新資料覆蓋重疊的日期 (當日未收盤的價格會被更新)
+ */
+export function mergePriceTail(cached: PriceDataPoint[], tail: PriceDataPoint[]): PriceDataPoint[] {
+    if (tail.length === 0) return cached;
+    const firstNew = tail[0].timestamp;
+    return [...cached.filter(p => p.timestamp < firstNew), ...tail];
+}
@@ -0,0 +1,65 @@
+/* ===================================
+   CoinGecko 資料來源
+   以 CoinGecko ID 查詢，同時提供熱門幣種列表
+=================================== */
+
+import type { PriceDataPoint } from '../../types';
+import type { PriceProvider } from './provider';
+import { getJson } from '../httpClient';
+
+const CG_BASE_URL = 'https://api.coingecko.com/api/v3';
+
+/**
+ * 發出請求 (節流、重試與錯誤格式由 httpClient 處理)
+ */
+function request(path: string, signal?: AbortSignal): Promise<any> {
+    return getJson(`${CG_BASE_URL}${path}`, { signal });
+}
+
+export const coinGeckoProvider: PriceProvider = {
+    id: 'coingecko',
+    name: 'CoinGecko',
+    kind: 'market',
+
+    // 無命名空間前綴的 ID 即為 CoinGecko ID
+    supports: asset => !asset.id.includes(':'),
+
+    async listAssets(signal) {
+        const data = await request('/coins/markets?vs_currency=usd&order=market_cap_desc&per_page=50&page=1', signal);
+        return data.map((coin: { id: string; symbol: string; name: string }) => ({
+            id: coin.id,
+            symbol: coin.symbol.toUpperCase(),
+            name: coin.name
+        }));
+    },
+
+    /**
+     * 未指定 days 時使用 days=max 抓全量
+     * 注意: CoinGecko days=max 資料粒度會自動調整 (每日/每四日)，適合長歷史
+     */
+    async fetchHistory(asset, days, signal) {
+        const data = await request(`/coins/${asset.id}/market_chart?vs_currency=usd&days=${days ?? 'max'}&interval=daily`, signal);
+
+        if (!data.prices || data.prices.length === 0) {
+            throw { code: 'NO_DATA', message: '無價格資料' };
+        }
+
+        return data.prices.map(([timestamp, price]: [number, number]): PriceDataPoint => ({
+            timestamp,
+            price
+        }));
+    },
+
+    async fetchSpot(asset, signal) {
+        const data = await request(`/coins/markets?vs_currency=usd&ids=${asset.id}`, signal);
+        if (!data || data.length === 0) {
+            throw { code: 'NO_DATA', message: '無價格資料' };
+        }
+
+        // CoinGecko API 回傳的 ath 是該幣種的歷史最高價
+        return {
+            currentPrice: data[0].current_price,
+            ath: data[0].ath
+        };
+    },
+};
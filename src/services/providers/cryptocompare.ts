@@ -0,0 +1,89 @@
+/* ===================================
+   CryptoCompare 資料來源
+   以幣種代號 (symbol) 查詢，支援完整日線歷史
+=================================== */
+
+import type { CoinOption, PriceDataPoint } from '../../types';
+import type { PriceProvider } from './provider';
+import { getJson } from '../httpClient';
+import { getCachedPrices, putCachedPrices } from '../priceCache';
+
+const CC_BASE_URL = 'https://min-api.cryptocompare.com/data';
+const CC_MAX_LIMIT = 2000; // histoday 單次最多回傳天數
+const CC_ASSET_PREFIX = 'cryptocompare:';
+
+/**
+ * 發出請求並檢查 CryptoCompare 的錯誤格式
+ */
+async function request(path: string, signal?: AbortSignal): Promise<any> {
+    const result = await getJson(`${CC_BASE_URL}${path}`, { signal });
+    if (result.Response === 'Error') {
+        throw { code: 'CC_ERROR', message: result.Message };
+    }
+    return result;
+}
+
+/**
+ * 取得歷史價格
+ * 未指定 days 時取得完整歷史，否則只取最近 days 天
+ */
+async function fetchHistory(asset: CoinOption, days?: number, signal?: AbortSignal): Promise<PriceDataPoint[]> {
+    // 使用 allData=true 取得該幣種所有歷史數據
+    const range = days !== undefined && days <= CC_MAX_LIMIT ? `limit=${days}` : 'allData=true';
+    const result = await request(`/v2/histoday?fsym=${asset.symbol}&tsym=USD&${range}`, signal);
+
+    const data = result.Data.Data;
+    if (!data || data.length === 0) return [];
+
+    // 轉換格式
+    return data.map((d: any) => ({
+        timestamp: d.time * 1000,
+        price: d.close
+    }));
+}
+
+export const cryptoCompareProvider: PriceProvider = {
+    id: 'cryptocompare',
+    name: 'CryptoCompare',
+    kind: 'market',
+
+    // 以代號查詢：CoinGecko ID 或本來源列出的資產皆可
+    supports: asset => /^[A-Z0-9]+$/i.test(asset.symbol)
+        && (!asset.id.includes(':') || asset.id.startsWith(CC_ASSET_PREFIX)),
+
+    async listAssets(signal) {
+        const result = await request('/top/mktcapfull?limit=50&tsym=USD', signal);
+        return (result.Data || []).map((item: { CoinInfo: { Name: string; FullName: string } }) => ({
+            // CryptoCompare 沒有 CoinGecko 格式的 ID，以代號為 ID
+            id: `${CC_ASSET_PREFIX}${item.CoinInfo.Name.toLowerCase()}`,
+            symbol: item.CoinInfo.Name.toUpperCase(),
+            name: item.CoinInfo.FullName
+        }));
+    },
+
+    fetchHistory,
+
+    /**
+     * 即時價格取自 pricemultifull；此 API 不提供 ATH，
+     * 以已快取的日收盤歷史最高價為準 (無快取時抓一次完整歷史並寫入快取)
+     */
+    async fetchSpot(asset, signal) {
+        const symbol = asset.symbol.toUpperCase();
+        const result = await request(`/pricemultifull?fsyms=${symbol}&tsyms=USD`, signal);
+        const currentPrice = result.RAW?.[symbol]?.USD?.PRICE;
+        if (typeof currentPrice !== 'number' || currentPrice <= 0) {
+            throw { code: 'NO_DATA', message: '無價格資料' };
+        }
+
+        let history = (await getCachedPrices(asset.id, 'cryptocompare'))?.prices;
+        if (!history) {
+            history = await fetchHistory(asset, undefined, signal);
+            if (history.length > 0) await putCachedPrices(asset.id, 'cryptocompare', history);
+        }
+
+        return {
+            currentPrice,
+            ath: history.reduce((max, p) => Math.max(max, p.price), currentPrice)
+        };
+    },
+};
@@ -0,0 +1,26 @@
+/* ===================================
+   匯入檔案資料來源
+   提供使用者匯入的自訂資產
+=================================== */
+
+import type { PriceProvider } from './provider';
+import { spotFromPrices } from './provider';
+import { isCustomAsset, listCustomAssets, getCustomAssetPrices } from '../customAssets';
+
+export const fileProvider: PriceProvider = {
+    id: 'file',
+    name: '匯入檔案',
+    kind: 'local',
+
+    supports: asset => isCustomAsset(asset.id),
+
+    listAssets: listCustomAssets,
+
+    async fetchHistory(asset) {
+        return (await getCustomAssetPrices(asset.id)).prices;
+    },
+
+    async fetchSpot(asset) {
+        return spotFromPrices((await getCustomAssetPrices(asset.id)).prices);
+    },
+};
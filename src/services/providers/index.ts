@@ -0,0 +1,119 @@
+/* ===================================
+   資料來源註冊表
+   來源優先順序、資產目錄 (ID -> 代號) 與來源鏈
+=================================== */
+
+import type { CoinOption, PriceSource } from '../../types';
+import type { PriceProvider } from './provider';
+import { cryptoCompareProvider } from './cryptocompare';
+import { coinGeckoProvider } from './coingecko';
+import { fileProvider } from './file';
+import { mockProvider } from './mock';
+
+export type { PriceProvider, SpotQuote } from './provider';
+export { registerMockAsset, unregisterMockAsset, MOCK_ASSET_PREFIX } from './mock';
+
+const PRIORITY_STORAGE_KEY = 'dca_provider_priority';
+const DIRECTORY_STORAGE_KEY = 'dca_asset_directory';
+
+export const PROVIDERS: PriceProvider[] = [cryptoCompareProvider, coinGeckoProvider, fileProvider, mockProvider];
+
+// CryptoCompare 優先 (支援長歷史)，失敗時回退 CoinGecko
+export const DEFAULT_PROVIDER_PRIORITY: PriceSource[] = ['cryptocompare', 'coingecko', 'file', 'mock'];
+
+// API 無法連線時仍可選擇的預設幣種
+export const FALLBACK_ASSETS: CoinOption[] = [
+    { id: 'bitcoin', symbol: 'BTC', name: 'Bitcoin' },
+    { id: 'ethereum', symbol: 'ETH', name: 'Ethereum' },
+    { id: 'binancecoin', symbol: 'BNB', name: 'BNB' },
+    { id: 'solana', symbol: 'SOL', name: 'Solana' },
+];
+
+/**
+ * 取得使用者設定的來源優先順序 (補上新加入的來源)
+ */
+export function getProviderPriority(): PriceSource[] {
+    try {
+        const saved = JSON.parse(localStorage.getItem(PRIORITY_STORAGE_KEY) || '[]') as PriceSource[];
+        const valid = saved.filter(id => PROVIDERS.some(p => p.id === id));
+        return [...valid, ...DEFAULT_PROVIDER_PRIORITY.filter(id => !valid.includes(id))];
+    } catch {
+        return [...DEFAULT_PROVIDER_PRIORITY];
+    }
+}
+
+export function setProviderPriority(priority: PriceSource[]): void {
+    localStorage.setItem(PRIORITY_STORAGE_KEY, JSON.stringify(priority));
+}
+
+export function getProvider(id: PriceSource): PriceProvider {
+    return PROVIDERS.find(p => p.id === id)!;
+}
+
+/**
+ * 依優先順序排列的來源
+ */
+export function getOrderedProviders(): PriceProvider[] {
+    return getProviderPriority().map(getProvider);
+}
+
+// --- 資產目錄 ---
+// 記住各資產的代號，讓 CryptoCompare 等以代號查詢的來源能對應 CoinGecko ID
+
+function loadDirectory(): Map<string, CoinOption> {
+    const directory = new Map(FALLBACK_ASSETS.map(a => [a.id, a]));
+    try {
+        const saved = JSON.parse(localStorage.getItem(DIRECTORY_STORAGE_KEY) || '[]') as CoinOption[];
+        saved.forEach(a => directory.set(a.id, a));
+    } catch {
+        // 忽略損壞的目錄
+    }
+    return directory;
+}
+
+const assetDirectory = loadDirectory();
+
+/**
+ * 記錄資產 (只持久化線上來源的資產，本機資產由各自來源管理)
+ */
+export function rememberAssets(assets: CoinOption[]): void {
+    assets.forEach(a => assetDirectory.set(a.id, a));
+    try {
+        const marketAssets = Array.from(assetDirectory.values()).filter(a => !a.id.includes(':') || a.id.startsWith('cryptocompare:'));
+        localStorage.setItem(DIRECTORY_STORAGE_KEY, JSON.stringify(marketAssets));
+    } catch (e) {
+        console.warn('無法儲存資產目錄:', e);
+    }
+}
+
+/**
+ * 由 ID 查詢資產 (未知資產的代號留空，僅能由以 ID 查詢的來源提供)
+ */
+export function resolveAsset(coinId: string): CoinOption {
+    return assetDirectory.get(coinId) ?? { id: coinId, symbol: '', name: coinId };
+}
+
+/**
+ * 合併各來源的資產列表
+ * 線上來源依代號去重，保留 CoinGecko 格式的 ID (所有線上來源都能使用)
+ */
+export function mergeAssetLists(lists: { provider: PriceProvider; assets: CoinOption[] }[]): CoinOption[] {
+    const market = new Map<string, CoinOption>();
+    const local: CoinOption[] = [];
+
+    lists.forEach(({ provider, assets }) => {
+        assets.forEach(asset => {
+            if (provider.kind === 'local') {
+                local.push(asset);
+                return;
+            }
+            const key = asset.symbol.toUpperCase();
+            const existing = market.get(key);
+            if (!existing || (existing.id.includes(':') && !asset.id.includes(':'))) {
+                market.set(key, asset);
+            }
+        });
+    });
+
+    return [...market.values(), ...local];
+}
@@ -0,0 +1,57 @@
+/* ===================================
+   模擬資料來源
+   記憶體內的價格序列 (測試、展示與合成資料用)
+=================================== */
+
+import type { CoinOption, PriceDataPoint } from '../../types';
+import type { PriceProvider } from './provider';
+import { spotFromPrices } from './provider';
+
+export const MOCK_ASSET_PREFIX = 'mock:';
+
+const mockAssets = new Map<string, { asset: CoinOption; prices: PriceDataPoint[] }>();
+
+/**
+ * 註冊模擬資產 (同 ID 會被覆蓋)
+ */
+export function registerMockAsset(asset: CoinOption, prices: PriceDataPoint[]): void {
+    if (!asset.id.startsWith(MOCK_ASSET_PREFIX)) {
+        throw { code: 'INVALID_ASSET', message: `模擬資產 ID 必須以 ${MOCK_ASSET_PREFIX} 開頭` };
+    }
+    mockAssets.set(asset.id, { asset, prices });
+}
+
+/**
+ * 移除模擬資產
+ */
+export function unregisterMockAsset(coinId: string): void {
+    mockAssets.delete(coinId);
+}
+
+function getPrices(coinId: string): PriceDataPoint[] {
+    const entry = mockAssets.get(coinId);
+    if (!entry) {
+        throw { code: 'NO_DATA', message: '找不到此模擬資產' };
+    }
+    return entry.prices;
+}
+
+export const mockProvider: PriceProvider = {
+    id: 'mock',
+    name: '模擬資料',
+    kind: 'local',
+
+    supports: asset => mockAssets.has(asset.id),
+
+    async listAssets() {
+        return Array.from(mockAssets.values()).map(e => e.asset);
+    },
+
+    async fetchHistory(asset) {
+        return getPrices(asset.id);
+    },
+
+    async fetchSpot(asset) {
+        return spotFromPrices(getPrices(asset.id));
+    },
+};
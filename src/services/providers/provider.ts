@@ -0,0 +1,47 @@
+/* ===================================
+   價格資料來源介面
+   各資料來源 (交易所 API、匯入檔案、模擬資料) 的共同介面
+=================================== */
+
+import type { CoinOption, PriceDataPoint, PriceSource } from '../../types';
+
+/**
+ * 即時價格與歷史最高價
+ */
+export interface SpotQuote {
+    currentPrice: number;
+    ath: number;
+}
+
+/**
+ * 價格資料來源
+ *
+ * - market: 線上 API，資料會寫入本機快取並支援只抓尾段
+ * - local: 本機資料 (匯入檔案、模擬資料)，不經過快取
+ */
+export interface PriceProvider {
+    id: PriceSource;
+    name: string;
+    kind: 'market' | 'local';
+    /** 是否能提供此資產的資料 */
+    supports: (asset: CoinOption) => boolean;
+    /** 可選擇的資產列表 */
+    listAssets: (signal?: AbortSignal) => Promise<CoinOption[]>;
+    /** 歷史日收盤價；指定 days 時只取最近 days 天 */
+    fetchHistory: (asset: CoinOption, days?: number, signal?: AbortSignal) => Promise<PriceDataPoint[]>;
+    /** 即時價格與 ATH */
+    fetchSpot: (asset: CoinOption, signal?: AbortSignal) => Promise<SpotQuote>;
+}
+
+/**
+ * 由價格序列計算最新價與最高價 (本機資料來源共用)
+ */
+export function spotFromPrices(prices: PriceDataPoint[]): SpotQuote {
+    if (prices.length === 0) {
+        throw { code: 'NO_DATA', message: '無價格資料' };
+    }
+    return {
+        currentPrice: prices[prices.length - 1].price,
+        ath: prices.reduce((max, p) => Math.max(max, p.price), 0)
+    };
+}
@@ -12,7 +12,127 @@ export interface BacktestConfig {
     endDate: Date;            // 結束日期
     initialCapital: number;   // 初始資金 (USD)
     baseDcaAmount: number;    // 基礎定投金額 (USD)
-    dcaFrequency: number;     // 定投頻率 (天)
+    dcaFrequency: number;     // 定投頻率 (天，未設定 schedule 時使用)
+    schedule?: DcaSchedule;   // 定投排程 (選填，未設定則每 dcaFrequency 天一次)
+    sellTiers?: SellTier[];   // 出場級距 (選填，未設定則只買不賣)
+    costModel?: CostModel;    // 交易成本 (選填，未設定則零成本)
+    optimizerSeed?: number;   // 級距來自最佳化時的亂數種子 (可重現該結果)
+    gapHandling?: GapHandling; // 價格缺漏處理 (選填，未設定則略過)
+    contributions?: ContributionPlan; // 定期入金 (選填，未設定則只使用初始資金)
+    cashYield?: CashYieldModel; // 閒置現金收益 (選填，未設定則現金不計息)
+    drawdownReference?: DrawdownReference; // 跌幅參考點 (選填，未設定則為歷史 ATH)
+    multiplierCurve?: MultiplierCurve; // 倍率曲線 (選填，未設定則為階梯式級距)
+}
+
+/**
+ * 由跌幅決定加碼倍率的方式
+ * - step: 階梯式，落在兩個級距之間時取較淺級距的倍率
+ * - linear: 在相鄰級距之間線性內插
+ * - power: 倍率 = 1 + k × |跌幅|^p (不使用級距表)
+ * - exponential: 倍率 = e^(k × |跌幅|) (不使用級距表)
+ * 公式曲線的結果會限制在 [min, max] 之間
+ */
+export type MultiplierCurve =
+    | { type: 'step' }
+    | { type: 'linear' }
+    | { type: 'power'; k: number; p: number; min: number; max: number }
+    | { type: 'exponential'; k: number; min: number; max: number };
+
+/**
+ * 計算跌幅的參考點 (決定加碼倍率)
+ * - ath: 自第一筆資料起的歷史最高價
+ * - rollingHigh: 最近 N 天的最高價
+ * - movingAverage: N 日簡單移動平均 (價格高於均線時跌幅為正)
+ * - costBasis: 自身的持倉均價 (尚無持倉時跌幅為 0)
+ * - cycleReset: 循環 ATH，自高點下跌達 bearDrawdown 後，價格創新高 (超過熊市前高點) 時開始新循環
+ * - reboundReset: 反彈重置高點，跌幅達 bearDrawdown 後自低點反彈同樣幅度即以當時價格作為新的高點
+ */
+export type DrawdownReference =
+    | { type: 'ath' }
+    | { type: 'rollingHigh'; days: number }
+    | { type: 'movingAverage'; days: number }
+    | { type: 'costBasis' }
+    | { type: 'cycleReset'; bearDrawdown: number }    // bearDrawdown: 0.5 = 自高點下跌 50% 視為熊市
+    | { type: 'reboundReset'; bearDrawdown: number }; // bearDrawdown: 0.5 = 下跌 50% 後反彈 50% 重置
+
+/**
+ * 一次性入金 (例如年終獎金)
+ */
+export interface OneOffContribution {
+    date: string;             // YYYY-MM-DD (UTC)
+    amount: number;           // 入金金額 (USD)
+}
+
+/**
+ * 入金計畫：定期將收入存入現金池，供後續定投使用
+ * 例如: { amount: 1000, dayOfMonth: 1, annualRaise: 0.03 } 表示每月 1 日入金 $1,000，每滿一年調升 3%
+ */
+export interface ContributionPlan {
+    amount: number;           // 每月入金金額 (USD，0 = 只有一次性入金)
+    dayOfMonth: number;       // 每月入金日 (超過當月天數時取月底)
+    annualRaise: number;      // 每年調幅 (0.03 = 3%，自開始日起每滿一年調整)
+    oneOffs: OneOffContribution[];
+}
+
+/**
+ * 利率序列中的一筆資料 (自該日起適用，直到下一筆)
+ */
+export interface RatePoint {
+    date: string;             // YYYY-MM-DD (UTC)
+    apy: number;              // 年化利率 (0.05 = 5%)
+}
+
+/**
+ * 閒置現金收益模型：未投入的現金每日計息
+ * - fixed: 固定年化利率
+ * - series: 隨時間變動的利率 (例如匯入的短期公債殖利率)
+ */
+export type CashYieldModel =
+    | { type: 'fixed'; apy: number }
+    | { type: 'series'; rates: RatePoint[] };
+
+/**
+ * 定投排程規則 (日期一律以 UTC 計算，與每日價格的日界一致)
+ */
+export type DcaScheduleRule =
+    | { type: 'interval'; days: number }            // 每 N 天
+    | { type: 'weekly'; weekdays: number[] }        // 每週指定星期 (0 = 週日)
+    | { type: 'monthly'; days: number[] }           // 每月指定日期 (超過當月天數時取月底)
+    | { type: 'lastBusinessDay' }                   // 每月最後一個工作日 (週一至週五)
+    | { type: 'custom'; dates: string[] };          // 自訂日期 (YYYY-MM-DD)
+
+/**
+ * 排程日沒有價格資料時的處理方式
+ * - nextAvailable: 順延至下一個有資料的日子
+ * - skip: 略過該次定投
+ */
+export type MissingDayPolicy = 'nextAvailable' | 'skip';
+
+/**
+ * 價格資料缺漏日的處理方式
+ * - skip: 不補資料，缺漏日不交易 (預設)
+ * - ffill: 沿用前一日價格
+ * - interpolate: 前後兩日線性內插
+ * - abort: 回測區間內有缺漏時中止回測
+ */
+export type GapHandling = 'skip' | 'ffill' | 'interpolate' | 'abort';
+
+/**
+ * 定投排程
+ */
+export type DcaSchedule = DcaScheduleRule & {
+    missingDay?: MissingDayPolicy; // 預設 nextAvailable
+};
+
+/**
+ * 交易成本模型
+ * 買入時先扣手續費再以滑價後價格成交；賣出時以滑價後價格成交再扣手續費
+ */
+export interface CostModel {
+    presetId?: string;        // 套用的交易所預設 (僅供顯示)
+    feePercent: number;       // 手續費率 (0.001 = 0.1%)
+    fixedFee: number;         // 每筆固定手續費 (USD)
+    slippageBps: number;      // 價差 / 滑價 (bps，1 bps = 0.01%)
 }
 
 /**
@@ -25,41 +145,102 @@ export interface DrawdownTier {
     multiplier: number;       // 加碼倍率
 }
 
+/**
+ * 出場觸發條件
+ * - aboveCost: 價格高於持倉均價一定比例
+ * - nearAth: 價格接近 ATH (距 ATH 跌幅在門檻以內)
+ */
+export type SellTrigger = 'aboveCost' | 'nearAth';
+
+/**
+ * 出場 (分批賣出) 級距設定
+ * 例如: { trigger: 'aboveCost', threshold: 1, sellPercent: 0.05 } 表示價格達均價 2 倍時賣出 5% 持倉
+ */
+export interface SellTier {
+    id: string;               // 唯一識別碼
+    trigger: SellTrigger;     // 觸發條件
+    threshold: number;        // aboveCost: 高於均價比例 (1 = +100%)；nearAth: 距 ATH 範圍 (0.05 = 5% 以內)
+    sellPercent: number;      // 賣出持倉比例 (0.05 = 5%)，同一 ATH 週期內每個級距只觸發一次
+}
+
 /**
  * 單筆交易紀錄
  */
 export interface TradeRecord {
     date: Date;               // 交易日期
+    side: 'buy' | 'sell';     // 買入 / 賣出
     price: number;            // 當時價格
-    ath: number;              // 當時的 ATH
-    drawdown: number;         // 當時的跌幅
-    multiplier: number;       // 使用的加碼倍率
-    amount: number;           // 投入金額 (USD)
+    ath: number;              // 當時的跌幅參考價 (預設為 ATH，見 DrawdownReference)
+    drawdown: number;         // 當時相對參考價的跌幅
+    multiplier: number;       // 使用的加碼倍率 (賣出時為 0)
+    amount: number;           // 投入金額 / 賣出所得 (USD，已含成本)
+    executionPrice: number;   // 實際成交價 (含滑價)
+    fee: number;              // 交易成本 (手續費 + 滑價，USD)
     coinsBought: number;      // 買入數量
+    coinsSold?: number;       // 賣出數量 (僅賣出)
+    sellPercent?: number;     // 賣出持倉比例 (僅賣出)
+    realizedPnl?: number;     // 已實現損益 (僅賣出)
     totalCoins: number;       // 累計持倉
     remainingCash: number;    // 剩餘現金
+    scheduledDate?: Date;     // 原定排程日 (因缺少價格資料而順延時才有值)
     insufficientFunds: boolean; // 是否資金不足
 }
 
+/**
+ * 每日資產快照
+ */
+export interface EquityPoint {
+    date: Date;               // 日期
+    price: number;            // 當日價格
+    cash: number;             // 剩餘現金
+    coinValue: number;        // 持倉市值
+    totalValue: number;       // 總資產 (現金 + 持倉市值)
+    invested: number;         // 累計投入成本
+}
+
+/**
+ * 風險調整績效指標 (報酬類皆為百分比)
+ */
+export interface PerformanceMetrics {
+    xirr: number;             // 資金加權年化報酬 (XIRR，Lite Mode 時為 NaN)
+    twr: number;              // 時間加權報酬 (區間累計)
+    annualizedTwr: number;    // 年化時間加權報酬
+    volatility: number;       // 年化波動率
+    sharpe: number;           // Sharpe Ratio (無風險利率 0)
+    sortino: number;          // Sortino Ratio
+    calmar: number;           // Calmar Ratio (年化 TWR / 投資組合最大回撤)
+}
+
 /**
  * 回測結果摘要
  */
 export interface BacktestResult {
     trades: TradeRecord[];    // 所有交易紀錄
-    totalInvested: number;    // 總投入成本
+    totalInvested: number;    // 總投入成本 (所有買入金額)
+    netInvested: number;      // 外部資金投入 (總投入扣除再投入的賣出所得，ROI 分母)
+    totalContributions: number; // 累計入金 (不含初始資金)
+    totalInterest: number;    // 閒置現金累計利息 (已計入 finalValue 與 roi)
     totalCoins: number;       // 持倉總量
     averagePrice: number;     // 持倉均價
-    finalValue: number;       // 目前最終價值 (Latest Price)
-    roi: number;              // 目前投報率 (Latest Price)
+    finalValue: number;       // 結束日的最終價值 (End Date Price，含現金利息)
+    roi: number;              // 結束日的投報率 (End Date Price)
     // ... (previous fields)
     finalValueAtLastBuy: number; // 最後一筆投入當下的價值
     roiAtLastBuy: number;        // 最後一筆投入當下的投報率
-    maxDrawdown: number;      // 最大回撤 (%)
+    totalProceeds: number;    // 累計賣出所得
+    realizedPnl: number;      // 已實現損益 (賣出所得 - 賣出部位成本)
+    totalFees: number;        // 累計交易成本 (手續費 + 滑價)
+    maxDrawdown: number;      // 價格相對 ATH 的最大回撤 (%)
+    equityCurve: EquityPoint[]; // 每日資產曲線 (Lite Mode 時為空陣列)
+    portfolioMaxDrawdown: number;      // 投資組合 (現金 + 持倉) 最大回撤 (%)
+    portfolioDrawdownDuration: number; // 投資組合最長低於前高的天數
+    metrics: PerformanceMetrics;       // 風險調整績效
     fundsDepleted: boolean;   // 是否資金枯竭
-    fundsDepletedDate?: Date; // 資金枯竭日期
+    fundsDepletedDate?: Date; // 資金枯竭日期 (之後有入金時清除)
     executionDuration: number; // Days until depleted or finished
     executionStartDate: Date;  // 實際開始執行日期
     executionEndDate: Date;    // 實際結束執行日期 (或資金耗盡日)
+    dataSource?: PriceSource;  // 價格資料來源
 }
 
 /**
@@ -70,6 +251,22 @@ export interface PriceDataPoint {
     price: number;            // 價格 (USD)
 }
 
+/**
+ * 價格資料來源
+ */
+export type PriceSource = 'cryptocompare' | 'coingecko' | 'file' | 'mock';
+
+/**
+ * 歷史價格與資料新鮮度
+ */
+export interface PriceHistory {
+    prices: PriceDataPoint[];
+    source: PriceSource;
+    updatedAt: Date;          // 最後一次成功自網路更新的時間
+    fromCache: boolean;       // 是否直接使用快取 (未發出請求)
+    offline: boolean;         // 網路請求失敗，改用既有快取
+}
+
 /**
  * 幣種資訊 (用於下拉選單)
  */
@@ -105,13 +302,18 @@ export interface SavedStrategy {
         roi: number;
         roiAtLastBuy?: number;
         maxDrawdown: number;
+        portfolioMaxDrawdown?: number;
+        metrics?: PerformanceMetrics;
         finalValue: number;
         finalValueAtLastBuy?: number;
         totalInvested: number;
         totalCoins: number;
         averagePrice: number;
+        realizedPnl?: number;
+        totalFees?: number;
         executionDuration?: number;
         executionStartDate?: Date; // Added
         executionEndDate?: Date;   // Added
+        dataSource?: PriceSource;
     };
 }
@@ -6,10 +6,24 @@
 import type {
     BacktestConfig,
     DrawdownTier,
+    MultiplierCurve,
+    SellTier,
     TradeRecord,
     BacktestResult,
+    EquityPoint,
     PriceDataPoint
 } from '../types';
+import { fillBuy, fillSell } from './fees';
+import { getSchedule, resolveExecutionDays, startOfUtcDay } from './schedule';
+import { resolveContributions } from './contributions';
+import { accrueInterest, createRateLookup } from './cashYield';
+import { createReferenceTracker, drawdownFrom } from './drawdownReference';
+import { formulaMultiplier, interpolateMultiplier, isFormulaCurve } from './multiplierCurve';
+import { addReturn, createReturnAccumulator, summarizePerformance } from './metrics';
+import { fillGaps, findGaps, normalizeDailyPrices } from './dataQuality';
+import type { CashFlow } from './metrics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 /**
  * 根據跌幅查找對應的加碼倍率
@@ -22,8 +36,13 @@ import type {
  * 實作方式：
  * 1. 按閾值升序排序（從 -30% 到 0%）
  * 2. 找「第一個 threshold >= drawdown」的級距
+ *
+ * 指定 curve 時改用級距間線性內插或公式曲線 (見 multiplierCurve.ts)
  */
-export function getMultiplier(drawdown: number, tiers: DrawdownTier[]): number {
+export function getMultiplier(drawdown: number, tiers: DrawdownTier[], curve?: MultiplierCurve): number {
+    if (isFormulaCurve(curve)) return formulaMultiplier(drawdown, curve);
+    if (curve?.type === 'linear') return interpolateMultiplier(drawdown, tiers);
+
     // 按閾值升序排序（從最低 -30% 到最高 0%）
     const sortedTiers = [...tiers].sort((a, b) => a.threshold - b.threshold);
 
@@ -39,11 +58,39 @@ export function getMultiplier(drawdown: number, tiers: DrawdownTier[]): number {
 }
 
 /**
- * 將價格資料按日聚合
- * CoinGecko 可能回傳多筆同一天的資料，取每日最後一筆
+ * 根據價格位置查找觸發的出場級距
+ *
+ * 邏輯說明：
+ * - aboveCost: 價格 >= 持倉均價 × (1 + threshold)
+ * - nearAth:   跌幅 >= -threshold (距 ATH 在 threshold 以內)
+ * 同時觸發多個級距時，取賣出比例最大者；firedTierIds 中的級距 (本輪已賣出) 不再觸發
  */
+export function getSellTier(
+    price: number,
+    drawdown: number,
+    averageCost: number,
+    sellTiers: SellTier[],
+    firedTierIds?: Set<string>
+): SellTier | null {
+    let triggered: SellTier | null = null;
+
+    for (const tier of sellTiers) {
+        if (firedTierIds?.has(tier.id)) continue;
+
+        const isTriggered = tier.trigger === 'aboveCost'
+            ? averageCost > 0 && price >= averageCost * (1 + tier.threshold)
+            : drawdown >= -tier.threshold;
+
+        if (isTriggered && (!triggered || tier.sellPercent > triggered.sellPercent)) {
+            triggered = tier;
+        }
+    }
+
+    return triggered;
+}
+
 /**
- * 將價格資料按日聚合
+ * 將價資料按日聚合
  * CoinGecko 可能回傳多筆同一天的資料，取每日最後一筆
  */
 export function aggregateDailyPrices(prices: PriceDataPoint[]): PriceDataPoint[] {
@@ -60,9 +107,39 @@ export function aggregateDailyPrices(prices: PriceDataPoint[]): PriceDataPoint[]
         .sort((a, b) => a.timestamp - b.timestamp);
 }
 
+/**
+ * 準備回測用的每日價格
+ * 排除無效價格並每日聚合 (normalizeDailyPrices) -> 依 config.gapHandling 處理缺漏日
+ * gapHandling 為 abort 且回測區間內有缺漏時，拋出 { code: 'DATA_GAP' }
+ */
+export function prepareDailyPrices(prices: PriceDataPoint[], config: BacktestConfig): PriceDataPoint[] {
+    const dailyPrices = normalizeDailyPrices(prices).daily;
+    const gapHandling = config.gapHandling ?? 'skip';
+
+    if (gapHandling === 'ffill' || gapHandling === 'interpolate') {
+        return fillGaps(dailyPrices, gapHandling);
+    }
+
+    if (gapHandling === 'abort') {
+        const startTimestamp = config.startDate.getTime();
+        const endTimestamp = config.endDate.getTime();
+        const gaps = findGaps(dailyPrices).filter(g => g.end > startTimestamp && g.start < endTimestamp);
+        if (gaps.length > 0) {
+            const missingDays = gaps.reduce((sum, g) => sum + g.missingDays, 0);
+            throw {
+                code: 'DATA_GAP',
+                message: `回測區間內缺少 ${missingDays} 天價格資料 (首個缺口: ${new Date(gaps[0].start).toLocaleDateString('zh-TW')} 之後)，已中止回測`
+            };
+        }
+    }
+
+    return dailyPrices;
+}
+
 export interface BacktestOptions {
     liteMode?: boolean;       // 若為 true，不記錄詳細交易明細 (節省記憶體)
-    preAggregated?: boolean;  // 若為 true，跳過每日聚合步驟 (節省運算)
+    preAggregated?: boolean;  // 若為 true，跳過每日聚合與缺漏處理 (prices 需已經過 prepareDailyPrices)
+    onDailyValue?: (timestamp: number, totalValue: number) => void; // 回測區間內每日總資產 (Lite Mode 下取樣資產曲線用)
 }
 
 /**
@@ -75,135 +152,321 @@ export function runBacktest(
     tiers: DrawdownTier[],
     options: BacktestOptions = {}
 ): BacktestResult {
-    // 1. 聚合每日價格 (若已聚合過則跳過)
+    // 1. 聚合每日價格並處理缺漏 (若已處理過則跳過)
     const dailyPrices = options.preAggregated
         ? prices
-        : aggregateDailyPrices(prices);
+        : prepareDailyPrices(prices, config);
 
     // 2. 初始化狀態
     let runningAth = 0;           // 動態 ATH
+    const referenceTracker = createReferenceTracker(config.drawdownReference); // 加碼倍率的跌幅參考點
     let remainingCash = config.initialCapital; // 剩餘現金
+    let totalContributions = 0;   // 累計入金 (不含初始資金)
+    let totalInterest = 0;        // 閒置現金累計利息
     let totalCoins = 0;           // 累計持倉
     let totalInvested = 0;        // 累計投入
+    let costBasis = 0;            // 目前持倉的成本 (賣出時按均價扣除)
+    let totalProceeds = 0;        // 累計賣出所得
+    let realizedPnl = 0;          // 已實現損益
+    let totalFees = 0;            // 累計交易成本
     let maxDrawdown = 0;          // 最大回撤
     let fundsDepleted = false;
     let fundsDepletedDate: Date | undefined;
     let lastBuyPrice = 0;         // 追蹤最後一次買入價格 (Lite Mode 需要)
+    let coinsAtLastBuy = 0;       // 最後一次買入後的持倉 (之後可能被賣出)
+    let proceedsAtLastBuy = 0;    // 最後一次買入時的累計賣出所得
+    let unspentProceeds = 0;      // 尚未再投入的賣出所得
+    let reinvestedProceeds = 0;   // 再投入買入的賣出所得 (不算新投入的資金)
+    const sellTiers = config.sellTiers || [];
+    // 每個出場級距在同一個 ATH 週期內只賣一次，價格創新高後重新啟用
+    const firedSellTiers = new Set<string>();
 
     // Lite Mode: 若開啟，則不初始化 trades 陣列以節省記憶體
     const trades: TradeRecord[] = options.liteMode ? [] : [];
+    const equityCurve: EquityPoint[] = [];
 
-    // 計算定投日 (從第一天開始，每 N 天一次)
+    // 投資組合回撤追蹤 (以扣除入金的淨值指數計算，入金不會掩蓋虧損)
+    let navIndex = 1;
+    let equityPeak = 0;
+    let equityPeakTimestamp = 0;
+    let portfolioMaxDrawdown = 0;
+    let portfolioDrawdownDuration = 0; // 最長的低於前高天數
+
+    // 績效指標：每日報酬累加 + 買賣現金流 (XIRR 較耗時，Lite Mode 不計算)
+    const returns = createReturnAccumulator();
+    const cashFlows: CashFlow[] | null = options.liteMode ? null : [];
+    let previousTotalValue = 0;
+
+    // 計算定投日 (依排程展開，缺資料的排程日依設定順延或略過)
     const startTimestamp = config.startDate.getTime();
+    const endTimestamp = config.endDate.getTime();
+    const executionDays = resolveExecutionDays(dailyPrices, getSchedule(config), startTimestamp, endTimestamp);
+    const contributionDays = config.contributions
+        ? resolveContributions(dailyPrices, config.contributions, startTimestamp, endTimestamp)
+        : null;
+    const rateAt = config.cashYield ? createRateLookup(config.cashYield) : null;
+    let windowLastPoint: PriceDataPoint | undefined; // 回測區間內最後一筆價格 (結算用)
+    let previousWindowTimestamp: number | undefined; // 上一個區間內的價格日 (計息起點)
 
     // 3. 遍歷每日價格
     for (const pricePoint of dailyPrices) {
+        // 超過結束日期即停止 (之後的價格不影響買入與結算)
+        if (pricePoint.timestamp > endTimestamp) break;
+
         const currentDate = new Date(pricePoint.timestamp);
         const currentPrice = pricePoint.price;
+        windowLastPoint = pricePoint;
 
         // 更新動態 ATH (核心邏輯：從歷史第一天就開始計算)
+        if (currentPrice > runningAth) firedSellTiers.clear();
         runningAth = Math.max(runningAth, currentPrice);
 
-        // 計算當前跌幅
-        const drawdown = runningAth > 0
+        referenceTracker.update(pricePoint.timestamp, currentPrice);
+
+        // 計算當前相對 ATH 的跌幅 (最大回撤與「距 ATH」出場條件使用)
+        const athDrawdown = runningAth > 0
             ? (currentPrice - runningAth) / runningAth
             : 0;
 
         // 檢查是否早於用戶設定的開始日期
-        // 若早於開始日，我們只計算 ATH，不執行任何交易或記錄
+        // 若早於開始日，我們只計算 ATH 與參考點，不執行任何交易或記錄
         if (currentDate.getTime() < startTimestamp) {
             continue;
         }
 
         // 更新最大回撤 (只統計回測區間內)
-        maxDrawdown = Math.min(maxDrawdown, drawdown);
-
-        // 檢查是否為定投日 (相對於開始日期)
-        const daysSinceStart = Math.floor(
-            (pricePoint.timestamp - startTimestamp) / (24 * 60 * 60 * 1000)
-        );
-        const isDcaDay = daysSinceStart >= 0 && daysSinceStart % config.dcaFrequency === 0;
-
-        if (!isDcaDay) continue;
+        maxDrawdown = Math.min(maxDrawdown, athDrawdown);
 
-        // 4. 計算倍率與買入金額
-        const multiplier = getMultiplier(drawdown, tiers);
-        const buyAmount = config.baseDcaAmount * multiplier;
+        // 加碼倍率依選定的參考點計算跌幅 (預設即為 ATH)
+        const referencePrice = referenceTracker.reference(currentPrice, totalCoins > 0 ? costBasis / totalCoins : 0);
+        const drawdown = drawdownFrom(currentPrice, referencePrice);
 
-        // 5. 檢查資金是否足夠
-        const insufficientFunds = remainingCash < buyAmount;
-
-        if (insufficientFunds && !fundsDepleted) {
-            fundsDepleted = true;
-            fundsDepletedDate = currentDate;
+        // 閒置現金計息：前一日收盤後的現金，按經過天數與該期間的利率複利 (缺資料的日子也照常計息)
+        if (rateAt && previousWindowTimestamp !== undefined) {
+            const interest = accrueInterest(
+                remainingCash,
+                rateAt(previousWindowTimestamp),
+                previousWindowTimestamp,
+                pricePoint.timestamp
+            );
+            remainingCash += interest;
+            totalInterest += interest;
+        }
+        previousWindowTimestamp = pricePoint.timestamp;
+
+        // 入金 (先入帳，當天的定投即可使用)；資金補充後耗盡狀態解除，之後不足時再重新記錄
+        const contribution = contributionDays?.get(pricePoint.timestamp) ?? 0;
+        remainingCash += contribution;
+        totalContributions += contribution;
+        if (contribution > 0 && fundsDepleted) {
+            fundsDepleted = false;
+            fundsDepletedDate = undefined;
         }
 
-        // 計算實際買入金額 (若資金不足則用剩餘現金)
-        const actualBuyAmount = insufficientFunds
-            ? Math.max(0, remainingCash)
-            : buyAmount;
+        // 檢查是否為定投日
+        const scheduledTimestamp = executionDays.get(pricePoint.timestamp);
+        if (scheduledTimestamp !== undefined) {
+            // 排程日缺資料而順延時，記錄原定日期
+            const scheduledDate = startOfUtcDay(pricePoint.timestamp) !== scheduledTimestamp
+                ? new Date(scheduledTimestamp)
+                : undefined;
+
+            // 出場檢查：觸發賣出級距時，本次定投改為分批賣出
+            const sellTier = totalCoins > 0
+                ? getSellTier(currentPrice, athDrawdown, costBasis / totalCoins, sellTiers, firedSellTiers)
+                : null;
+
+            if (sellTier) {
+                const coinsSold = totalCoins * sellTier.sellPercent;
+                const fill = fillSell(coinsSold, currentPrice, config.costModel);
+                const proceeds = fill.amount;
+                const costOfSold = coinsSold * (costBasis / totalCoins);
+                const pnl = proceeds - costOfSold;
+
+                totalCoins -= coinsSold;
+                costBasis -= costOfSold;
+                remainingCash += proceeds;
+                totalProceeds += proceeds;
+                unspentProceeds += proceeds;
+                realizedPnl += pnl;
+                firedSellTiers.add(sellTier.id);
+                totalFees += fill.fee;
+                cashFlows?.push({ timestamp: pricePoint.timestamp, amount: proceeds });
+
+                if (!options.liteMode) {
+                    trades.push({
+                        date: currentDate,
+                        side: 'sell',
+                        price: currentPrice,
+                        ath: referencePrice,
+                        drawdown,
+                        multiplier: 0,
+                        amount: proceeds,
+                        executionPrice: fill.executionPrice,
+                        fee: fill.fee,
+                        coinsBought: 0,
+                        coinsSold,
+                        sellPercent: sellTier.sellPercent,
+                        realizedPnl: pnl,
+                        totalCoins,
+                        remainingCash,
+                        insufficientFunds: false,
+                        scheduledDate
+                    });
+                }
+            } else {
+                // 4. 計算倍率與買入金額
+                const multiplier = getMultiplier(drawdown, tiers, config.multiplierCurve);
+                const buyAmount = config.baseDcaAmount * multiplier;
+
+                // 5. 檢查資金是否足夠
+                const insufficientFunds = remainingCash < buyAmount;
+
+                if (insufficientFunds && !fundsDepleted) {
+                    fundsDepleted = true;
+                    fundsDepletedDate = currentDate;
+                }
+
+                // 計算實際買入金額 (若資金不足則用剩餘現金)
+                const actualBuyAmount = insufficientFunds
+                    ? Math.max(0, remainingCash)
+                    : buyAmount;
+
+                // 計算買入數量 (扣除手續費與滑價；金額不足以支付手續費時不成交)
+                const fill = fillBuy(actualBuyAmount, currentPrice, config.costModel);
+                const coinsBought = fill.coins;
+                const hasBought = coinsBought > 0;
+
+                // 更新狀態
+                if (hasBought) {
+                    remainingCash -= actualBuyAmount;
+                    totalCoins += coinsBought;
+                    totalInvested += actualBuyAmount;
+                    const fromProceeds = Math.min(actualBuyAmount, unspentProceeds);
+                    unspentProceeds -= fromProceeds;
+                    reinvestedProceeds += fromProceeds;
+                    costBasis += actualBuyAmount;
+                    totalFees += fill.fee;
+                    lastBuyPrice = currentPrice; // 更新最後買入價
+                    coinsAtLastBuy = totalCoins;
+                    proceedsAtLastBuy = totalProceeds;
+                    cashFlows?.push({ timestamp: pricePoint.timestamp, amount: -actualBuyAmount });
+                }
+
+                // 6. 記錄交易 (僅記錄有實際買入的，且 Lite Mode 關閉時)
+                if (!options.liteMode && hasBought) {
+                    trades.push({
+                        date: currentDate,
+                        side: 'buy',
+                        price: currentPrice,
+                        ath: referencePrice,
+                        drawdown,
+                        multiplier,
+                        amount: actualBuyAmount,
+                        executionPrice: fill.executionPrice,
+                        fee: fill.fee,
+                        coinsBought,
+                        totalCoins,
+                        remainingCash,
+                        insufficientFunds,
+                        scheduledDate
+                    });
+                }
+            }
+        }
 
-        // 計算買入數量
-        const coinsBought = actualBuyAmount / currentPrice;
+        // 7. 每日資產曲線與投資組合回撤 (現金 + 持倉市值)
+        const coinValue = totalCoins * currentPrice;
+        const totalValue = remainingCash + coinValue;
 
-        // 更新狀態
-        if (actualBuyAmount > 0) {
-            remainingCash -= actualBuyAmount;
-            totalCoins += coinsBought;
-            totalInvested += actualBuyAmount;
-            lastBuyPrice = currentPrice; // 更新最後買入價
+        // 時間加權：當日報酬扣除當日入金
+        if (previousTotalValue > 0) {
+            const dailyReturn = (totalValue - contribution) / previousTotalValue - 1;
+            addReturn(returns, dailyReturn);
+            navIndex *= 1 + dailyReturn;
+        }
+        previousTotalValue = totalValue;
+        options.onDailyValue?.(pricePoint.timestamp, totalValue);
+
+        if (navIndex >= equityPeak) {
+            equityPeak = navIndex;
+            equityPeakTimestamp = pricePoint.timestamp;
+        } else if (equityPeak > 0) {
+            portfolioMaxDrawdown = Math.min(portfolioMaxDrawdown, (navIndex - equityPeak) / equityPeak);
+            portfolioDrawdownDuration = Math.max(
+                portfolioDrawdownDuration,
+                Math.floor((pricePoint.timestamp - equityPeakTimestamp) / DAY_MS)
+            );
         }
 
-        // 6. 記錄交易 (僅記錄有實際買入的，且 Lite Mode 關閉時)
-        if (!options.liteMode && actualBuyAmount > 0) {
-            trades.push({
+        if (!options.liteMode) {
+            equityCurve.push({
                 date: currentDate,
                 price: currentPrice,
-                ath: runningAth,
-                drawdown,
-                multiplier,
-                amount: actualBuyAmount,
-                coinsBought,
-                totalCoins,
-                remainingCash,
-                insufficientFunds
+                cash: remainingCash,
+                coinValue,
+                totalValue,
+                invested: totalInvested
             });
         }
     }
 
-    // 7. 計算最終結果 (Current / Latest Data)
-    const lastPrice = dailyPrices[dailyPrices.length - 1]?.price || 0;
-    const finalValue = totalCoins * lastPrice;
+    // 8. 計算最終結果 (以結束日價格結算，利息視為現金部位的報酬一併計入)
+    const lastPrice = windowLastPoint?.price || 0;
+    const finalValue = totalCoins * lastPrice + totalInterest;
 
     // 計算最後一筆投入當下的結果 (At Last Buy)
     // 依賴 lastBuyPrice 變數，不需要 trades 陣列
-    const finalValueAtLastBuy = totalCoins * lastBuyPrice;
+    const finalValueAtLastBuy = coinsAtLastBuy * lastBuyPrice;
 
-    const averagePrice = totalInvested > 0 ? totalInvested / totalCoins : 0;
+    // 均價 = 目前持倉成本 / 持倉量 (無賣出時等同 總投入 / 持倉量)
+    const averagePrice = totalCoins > 0 ? costBasis / totalCoins : 0;
 
-    const roi = totalInvested > 0
-        ? ((finalValue - totalInvested) / totalInvested) * 100
+    // 投報率納入已賣出的所得
+    // 投報率的分母為實際投入的外部資金：賣出所得再買回的部分不重複計入
+    const netInvested = totalInvested - reinvestedProceeds;
+
+    const roi = netInvested > 0
+        ? ((finalValue + totalProceeds - totalInvested) / netInvested) * 100
         : 0;
 
-    const roiAtLastBuy = totalInvested > 0
-        ? ((finalValueAtLastBuy - totalInvested) / totalInvested) * 100
+    // 最後一筆買入之後不再有買入，netInvested 即為當時的外部資金投入
+    const roiAtLastBuy = netInvested > 0
+        ? ((finalValueAtLastBuy + proceedsAtLastBuy - totalInvested) / netInvested) * 100
         : 0;
 
-    const effectiveEndDate = fundsDepletedDate || (dailyPrices.length > 0 ? new Date(dailyPrices[dailyPrices.length - 1].timestamp) : new Date());
+    const effectiveEndDate = fundsDepletedDate || (windowLastPoint ? new Date(windowLastPoint.timestamp) : new Date());
     const effectiveStartDate = dailyPrices.length > 0 ? new Date(startTimestamp) : new Date(); // Use actual start timestamp or now fallback
 
-    const executionDuration = Math.max(0, Math.floor((effectiveEndDate.getTime() - startTimestamp) / (1000 * 60 * 60 * 24)));
+    const executionDuration = Math.max(0, Math.floor((effectiveEndDate.getTime() - startTimestamp) / DAY_MS));
+
+    // 績效指標 (期末持倉市值視為最後一筆取回的現金流)
+    if (cashFlows && windowLastPoint && finalValue > 0) {
+        cashFlows.push({ timestamp: windowLastPoint.timestamp, amount: finalValue });
+    }
+    const periodDays = windowLastPoint ? Math.max(0, (windowLastPoint.timestamp - startTimestamp) / DAY_MS) : 0;
+    const metrics = summarizePerformance(returns, cashFlows, periodDays, portfolioMaxDrawdown * 100);
 
     return {
         trades, // Lite Mode 時為空陣列
         totalInvested,
+        netInvested,
+        totalContributions,
+        totalInterest,
         totalCoins,
         averagePrice,
         finalValue,
         roi,
         finalValueAtLastBuy,
         roiAtLastBuy,
+        totalProceeds,
+        realizedPnl,
+        totalFees,
         maxDrawdown: maxDrawdown * 100, // 轉為百分比
+        equityCurve, // Lite Mode 時為空陣列
+        portfolioMaxDrawdown: portfolioMaxDrawdown * 100,
+        portfolioDrawdownDuration,
+        metrics,
         fundsDepleted,
         fundsDepletedDate,
         executionDuration,
@@ -212,6 +475,24 @@ export function runBacktest(
     };
 }
 
+/**
+ * 純定投基準回測 (無加碼、不套用出場級距與倍率曲線)
+ * 為了公平比較 ROI，若策略因資金耗盡提早結束，基準也在同一天結束 (停止買入並以當天價格結算)，
+ * 以排除「牛市回升時間長度」造成的偏差；有入金計畫時兩者都持續收到入金，基準不提前結束
+ */
+export function runBenchmarkBacktest(
+    prices: PriceDataPoint[],
+    config: BacktestConfig,
+    strategyResult: BacktestResult,
+    options: BacktestOptions = {}
+): BacktestResult {
+    const benchmarkConfig: BacktestConfig = { ...config, sellTiers: [], multiplierCurve: undefined };
+    if (strategyResult.fundsDepletedDate && !config.contributions) {
+        benchmarkConfig.endDate = strategyResult.fundsDepletedDate;
+    }
+    return runBacktest(prices, benchmarkConfig, [], options);
+}
+
 /**
  * 產生預設級距表
  */
@@ -223,3 +504,15 @@ export function getDefaultTiers(): DrawdownTier[] {
         { id: '4', threshold: -0.3, multiplier: 2 },
     ];
 }
+
+/**
+ * 產生新的出場級距 (預設: 均價 2 倍時賣出 5%)
+ */
+export function createSellTier(trigger: SellTier['trigger'] = 'aboveCost'): SellTier {
+    return {
+        id: Date.now().toString(),
+        trigger,
+        threshold: trigger === 'aboveCost' ? 1 : 0.05,
+        sellPercent: 0.05,
+    };
+}
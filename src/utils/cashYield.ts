@@ -0,0 +1,102 @@
+/* ===================================
+   閒置現金收益
+   固定年化利率或匯入的利率序列，逐日計算未投入現金的利息
+=================================== */
+
+import type { CashYieldModel, RatePoint } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const RATE_IMPORT_ERROR = 'RATE_IMPORT_ERROR';
+
+/**
+ * 利率檔匯入結果
+ */
+export interface RateImportResult {
+    rates: RatePoint[];
+    skipped: number;          // 無法解析而略過的資料列 (含標題列)
+}
+
+/**
+ * 現金收益設定的文字描述
+ */
+export function describeCashYield(model: CashYieldModel): string {
+    if (model.type === 'fixed') {
+        return `年化 ${(model.apy * 100).toFixed(2)}%`;
+    }
+    if (model.rates.length === 0) return '尚未匯入利率';
+    const first = model.rates[0];
+    const last = model.rates[model.rates.length - 1];
+    return `${model.rates.length} 筆利率 (${first.date} ~ ${last.date})`;
+}
+
+/**
+ * 建立利率查詢函式 (timestamp -> 年化利率)
+ *
+ * 邏輯說明：
+ * - fixed: 固定利率
+ * - series: 取該日 (含) 之前最近一筆利率；早於第一筆時視為 0
+ * 回測依時間順序查詢，序列模式以游標前進，不需每次搜尋
+ */
+export function createRateLookup(model: CashYieldModel): (timestamp: number) => number {
+    if (model.type === 'fixed') {
+        return () => model.apy;
+    }
+
+    const points = model.rates
+        .map(r => ({ timestamp: Date.parse(r.date), apy: r.apy }))
+        .filter(p => isFinite(p.timestamp) && isFinite(p.apy))
+        .sort((a, b) => a.timestamp - b.timestamp);
+    let cursor = -1;
+
+    return (timestamp: number) => {
+        // 查詢時間倒退時 (不同回測重複使用) 從頭找起
+        if (cursor >= 0 && points[cursor].timestamp > timestamp) cursor = -1;
+        while (cursor + 1 < points.length && points[cursor + 1].timestamp <= timestamp) {
+            cursor++;
+        }
+        return cursor >= 0 ? points[cursor].apy : 0;
+    };
+}
+
+/**
+ * 計算一段期間的利息 (年化利率按日複利換算)
+ * 現金為負或期間為 0 時不計息
+ */
+export function accrueInterest(cash: number, apy: number, fromTimestamp: number, toTimestamp: number): number {
+    const days = (toTimestamp - fromTimestamp) / DAY_MS;
+    if (cash <= 0 || days <= 0 || apy <= -1) return 0;
+    return cash * (Math.pow(1 + apy, days / 365) - 1);
+}
+
+/**
+ * 解析利率檔 (CSV / 純文字)
+ * 每行「日期, 年化利率 %」，例如 2024-01-01,5.25；標題列或無效的資料列會被略過
+ */
+export function parseRateFile(text: string): RateImportResult {
+    const byDate = new Map<string, number>();
+    let skipped = 0;
+
+    text.split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line !== '')
+        .forEach(line => {
+            const [rawDate, rawRate] = line.split(/[,;\t]/).map(cell => cell.trim().replace(/^"|"$/g, ''));
+            const date = rawDate?.replace(/\//g, '-');
+            const rate = Number(rawRate?.replace('%', ''));
+            if (!date || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date)) || rawRate === undefined || !isFinite(rate)) {
+                skipped++;
+                return;
+            }
+            byDate.set(date, rate / 100);
+        });
+
+    if (byDate.size === 0) {
+        throw { code: RATE_IMPORT_ERROR, message: '找不到有效的利率資料 (每行需為「YYYY-MM-DD, 年化利率 %」)' };
+    }
+
+    const rates = Array.from(byDate.entries())
+        .map(([date, apy]) => ({ date, apy }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+    return { rates, skipped };
+}
@@ -0,0 +1,97 @@
+/* ===================================
+   入金計畫
+   將每月入金、年度調幅與一次性入金展開為實際入帳的價格日
+=================================== */
+
+import type { ContributionPlan, PriceDataPoint } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 入金對照表：價格資料的 timestamp -> 當日入金金額
+ */
+export type ContributionDays = Map<number, number>;
+
+// 同一份價格陣列會被重複回測 (例如最佳化)，快取展開結果避免重算
+const contributionCache = new WeakMap<PriceDataPoint[], Map<string, ContributionDays>>();
+
+/**
+ * 入金計畫的文字描述
+ */
+export function describeContributions(plan: ContributionPlan): string {
+    const parts: string[] = [];
+    if (plan.amount > 0) {
+        parts.push(`每月 ${plan.dayOfMonth} 日入金 $${plan.amount.toLocaleString()}`);
+        if (plan.annualRaise !== 0) parts.push(`每年調整 ${(plan.annualRaise * 100).toFixed(1)}%`);
+    }
+    if (plan.oneOffs.length > 0) parts.push(`${plan.oneOffs.length} 筆一次性入金`);
+    return parts.length > 0 ? parts.join('，') : '無入金';
+}
+
+/**
+ * 展開入金計畫
+ *
+ * 邏輯說明：
+ * 1. 每月入金日 = min(dayOfMonth, 當月天數)，只計算 [開始日, 結束日] 之間
+ * 2. 金額 = amount × (1 + annualRaise) ^ 自開始日起滿幾年
+ * 3. 入金日沒有價格資料時，於下一個有資料的日子入帳 (現金仍會到帳，只是延後可用)
+ */
+export function resolveContributions(
+    dailyPrices: PriceDataPoint[],
+    plan: ContributionPlan,
+    startTimestamp: number,
+    endTimestamp: number
+): ContributionDays {
+    const cacheKey = `${JSON.stringify(plan)}|${startTimestamp}|${endTimestamp}`;
+    let cacheForPrices = contributionCache.get(dailyPrices);
+    const cached = cacheForPrices?.get(cacheKey);
+    if (cached) return cached;
+
+    const result: ContributionDays = new Map();
+    const inWindow = dailyPrices.filter(p => p.timestamp >= startTimestamp && p.timestamp <= endTimestamp);
+
+    const startDay = Math.floor(startTimestamp / DAY_MS);
+    const lastDay = inWindow.length > 0 ? Math.floor(inWindow[inWindow.length - 1].timestamp / DAY_MS) : startDay - 1;
+
+    // 1. 列出所有入金 (日序號, 金額)
+    const deposits: { day: number; amount: number }[] = [];
+    if (plan.amount > 0 && plan.dayOfMonth >= 1) {
+        const start = new Date(startDay * DAY_MS);
+        for (let month = 0; ; month++) {
+            const year = start.getUTCFullYear();
+            const monthIndex = start.getUTCMonth() + month;
+            const daysInMonth = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+            const day = Math.floor(Date.UTC(year, monthIndex, Math.min(plan.dayOfMonth, daysInMonth)) / DAY_MS);
+            if (day > lastDay) break;
+            if (day < startDay) continue;
+
+            const yearsElapsed = Math.floor((day - startDay) / 365.25);
+            deposits.push({ day, amount: plan.amount * Math.pow(1 + plan.annualRaise, yearsElapsed) });
+        }
+    }
+    plan.oneOffs.forEach(o => {
+        const day = Math.floor(new Date(o.date).getTime() / DAY_MS);
+        if (!isNaN(day) && o.amount > 0 && day >= startDay && day <= lastDay) {
+            deposits.push({ day, amount: o.amount });
+        }
+    });
+    deposits.sort((a, b) => a.day - b.day);
+
+    // 2. 對應到當天或之後第一個有價格的日子
+    let cursor = 0;
+    for (const deposit of deposits) {
+        while (cursor < inWindow.length && Math.floor(inWindow[cursor].timestamp / DAY_MS) < deposit.day) {
+            cursor++;
+        }
+        const point = inWindow[cursor];
+        if (!point) break;
+        result.set(point.timestamp, (result.get(point.timestamp) ?? 0) + deposit.amount);
+    }
+
+    if (!cacheForPrices) {
+        cacheForPrices = new Map();
+        contributionCache.set(dailyPrices, cacheForPrices);
+    }
+    cacheForPrices.set(cacheKey, result);
+    return result;
+}
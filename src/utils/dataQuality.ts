@@ -0,0 +1,212 @@
+/* ===================================
+   價格資料品質檢查
+   缺漏日、重複、異常價格、跳動與資料粒度
+=================================== */
+
+import type { GapHandling, PriceDataPoint } from '../types';
+import { startOfUtcDay } from './schedule';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 資料缺口 (兩個相鄰資料日之間缺少的日子)
+ */
+export interface PriceGap {
+    start: number;            // 缺口前最後一筆資料的 timestamp
+    end: number;              // 缺口後第一筆資料的 timestamp
+    missingDays: number;
+}
+
+/**
+ * 單日價格異常跳動
+ */
+export interface PriceSpike {
+    timestamp: number;
+    change: number;           // 相對前一日的變化 (0.8 = +80%)
+}
+
+export type DataQualityIssueType = 'missingDays' | 'invalidPrice' | 'duplicate' | 'spike' | 'granularity';
+
+export interface DataQualityIssue {
+    type: DataQualityIssueType;
+    severity: 'info' | 'warning';
+    message: string;
+}
+
+/**
+ * 資料品質報告
+ */
+export interface DataQualityReport {
+    totalPoints: number;      // 原始資料筆數
+    dailyPoints: number;      // 每日聚合後的有效資料天數
+    missingDays: number;
+    gaps: PriceGap[];
+    invalidPrices: number;    // 0、負數或非數字的價格
+    duplicates: number;       // 同一天的多筆資料 (聚合時只保留最後一筆)
+    spikes: PriceSpike[];
+    coarseShare: number;      // 間隔超過 1 天的比例 (0-1)
+    issues: DataQualityIssue[];
+}
+
+export interface DataQualityOptions {
+    spikeThreshold?: number;  // 單日漲跌超過此比例視為可疑 (預設 0.5 = ±50%)
+}
+
+const COARSE_SHARE_WARNING = 0.1; // 超過 10% 的間隔大於 1 天 -> 粒度警告
+
+/**
+ * 正規化後的每日價格 (回測與資料品質檢查共用)
+ */
+export interface NormalizedPrices {
+    daily: PriceDataPoint[];  // 每日一筆有效價格，依時間排序
+    invalidPrices: number;    // 被排除的無效價格筆數
+    duplicates: number;       // 被同日後一筆覆蓋的筆數
+}
+
+/**
+ * 正規化原始價格
+ * 先排除無效價格 (0、負數、非數字)，再依 UTC 日聚合並保留當日最後一筆，
+ * 避免同日的無效資料蓋掉有效價格
+ */
+export function normalizeDailyPrices(prices: PriceDataPoint[]): NormalizedPrices {
+    let invalidPrices = 0;
+    let duplicates = 0;
+    const byDay = new Map<number, PriceDataPoint>();
+    for (const point of prices) {
+        if (!isFinite(point.price) || point.price <= 0) {
+            invalidPrices++;
+            continue;
+        }
+        const day = startOfUtcDay(point.timestamp);
+        if (byDay.has(day)) duplicates++;
+        byDay.set(day, point);
+    }
+    const daily = Array.from(byDay.values()).sort((a, b) => a.timestamp - b.timestamp);
+    return { daily, invalidPrices, duplicates };
+}
+
+/**
+ * 找出每日序列中的缺口
+ */
+export function findGaps(dailyPrices: PriceDataPoint[]): PriceGap[] {
+    const gaps: PriceGap[] = [];
+    for (let i = 1; i < dailyPrices.length; i++) {
+        const days = Math.round((startOfUtcDay(dailyPrices[i].timestamp) - startOfUtcDay(dailyPrices[i - 1].timestamp)) / DAY_MS);
+        if (days > 1) {
+            gaps.push({ start: dailyPrices[i - 1].timestamp, end: dailyPrices[i].timestamp, missingDays: days - 1 });
+        }
+    }
+    return gaps;
+}
+
+/**
+ * 補齊缺漏日
+ * - ffill: 沿用前一日價格
+ * - interpolate: 前後兩日線性內插
+ */
+export function fillGaps(dailyPrices: PriceDataPoint[], method: 'ffill' | 'interpolate'): PriceDataPoint[] {
+    if (dailyPrices.length < 2) return dailyPrices;
+
+    const filled: PriceDataPoint[] = [dailyPrices[0]];
+    for (let i = 1; i < dailyPrices.length; i++) {
+        const prev = dailyPrices[i - 1];
+        const next = dailyPrices[i];
+        const days = Math.round((startOfUtcDay(next.timestamp) - startOfUtcDay(prev.timestamp)) / DAY_MS);
+
+        for (let d = 1; d < days; d++) {
+            const price = method === 'ffill'
+                ? prev.price
+                : prev.price + (next.price - prev.price) * (d / days);
+            filled.push({ timestamp: prev.timestamp + d * DAY_MS, price });
+        }
+        filled.push(next);
+    }
+    return filled;
+}
+
+/**
+ * 缺漏處理方式的文字描述
+ */
+export const GAP_HANDLING_LABELS: Record<GapHandling, string> = {
+    skip: '略過 (缺漏日不交易)',
+    ffill: '沿用前一日價格',
+    interpolate: '線性內插',
+    abort: '中止回測',
+};
+
+/**
+ * 分析原始價格資料
+ *
+ * 邏輯說明：
+ * 1. 無效價格 (0、負數、非數字) 與同日重複資料
+ * 2. 每日聚合後的缺口與缺漏天數
+ * 3. 單日跳動超過 spikeThreshold 的可疑價格
+ * 4. 間隔大於 1 天的比例 (例如 CoinGecko 長歷史的 4 日粒度)
+ */
+export function analyzePriceData(prices: PriceDataPoint[], options: DataQualityOptions = {}): DataQualityReport {
+    const spikeThreshold = options.spikeThreshold ?? 0.5;
+
+    // 1. 無效價格與重複資料 (與回測的 prepareDailyPrices 使用同一個正規化步驟)
+    const { daily, invalidPrices, duplicates } = normalizeDailyPrices(prices);
+
+    // 2. 缺口
+    const gaps = findGaps(daily);
+    const missingDays = gaps.reduce((sum, g) => sum + g.missingDays, 0);
+
+    // 3. 異常跳動 (只比較相鄰的兩天，避免把缺口造成的累積漲跌當成異常)
+    const spikes: PriceSpike[] = [];
+    for (let i = 1; i < daily.length; i++) {
+        const days = Math.round((startOfUtcDay(daily[i].timestamp) - startOfUtcDay(daily[i - 1].timestamp)) / DAY_MS);
+        if (days !== 1) continue;
+        const change = daily[i].price / daily[i - 1].price - 1;
+        if (Math.abs(change) >= spikeThreshold) {
+            spikes.push({ timestamp: daily[i].timestamp, change });
+        }
+    }
+
+    // 4. 粒度
+    const intervals = Math.max(0, daily.length - 1);
+    const coarseShare = intervals > 0 ? gaps.length / intervals : 0;
+
+    const issues: DataQualityIssue[] = [];
+    if (invalidPrices > 0) {
+        issues.push({ type: 'invalidPrice', severity: 'warning', message: `${invalidPrices} 筆價格為 0、負數或無效，已排除` });
+    }
+    if (coarseShare >= COARSE_SHARE_WARNING) {
+        issues.push({
+            type: 'granularity',
+            severity: 'warning',
+            message: `${(coarseShare * 100).toFixed(0)}% 的資料間隔超過 1 天 (混合或非每日粒度)，定投日可能被順延或略過`
+        });
+    }
+    if (missingDays > 0) {
+        const largest = gaps.reduce((max, g) => (g.missingDays > max.missingDays ? g : max), gaps[0]);
+        issues.push({
+            type: 'missingDays',
+            severity: 'warning',
+            message: `缺少 ${missingDays.toLocaleString()} 天資料 (${gaps.length} 個缺口，最長 ${largest.missingDays} 天：${new Date(largest.start).toLocaleDateString('zh-TW')} ~ ${new Date(largest.end).toLocaleDateString('zh-TW')})`
+        });
+    }
+    if (spikes.length > 0) {
+        issues.push({
+            type: 'spike',
+            severity: 'warning',
+            message: `${spikes.length} 天單日漲跌超過 ±${(spikeThreshold * 100).toFixed(0)}%，請確認是否為資料錯誤`
+        });
+    }
+    if (duplicates > 0) {
+        issues.push({ type: 'duplicate', severity: 'info', message: `${duplicates} 筆同日重複資料，已保留當日最後一筆` });
+    }
+
+    return {
+        totalPoints: prices.length,
+        dailyPoints: daily.length,
+        missingDays,
+        gaps,
+        invalidPrices,
+        duplicates,
+        spikes,
+        coarseShare,
+        issues
+    };
+}
@@ -0,0 +1,219 @@
+/* ===================================
+   跌幅參考點
+   歷史 ATH 以外的跌幅計算方式：滾動高點、移動平均、持倉均價、循環 ATH 與反彈重置高點
+=================================== */
+
+import type { DrawdownReference, PriceDataPoint, TradeRecord } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_DRAWDOWN_REFERENCE: DrawdownReference = { type: 'ath' };
+
+/**
+ * 各參考點的預設設定 (切換類型時使用)
+ */
+export const DEFAULT_REFERENCES: Record<DrawdownReference['type'], DrawdownReference> = {
+    ath: { type: 'ath' },
+    rollingHigh: { type: 'rollingHigh', days: 365 },
+    movingAverage: { type: 'movingAverage', days: 200 },
+    costBasis: { type: 'costBasis' },
+    cycleReset: { type: 'cycleReset', bearDrawdown: 0.5 },
+    reboundReset: { type: 'reboundReset', bearDrawdown: 0.5 },
+};
+
+export const DRAWDOWN_REFERENCE_LABELS: Record<DrawdownReference['type'], string> = {
+    ath: '歷史最高價 (ATH)',
+    rollingHigh: '滾動 N 日高點',
+    movingAverage: '距移動平均線',
+    costBasis: '低於持倉均價',
+    cycleReset: '循環 ATH (熊市後創新高重置)',
+    reboundReset: '反彈重置高點 (熊市反彈後重置)',
+};
+
+/**
+ * 逐日追蹤參考價
+ * update 需依時間順序呼叫 (含回測開始日之前的歷史)，reference 取得當日的參考價
+ */
+export interface ReferenceTracker {
+    update: (timestamp: number, price: number) => void;
+    reference: (price: number, averageCost: number) => number;
+}
+
+/**
+ * 參考點的簡短名稱 (用於表頭與圖例)
+ */
+export function getReferenceShortLabel(reference: DrawdownReference = DEFAULT_DRAWDOWN_REFERENCE): string {
+    switch (reference.type) {
+        case 'ath': return 'ATH';
+        case 'rollingHigh': return `${reference.days} 日高點`;
+        case 'movingAverage': return `${reference.days} 日均線`;
+        case 'costBasis': return '持倉均價';
+        case 'cycleReset': return '循環高點';
+        case 'reboundReset': return '重置高點';
+    }
+}
+
+/**
+ * 參考點的文字描述
+ */
+export function describeDrawdownReference(reference: DrawdownReference = DEFAULT_DRAWDOWN_REFERENCE): string {
+    switch (reference.type) {
+        case 'ath': return '相對歷史最高價';
+        case 'rollingHigh': return `相對最近 ${reference.days} 天最高價`;
+        case 'movingAverage': return `相對 ${reference.days} 日均線`;
+        case 'costBasis': return '相對持倉均價';
+        case 'cycleReset': return `跌幅達 ${(reference.bearDrawdown * 100).toFixed(0)}% 後，創新高時開始新循環`;
+        case 'reboundReset': {
+            const percent = (reference.bearDrawdown * 100).toFixed(0);
+            return `下跌 ${percent}% 後自低點反彈 ${percent}% 即重置高點`;
+        }
+    }
+}
+
+/**
+ * 相對參考價的跌幅 (負數 = 低於參考價)
+ */
+export function drawdownFrom(price: number, reference: number): number {
+    return reference > 0 ? (price - reference) / reference : 0;
+}
+
+/**
+ * 建立參考價追蹤器
+ *
+ * 邏輯說明：
+ * - rollingHigh: 單調佇列保留 N 天內的高點候選
+ * - movingAverage: 保留 N 天內的價格與總和 (資料不足 N 天時以現有資料平均)
+ * - costBasis: 直接使用呼叫端傳入的持倉均價，無持倉時以當日價格為參考 (跌幅 0)
+ * - cycleReset: 自循環高點下跌達 bearDrawdown 視為熊市；熊市後價格超過熊市前的高點時開始新循環，
+ *   以創新高的價格作為新循環的高點
+ * - reboundReset: 自高點下跌達 bearDrawdown 視為熊市；之後自最低點反彈同樣比例時即重置，
+ *   以當時價格 (而非等到創新高) 作為新的高點，避免熊市過後多年仍以前一輪高點計算跌幅
+ */
+export function createReferenceTracker(reference: DrawdownReference = DEFAULT_DRAWDOWN_REFERENCE): ReferenceTracker {
+    switch (reference.type) {
+        case 'rollingHigh': {
+            const windowMs = Math.max(1, reference.days) * DAY_MS;
+            const candidates: PriceDataPoint[] = [];
+            let head = 0;
+            return {
+                update(timestamp, price) {
+                    while (candidates.length > head && candidates[candidates.length - 1].price <= price) {
+                        candidates.pop();
+                    }
+                    candidates.push({ timestamp, price });
+                    while (candidates[head].timestamp <= timestamp - windowMs) head++;
+                },
+                reference: () => candidates[head]?.price ?? 0
+            };
+        }
+        case 'movingAverage': {
+            const windowMs = Math.max(1, reference.days) * DAY_MS;
+            const window: PriceDataPoint[] = [];
+            let head = 0;
+            let sum = 0;
+            return {
+                update(timestamp, price) {
+                    window.push({ timestamp, price });
+                    sum += price;
+                    while (window[head].timestamp <= timestamp - windowMs) {
+                        sum -= window[head].price;
+                        head++;
+                    }
+                },
+                reference: () => (window.length > head ? sum / (window.length - head) : 0)
+            };
+        }
+        case 'costBasis':
+            return {
+                update() { },
+                reference: (price, averageCost) => (averageCost > 0 ? averageCost : price)
+            };
+        case 'cycleReset': {
+            const bear = Math.min(Math.max(reference.bearDrawdown, 0.01), 0.99);
+            let cycleHigh = 0;
+            let inBear = false;       // 已自循環高點下跌達 bearDrawdown
+            return {
+                update(_timestamp, price) {
+                    if (price > cycleHigh) {
+                        cycleHigh = price;
+                        inBear = false;
+                        return;
+                    }
+                    if (!inBear && drawdownFrom(price, cycleHigh) <= -bear) inBear = true;
+                },
+                reference: () => cycleHigh
+            };
+        }
+        case 'reboundReset': {
+            const bear = Math.min(Math.max(reference.bearDrawdown, 0.01), 0.99);
+            let cycleHigh = 0;
+            let cycleLow = Infinity;  // 熊市成立後的最低價
+            let inBear = false;
+            return {
+                update(_timestamp, price) {
+                    if (price > cycleHigh) {
+                        cycleHigh = price;
+                        inBear = false;
+                        cycleLow = Infinity;
+                        return;
+                    }
+                    if (!inBear && drawdownFrom(price, cycleHigh) <= -bear) inBear = true;
+                    if (!inBear) return;
+
+                    cycleLow = Math.min(cycleLow, price);
+                    if (price >= cycleLow * (1 + bear)) {
+                        cycleHigh = price;
+                        inBear = false;
+                        cycleLow = Infinity;
+                    }
+                },
+                reference: () => cycleHigh
+            };
+        }
+        case 'ath':
+        default: {
+            let ath = 0;
+            return {
+                update(_timestamp, price) { ath = Math.max(ath, price); },
+                reference: () => ath
+            };
+        }
+    }
+}
+
+/**
+ * 計算整段價格的參考價與跌幅 (圖表用)
+ * costBasis 模式依交易紀錄重建每日的持倉均價 (當日交易之前的均價，與回測一致)
+ */
+export function computeDrawdownSeries(
+    prices: PriceDataPoint[],
+    reference: DrawdownReference = DEFAULT_DRAWDOWN_REFERENCE,
+    trades: TradeRecord[] = []
+): { timestamp: number; reference: number; drawdown: number }[] {
+    const tracker = createReferenceTracker(reference);
+    const tradesByTimestamp = new Map<number, TradeRecord[]>();
+    trades.forEach(t => {
+        const key = t.date.getTime();
+        tradesByTimestamp.set(key, [...(tradesByTimestamp.get(key) ?? []), t]);
+    });
+
+    let coins = 0;
+    let costBasis = 0;
+    return prices.map(p => {
+        tracker.update(p.timestamp, p.price);
+        const referencePrice = tracker.reference(p.price, coins > 0 ? costBasis / coins : 0);
+
+        tradesByTimestamp.get(p.timestamp)?.forEach(t => {
+            if (t.side === 'buy') {
+                coins += t.coinsBought;
+                costBasis += t.amount;
+            } else if (coins > 0) {
+                const sold = t.coinsSold ?? 0;
+                costBasis -= sold * (costBasis / coins);
+                coins -= sold;
+            }
+        });
+
+        return { timestamp: p.timestamp, reference: referencePrice, drawdown: drawdownFrom(p.price, referencePrice) };
+    });
+}
@@ -0,0 +1,73 @@
+/* ===================================
+   交易成本計算
+   手續費、固定費用與價差/滑價
+=================================== */
+
+import type { CostModel } from '../types';
+
+/**
+ * 交易所費率預設
+ */
+export interface FeePreset extends CostModel {
+    presetId: string;
+    name: string;
+}
+
+/**
+ * 常見交易所的現貨 Taker 費率 (一般用戶等級，實際費率依帳戶等級而定)
+ */
+export const FEE_PRESETS: FeePreset[] = [
+    { presetId: 'none', name: '無成本', feePercent: 0, fixedFee: 0, slippageBps: 0 },
+    { presetId: 'binance', name: 'Binance', feePercent: 0.001, fixedFee: 0, slippageBps: 5 },
+    { presetId: 'coinbase', name: 'Coinbase Advanced', feePercent: 0.006, fixedFee: 0, slippageBps: 10 },
+    { presetId: 'kraken', name: 'Kraken Pro', feePercent: 0.004, fixedFee: 0, slippageBps: 10 },
+    { presetId: 'coinbase-simple', name: 'Coinbase 定期定額', feePercent: 0.0149, fixedFee: 0.99, slippageBps: 50 },
+];
+
+/**
+ * 成交結果
+ */
+export interface FillResult {
+    coins: number;            // 成交數量
+    amount: number;           // 買入: 實際支出；賣出: 實際所得 (USD)
+    executionPrice: number;   // 含滑價的成交價
+    fee: number;              // 交易成本 (相對於無成本成交的差額，USD)
+}
+
+/**
+ * 以指定金額買入
+ * 先扣手續費，剩餘金額以滑價後價格成交
+ */
+export function fillBuy(amount: number, price: number, model?: CostModel): FillResult {
+    if (!model) {
+        return { coins: amount / price, amount, executionPrice: price, fee: 0 };
+    }
+
+    const executionPrice = price * (1 + model.slippageBps / 10000);
+    const commission = amount * model.feePercent + model.fixedFee;
+    const netAmount = amount - commission;
+
+    // 金額不足以支付手續費，視為無法成交
+    if (netAmount <= 0) {
+        return { coins: 0, amount: 0, executionPrice, fee: 0 };
+    }
+
+    const coins = netAmount / executionPrice;
+    return { coins, amount, executionPrice, fee: amount - coins * price };
+}
+
+/**
+ * 賣出指定數量
+ * 以滑價後價格成交，再扣除手續費
+ */
+export function fillSell(coins: number, price: number, model?: CostModel): FillResult {
+    if (!model) {
+        return { coins, amount: coins * price, executionPrice: price, fee: 0 };
+    }
+
+    const executionPrice = price * (1 - model.slippageBps / 10000);
+    const gross = coins * executionPrice;
+    const proceeds = Math.max(0, gross - (gross * model.feePercent + model.fixedFee));
+
+    return { coins, amount: proceeds, executionPrice, fee: coins * price - proceeds };
+}
@@ -0,0 +1,128 @@
+/* ===================================
+   績效指標計算
+   XIRR、時間加權報酬與風險調整指標
+=================================== */
+
+import type { PerformanceMetrics } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365; // 加密貨幣全年交易
+
+/**
+ * 現金流 (投資人角度：投入為負、取回為正)
+ */
+export interface CashFlow {
+    timestamp: number;
+    amount: number;
+}
+
+/**
+ * 每日報酬累加器 (不保留序列，Lite Mode 也能使用)
+ */
+export interface ReturnAccumulator {
+    count: number;            // 報酬筆數
+    sum: number;              // 報酬總和
+    sumSq: number;            // 報酬平方和
+    downsideSumSq: number;    // 負報酬平方和 (Sortino 用)
+    growth: number;           // 累乘成長 (1 + r) -> TWR
+}
+
+export function createReturnAccumulator(): ReturnAccumulator {
+    return { count: 0, sum: 0, sumSq: 0, downsideSumSq: 0, growth: 1 };
+}
+
+/**
+ * 加入一筆每日報酬
+ */
+export function addReturn(acc: ReturnAccumulator, r: number): void {
+    if (!isFinite(r)) return;
+    acc.count++;
+    acc.sum += r;
+    acc.sumSq += r * r;
+    if (r < 0) acc.downsideSumSq += r * r;
+    acc.growth *= 1 + r;
+}
+
+/**
+ * 計算 XIRR (資金加權年化報酬)
+ * 以牛頓法求解 NPV = 0，不收斂時改用二分法；無解時回傳 NaN
+ */
+export function xirr(flows: CashFlow[]): number {
+    if (flows.length < 2) return NaN;
+    const hasNegative = flows.some(f => f.amount < 0);
+    const hasPositive = flows.some(f => f.amount > 0);
+    if (!hasNegative || !hasPositive) return NaN;
+
+    const t0 = flows[0].timestamp;
+    const years = flows.map(f => (f.timestamp - t0) / DAY_MS / DAYS_PER_YEAR);
+
+    const npv = (rate: number) => flows.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, years[i]), 0);
+    const dNpv = (rate: number) => flows.reduce((sum, f, i) => sum - years[i] * f.amount / Math.pow(1 + rate, years[i] + 1), 0);
+
+    // 1. 牛頓法
+    let rate = 0.1;
+    for (let i = 0; i < 50; i++) {
+        const value = npv(rate);
+        const derivative = dNpv(rate);
+        if (Math.abs(value) < 1e-7) return rate;
+        if (derivative === 0) break;
+        const next = rate - value / derivative;
+        if (!isFinite(next) || next <= -1) break;
+        if (Math.abs(next - rate) < 1e-10) return next;
+        rate = next;
+    }
+
+    // 2. 二分法 (區間 -99.99% ~ +10000%)
+    let low = -0.9999;
+    let high = 100;
+    let npvLow = npv(low);
+    if (npvLow * npv(high) > 0) return NaN;
+    for (let i = 0; i < 200; i++) {
+        const mid = (low + high) / 2;
+        const npvMid = npv(mid);
+        if (Math.abs(npvMid) < 1e-7) return mid;
+        if (npvLow * npvMid < 0) {
+            high = mid;
+        } else {
+            low = mid;
+            npvLow = npvMid;
+        }
+    }
+    return (low + high) / 2;
+}
+
+/**
+ * 彙整績效指標
+ *
+ * - XIRR: 依買入 / 賣出現金流與期末持倉市值計算
+ * - TWR、波動率、Sharpe、Sortino: 依投資組合 (現金 + 持倉) 的每日報酬，無風險利率以 0 計
+ * - Calmar: 年化 TWR / |投資組合最大回撤|
+ * 分母為 0 的比率回傳 0
+ */
+export function summarizePerformance(
+    acc: ReturnAccumulator,
+    flows: CashFlow[] | null,
+    periodDays: number,
+    portfolioMaxDrawdown: number // 百分比 (負數)
+): PerformanceMetrics {
+    const twr = acc.growth - 1;
+    const annualizedTwr = periodDays > 0 && acc.growth > 0
+        ? Math.pow(acc.growth, DAYS_PER_YEAR / periodDays) - 1
+        : 0;
+
+    const mean = acc.count > 0 ? acc.sum / acc.count : 0;
+    const variance = acc.count > 1 ? (acc.sumSq - acc.count * mean * mean) / (acc.count - 1) : 0;
+    const volatility = Math.sqrt(Math.max(0, variance) * DAYS_PER_YEAR);
+    const downsideDeviation = acc.count > 0 ? Math.sqrt((acc.downsideSumSq / acc.count) * DAYS_PER_YEAR) : 0;
+    const annualMean = mean * DAYS_PER_YEAR;
+
+    return {
+        xirr: flows ? xirr(flows) * 100 : NaN,
+        twr: twr * 100,
+        annualizedTwr: annualizedTwr * 100,
+        volatility: volatility * 100,
+        sharpe: volatility > 0 ? annualMean / volatility : 0,
+        sortino: downsideDeviation > 0 ? annualMean / downsideDeviation : 0,
+        calmar: portfolioMaxDrawdown < 0 ? (annualizedTwr * 100) / Math.abs(portfolioMaxDrawdown) : 0,
+    };
+}
@@ -0,0 +1,244 @@
+/* ===================================
+   蒙地卡羅模擬
+   在大量模擬價格路徑上執行策略，統計結果分佈並與純定投比較
+=================================== */
+
+import type { BacktestConfig, BacktestResult, DrawdownTier, PriceDataPoint } from '../types';
+import { prepareDailyPrices, runBacktest } from './calculator';
+import { dailyLogReturns, generateLogReturns } from './synthetic';
+import type { SyntheticModel } from './synthetic';
+import { createRandom, randomSeed } from './random';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 30.44;
+const MAX_FAN_POINTS = 200; // 扇形圖取樣點上限
+const BATCH_SIZE = 20;      // 每批路徑數 (批次間讓出執行緒以處理取消)
+
+export const MONTE_CARLO_CANCELLED = 'MONTE_CARLO_CANCELLED';
+export const MONTE_CARLO_ERROR = 'MONTE_CARLO_ERROR';
+
+export interface MonteCarloOptions {
+    paths: number;            // 模擬路徑數
+    model: SyntheticModel;    // 回測區間內的價格模型 (bootstrap = 重抽樣該幣種歷史報酬)
+    seed?: number;            // 未指定時隨機產生
+}
+
+/**
+ * 單一路徑的結果
+ */
+export interface PathOutcome {
+    roi: number;
+    totalCoins: number;
+    averagePrice: number;
+    portfolioMaxDrawdown: number;
+    finalValue: number;       // 期末總資產 (現金 + 持倉市值)
+    depletedAfterDays: number | null; // 資金枯竭時距開始日的天數 (未枯竭為 null)
+}
+
+export type OutcomeMetric = Exclude<keyof PathOutcome, 'depletedAfterDays'>;
+
+/**
+ * 分佈摘要
+ */
+export interface Percentiles {
+    mean: number;
+    p5: number;
+    p25: number;
+    p50: number;
+    p75: number;
+    p95: number;
+}
+
+/**
+ * 扇形圖 (各取樣日的總資產分位數)
+ */
+export interface FanChart {
+    timestamps: number[];
+    strategy: Percentiles[];
+    benchmark: Percentiles[];
+}
+
+export interface MonteCarloResult {
+    seed: number;
+    paths: number;
+    model: SyntheticModel;
+    startTimestamp: number;
+    windowDays: number;       // 模擬的回測天數
+    strategy: PathOutcome[];
+    benchmark: PathOutcome[]; // 相同路徑上的純定投
+    fan: FanChart;
+}
+
+export interface MonteCarloControl {
+    isCancelled: () => boolean;
+}
+
+export type MonteCarloProgressCallback = (completedPaths: number, totalPaths: number) => void;
+
+/**
+ * 計算分位數 (線性內插)
+ */
+function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return 0;
+    const index = (sorted.length - 1) * p;
+    const lower = Math.floor(index);
+    const upper = Math.ceil(index);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * 數值陣列的分佈摘要
+ */
+export function summarizeDistribution(values: number[]): Percentiles {
+    const sorted = values.filter(v => isFinite(v)).sort((a, b) => a - b);
+    const mean = sorted.length > 0 ? sorted.reduce((sum, v) => sum + v, 0) / sorted.length : 0;
+    return {
+        mean,
+        p5: percentile(sorted, 0.05),
+        p25: percentile(sorted, 0.25),
+        p50: percentile(sorted, 0.5),
+        p75: percentile(sorted, 0.75),
+        p95: percentile(sorted, 0.95),
+    };
+}
+
+/**
+ * 在 months 個月內資金枯竭的機率 (0-1)
+ */
+export function depletionProbability(outcomes: PathOutcome[], months: number): number {
+    if (outcomes.length === 0) return 0;
+    const limit = months * DAYS_PER_MONTH;
+    return outcomes.filter(o => o.depletedAfterDays !== null && o.depletedAfterDays <= limit).length / outcomes.length;
+}
+
+function toOutcome(result: BacktestResult, config: BacktestConfig): PathOutcome {
+    // 剩餘現金 = 初始資金 + 累計入金 - 累計投入 + 累計賣出所得
+    const cash = config.initialCapital + result.totalContributions - result.totalInvested + result.totalProceeds;
+    return {
+        roi: result.roi,
+        totalCoins: result.totalCoins,
+        averagePrice: result.averagePrice,
+        portfolioMaxDrawdown: result.portfolioMaxDrawdown,
+        finalValue: cash + result.finalValue,
+        depletedAfterDays: result.fundsDepletedDate
+            ? Math.round((result.fundsDepletedDate.getTime() - config.startDate.getTime()) / DAY_MS)
+            : null
+    };
+}
+
+/**
+ * 執行蒙地卡羅模擬
+ *
+ * 邏輯說明：
+ * 1. 開始日之前沿用真實歷史 (保留 ATH 脈絡)，開始日之後以模型產生新路徑
+ * 2. 每條路徑以 Lite Mode 執行策略與純定投，並取樣每日總資產畫扇形圖
+ * 3. 純定投跑完整區間並以總資產 (現金 + 持倉) 比較，不因策略資金耗盡而提前結算
+ * 4. 使用種子亂數，相同種子與設定可重現同一組路徑
+ */
+export async function runMonteCarlo(
+    prices: PriceDataPoint[],
+    config: BacktestConfig,
+    tiers: DrawdownTier[],
+    options: MonteCarloOptions,
+    onProgress?: MonteCarloProgressCallback,
+    control?: MonteCarloControl
+): Promise<MonteCarloResult> {
+    const paths = Math.floor(options.paths);
+    if (!isFinite(paths) || paths < 1) {
+        throw { code: MONTE_CARLO_ERROR, message: '模擬路徑數至少需要 1 條' };
+    }
+
+    // 1. 切分真實歷史與模擬區間
+    const daily = prepareDailyPrices(prices, config);
+    const startTimestamp = config.startDate.getTime();
+    const startIndex = daily.findIndex(p => p.timestamp >= startTimestamp);
+    if (startIndex < 0) {
+        throw { code: MONTE_CARLO_ERROR, message: '回測開始日之後沒有價格資料' };
+    }
+    const history = daily.slice(0, startIndex + 1); // 含開始日的真實價格作為起點
+    const anchor = history[history.length - 1];
+    const lastTimestamp = Math.min(config.endDate.getTime(), daily[daily.length - 1].timestamp);
+    const windowDays = Math.round((lastTimestamp - anchor.timestamp) / DAY_MS);
+    if (windowDays < 1) {
+        throw { code: MONTE_CARLO_ERROR, message: '回測區間太短，無法模擬' };
+    }
+
+    const sourceReturns = options.model.type === 'bootstrap' ? dailyLogReturns(daily) : [];
+    const seed = options.seed ?? randomSeed();
+    const random = createRandom(seed);
+
+    // 路徑結束日與實際資料一致，避免模擬到未來
+    const pathConfig: BacktestConfig = { ...config, endDate: new Date(lastTimestamp) };
+    const benchmarkConfig: BacktestConfig = { ...pathConfig, sellTiers: [], multiplierCurve: undefined };
+
+    // 扇形圖取樣 (sampleValues[取樣點][路徑])
+    const sampleEvery = Math.max(1, Math.ceil(windowDays / MAX_FAN_POINTS));
+    const sampleDays: number[] = [];
+    for (let d = 0; d <= windowDays; d += sampleEvery) sampleDays.push(d);
+    if (sampleDays[sampleDays.length - 1] !== windowDays) sampleDays.push(windowDays);
+    const sampleIndex = new Map(sampleDays.map((d, i) => [d, i]));
+    const strategySamples: number[][] = sampleDays.map(() => []);
+    const benchmarkSamples: number[][] = sampleDays.map(() => []);
+
+    const recordInto = (samples: number[][]) => (timestamp: number, totalValue: number) => {
+        const index = sampleIndex.get(Math.round((timestamp - anchor.timestamp) / DAY_MS));
+        if (index !== undefined) samples[index].push(totalValue);
+    };
+
+    const strategy: PathOutcome[] = [];
+    const benchmark: PathOutcome[] = [];
+
+    // 2. 逐批模擬
+    for (let i = 0; i < paths; i += BATCH_SIZE) {
+        const batchEnd = Math.min(i + BATCH_SIZE, paths);
+        for (let j = i; j < batchEnd; j++) {
+            const returns = generateLogReturns(options.model, windowDays, random, sourceReturns);
+            const path = history.slice();
+            let logPrice = Math.log(anchor.price);
+            returns.forEach((r, d) => {
+                logPrice += r;
+                path.push({ timestamp: anchor.timestamp + (d + 1) * DAY_MS, price: Math.exp(logPrice) });
+            });
+
+            const strategyResult = runBacktest(path, pathConfig, tiers, {
+                liteMode: true,
+                preAggregated: true,
+                onDailyValue: recordInto(strategySamples)
+            });
+            const benchmarkResult = runBacktest(path, benchmarkConfig, [], {
+                liteMode: true,
+                preAggregated: true,
+                onDailyValue: recordInto(benchmarkSamples)
+            });
+
+            strategy.push(toOutcome(strategyResult, pathConfig));
+            benchmark.push(toOutcome(benchmarkResult, benchmarkConfig));
+        }
+
+        onProgress?.(batchEnd, paths);
+
+        // 每批讓出執行緒，讓取消訊息得以處理
+        await new Promise(r => setTimeout(r, 0));
+        if (control?.isCancelled()) {
+            throw { code: MONTE_CARLO_CANCELLED, message: '模擬已取消' };
+        }
+    }
+
+    // 3. 扇形圖分位數
+    const fan: FanChart = {
+        timestamps: sampleDays.map(d => anchor.timestamp + d * DAY_MS),
+        strategy: strategySamples.map(summarizeDistribution),
+        benchmark: benchmarkSamples.map(summarizeDistribution),
+    };
+
+    return {
+        seed,
+        paths,
+        model: options.model,
+        startTimestamp: anchor.timestamp,
+        windowDays,
+        strategy,
+        benchmark,
+        fan
+    };
+}
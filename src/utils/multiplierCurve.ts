@@ -0,0 +1,87 @@
+/* ===================================
+   倍率曲線
+   階梯級距以外的倍率計算：級距間線性內插與公式曲線
+=================================== */
+
+import type { DrawdownTier, MultiplierCurve } from '../types';
+
+/**
+ * 不使用級距表的公式曲線
+ */
+export type FormulaCurve = Extract<MultiplierCurve, { type: 'power' | 'exponential' }>;
+
+export const DEFAULT_MULTIPLIER_CURVE: MultiplierCurve = { type: 'step' };
+
+/**
+ * 各曲線類型的預設設定 (切換類型時使用)
+ * power 預設在 -30% 約為 2x、-60% 約為 4x
+ */
+export const DEFAULT_CURVES: Record<MultiplierCurve['type'], MultiplierCurve> = {
+    step: { type: 'step' },
+    linear: { type: 'linear' },
+    power: { type: 'power', k: 5, p: 1, min: 1, max: 5 },
+    exponential: { type: 'exponential', k: 2.5, min: 1, max: 5 },
+};
+
+export const MULTIPLIER_CURVE_LABELS: Record<MultiplierCurve['type'], string> = {
+    step: '階梯式 (級距表)',
+    linear: '線性內插 (級距表)',
+    power: '冪次公式 1 + k·|跌幅|^p',
+    exponential: '指數公式 e^(k·|跌幅|)',
+};
+
+export function isFormulaCurve(curve?: MultiplierCurve): curve is FormulaCurve {
+    return curve?.type === 'power' || curve?.type === 'exponential';
+}
+
+/**
+ * 倍率曲線的文字描述
+ */
+export function describeMultiplierCurve(curve: MultiplierCurve = DEFAULT_MULTIPLIER_CURVE): string {
+    switch (curve.type) {
+        case 'step': return '跌幅落在兩級距之間時取較淺級距的倍率';
+        case 'linear': return '相鄰級距之間線性內插';
+        case 'power': return `1 + ${curve.k}·|跌幅|^${curve.p}，限制 ${curve.min}x ~ ${curve.max}x`;
+        case 'exponential': return `e^(${curve.k}·|跌幅|)，限制 ${curve.min}x ~ ${curve.max}x`;
+    }
+}
+
+/**
+ * 級距間線性內插
+ *
+ * 邏輯說明：
+ * 1. 按閾值升序排序 (最深的級距在前)
+ * 2. 比最深級距更深：沿用最深級距的倍率
+ * 3. 落在兩個級距之間：依跌幅位置內插兩者的倍率
+ * 4. 高於最淺級距：與階梯式相同，使用基礎倍率 1x
+ */
+export function interpolateMultiplier(drawdown: number, tiers: DrawdownTier[]): number {
+    const sortedTiers = [...tiers].sort((a, b) => a.threshold - b.threshold);
+    if (sortedTiers.length === 0) return 1;
+
+    if (drawdown <= sortedTiers[0].threshold) return sortedTiers[0].multiplier;
+
+    for (let i = 1; i < sortedTiers.length; i++) {
+        const deeper = sortedTiers[i - 1];
+        const shallower = sortedTiers[i];
+        if (drawdown <= shallower.threshold) {
+            const span = shallower.threshold - deeper.threshold;
+            if (span <= 0) return shallower.multiplier;
+            const t = (drawdown - deeper.threshold) / span;
+            return deeper.multiplier + t * (shallower.multiplier - deeper.multiplier);
+        }
+    }
+
+    return 1;
+}
+
+/**
+ * 公式曲線倍率 (高於參考價時 |跌幅| 視為 0)
+ */
+export function formulaMultiplier(drawdown: number, curve: FormulaCurve): number {
+    const depth = Math.max(0, -drawdown);
+    const raw = curve.type === 'power'
+        ? 1 + curve.k * Math.pow(depth, curve.p)
+        : Math.exp(curve.k * depth);
+    return Math.min(curve.max, Math.max(curve.min, raw));
+}
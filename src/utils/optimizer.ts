@@ -1,17 +1,22 @@
 /* ===================================
    Strategy Optimizer - Genetic Algorithm
    Finds the optimal DCA strategy using evolutionary computation.
-   Constraint: Monotonically increasing multipliers.
+   Constraint: Monotonically increasing multipliers (configurable).
 =================================== */
 
 import type { BacktestConfig, PriceDataPoint, DrawdownTier } from '../types';
-import { runBacktest, aggregateDailyPrices } from './calculator';
+import { runBacktest, runBenchmarkBacktest, prepareDailyPrices } from './calculator';
+import { isFormulaCurve } from './multiplierCurve';
+import type { FormulaCurve } from './multiplierCurve';
+import { createRandom, randomSeed } from './random';
+import type { RandomSource } from './random';
 
 // --- Types ---
 export interface StrategyGenome {
     genes: number[];
     fitness: number;
-    tiers: DrawdownTier[];
+    tiers: DrawdownTier[];     // Empty for formula curve genomes
+    curve?: FormulaCurve;      // Formula curve genomes only: the evolved curve
     totalCoins?: number;
     averagePrice?: number;
     fundsDepletedDate?: Date;
@@ -19,53 +24,278 @@ export interface StrategyGenome {
     executionStartDate?: Date; // Added
     executionEndDate?: Date;   // Added
     labels?: string[];         // Added: e.g. ["Highest ROI", "Most Accumulated"]
+    portfolioMaxDrawdown?: number;
+    objectives?: ObjectiveValues; // Multi-objective scores (all maximized)
+    rank?: number;             // Pareto front index (0 = non-dominated)
+    crowding?: number;         // Crowding distance within its front
+    validation?: StrategyValidation; // In-sample vs out-of-sample scores (validated runs only)
+}
+
+// --- Validation ---
+
+/**
+ * Out-of-sample validation scheme.
+ * - holdout: optimize on the start of the window, test on the last `testFraction`
+ * - walkForward: split into `folds + 1` segments, optimize on N and test on N + 1, rolling forward
+ */
+export type ValidationScheme =
+    | { type: 'none' }
+    | { type: 'holdout'; testFraction: number }
+    | { type: 'walkForward'; folds: number };
+
+/**
+ * Strategy vs plain DCA over one sample window.
+ */
+export interface SampleMetrics {
+    startDate: Date;
+    endDate: Date;
+    roi: number;
+    benchmarkRoi: number;
+    excessRoi: number;        // roi - benchmarkRoi (percentage points)
+    totalCoins: number;
+    portfolioMaxDrawdown: number;
+}
+
+export interface StrategyValidation {
+    inSample: SampleMetrics;
+    outOfSample: SampleMetrics;
+    collapsed: boolean;       // Lost most of its in-sample edge out of sample
+}
+
+/**
+ * One train/test split and the champions optimized on its training window.
+ */
+export interface ValidationFold {
+    trainStart: Date;
+    trainEnd: Date;
+    testStart: Date;
+    testEnd: Date;
+    champions: StrategyGenome[];
+}
+
+// --- Multi-objective ---
+export type ObjectiveKey = 'roi' | 'totalCoins' | 'portfolioDrawdown' | 'runway';
+export type ObjectiveValues = Record<ObjectiveKey, number>;
+
+/**
+ * Objectives evolved in Pareto mode. Every objective is maximized:
+ * portfolio drawdown is negative (closer to 0 is better), runway is the
+ * number of days the capital lasted within the backtest window.
+ */
+export const OBJECTIVES: { key: ObjectiveKey; label: string; unit: string }[] = [
+    { key: 'roi', label: 'ROI', unit: '%' },
+    { key: 'totalCoins', label: '囤幣數量', unit: '' },
+    { key: 'portfolioDrawdown', label: '組合最大回撤', unit: '%' },
+    { key: 'runway', label: '資金續航', unit: '天' },
+];
+
+export type OptimizerMode = 'single' | 'pareto';
+
+/**
+ * Search space and GA hyperparameters.
+ * Thresholds are drawdown percentages (e.g. -20); when there are more thresholds
+ * than tiers, the extra shallow thresholds share the first tier's multiplier.
+ * When the base config uses a formula multiplier curve, the genes encode the
+ * curve parameters instead and min/max multiplier become the curve's clamps.
+ */
+export interface OptimizerSettings {
+    thresholds: number[];
+    tierCount: number;
+    minMultiplier: number;
+    maxMultiplier: number;
+    multiplierStep: number;
+    populationSize: number;
+    generations: number;
+    mutationRate: number;
+    crossoverRate: number;
+    elitismCount: number;
+    monotonic: boolean; // Deeper drawdown never buys less
+}
+
+export interface OptimizerOptions extends Partial<OptimizerSettings> {
+    mode?: OptimizerMode; // 'single' evolves on ROI only (default), 'pareto' runs NSGA-II
+    seed?: number;        // PRNG seed; same seed + data + config -> identical results
+    validation?: ValidationScheme; // Default: none (optimize and report on the whole window)
 }
 
 export interface OptimizationResult {
     bestGenome: StrategyGenome;
     generationsRun: number;
     topStrategies: StrategyGenome[]; // Will return [MaxROI, MaxCoins, MinPrice]
+    seed: number;                    // Seed actually used (generated when not provided)
+    paretoFront?: StrategyGenome[];  // Pareto mode only: all non-dominated strategies
+    validationFolds?: ValidationFold[]; // Validated runs only; champions above come from the last fold
 }
 
+/**
+ * Cooperative run control, checked between evaluation batches.
+ * Used by the optimizer worker to pause/resume/cancel a run.
+ */
+export interface OptimizerControl {
+    isCancelled: () => boolean;
+    waitIfPaused: () => Promise<void>;
+}
+
+export type ProgressCallback = (progress: number, generation: number, best: StrategyGenome) => void;
+
+export const OPTIMIZER_CANCELLED = 'OPTIMIZER_CANCELLED';
+export const INVALID_OPTIMIZER_SETTINGS = 'INVALID_OPTIMIZER_SETTINGS';
+
 // --- Constants ---
-const POPULATION_SIZE = 500;
-const GENERATIONS = 50;
-const MUTATION_RATE = 0.1;
-const ELITISM_COUNT = 50;
 const BATCH_SIZE = 50; // New: Process 50 genomes per chunk
 
-// Steps mapping...
-const STEPS_MAPPING = [
-    [-5, -10, -15],
-    [-20], [-25], [-30], [-35],
-    [-40], [-45], [-50], [-55],
-    [-60], [-65], [-70], [-75],
-    [-80], [-85], [-90]
-];
+// Defaults reproduce the original search: 16 genes over -5%..-90%, 1.0x-3.0x in 0.1 steps
+export const DEFAULT_OPTIMIZER_SETTINGS: OptimizerSettings = {
+    thresholds: [-5, -10, -15, -20, -25, -30, -35, -40, -45, -50, -55, -60, -65, -70, -75, -80, -85, -90],
+    tierCount: 16,
+    minMultiplier: 1.0,
+    maxMultiplier: 3.0,
+    multiplierStep: 0.1,
+    populationSize: 500,
+    generations: 50,
+    mutationRate: 0.1,
+    crossoverRate: 1.0,
+    elitismCount: 50,
+    monotonic: true,
+};
+
+/**
+ * Resolved search space used by the GA helpers.
+ */
+interface SearchSpace extends OptimizerSettings {
+    stepsMapping: number[][]; // Thresholds controlled by each gene
+    random: RandomSource;     // Seeded PRNG shared by every random decision of the run
+    curve?: FormulaCurve;     // Formula curve being tuned (genes = its parameters)
+}
+
+interface GeneRange {
+    min: number;
+    max: number;
+    step: number;
+}
+
+// Parameter ranges per formula curve, in gene order
+const CURVE_GENE_RANGES: Record<FormulaCurve['type'], GeneRange[]> = {
+    power: [
+        { min: 0.5, max: 20, step: 0.1 },   // k
+        { min: 0.5, max: 3, step: 0.05 },   // p
+    ],
+    exponential: [
+        { min: 0.1, max: 6, step: 0.05 },   // k
+    ],
+};
+
+/**
+ * Merge options with defaults and validate them.
+ * Throws { code: INVALID_OPTIMIZER_SETTINGS, message } on invalid input.
+ */
+export function resolveOptimizerSettings(options: OptimizerOptions = {}): OptimizerSettings {
+    const { mode: _mode, seed: _seed, validation: _validation, ...overrides } = options;
+    const defined = Object.fromEntries(Object.entries(overrides).filter(([, v]) => v !== undefined));
+    const settings: OptimizerSettings = { ...DEFAULT_OPTIMIZER_SETTINGS, ...defined };
+
+    const thresholds = Array.from(new Set(settings.thresholds.filter(t => isFinite(t) && t < 0 && t > -100)))
+        .sort((a, b) => b - a); // Shallow -> deep
+
+    const fail = (message: string) => {
+        throw { code: INVALID_OPTIMIZER_SETTINGS, message };
+    };
+    if (thresholds.length === 0) fail('至少需要一個介於 -100% 與 0% 之間的回撤門檻');
+    if (!(settings.minMultiplier > 0) || !(settings.maxMultiplier >= settings.minMultiplier)) fail('倍數範圍無效');
+    if (!(settings.multiplierStep > 0)) fail('倍數間距必須大於 0');
+    if (!(settings.populationSize >= 2) || !(settings.generations >= 1)) fail('族群大小至少 2、世代數至少 1');
+
+    return {
+        ...settings,
+        thresholds,
+        tierCount: Math.max(1, Math.min(Math.round(settings.tierCount), thresholds.length)),
+        populationSize: Math.round(settings.populationSize),
+        generations: Math.round(settings.generations),
+        mutationRate: Math.min(1, Math.max(0, settings.mutationRate)),
+        crossoverRate: Math.min(1, Math.max(0, settings.crossoverRate)),
+        elitismCount: Math.max(1, Math.min(Math.round(settings.elitismCount), Math.round(settings.populationSize) - 1)),
+    };
+}
+
+/**
+ * Group thresholds into genes. Extra shallow thresholds go to the first gene,
+ * e.g. 18 thresholds over 16 genes -> [[-5, -10, -15], [-20], ..., [-90]].
+ */
+function buildStepsMapping(thresholds: number[], tierCount: number): number[][] {
+    const firstGroupSize = thresholds.length - tierCount + 1;
+    const mapping = [thresholds.slice(0, firstGroupSize)];
+    for (let i = firstGroupSize; i < thresholds.length; i++) {
+        mapping.push([thresholds[i]]);
+    }
+    return mapping;
+}
 
 // --- Helper Functions ---
-function getRandomMultiplier(): number {
-    const val = 1.0 + Math.random() * 2.0;
-    return Math.round(val * 10) / 10;
+function geneCount(space: SearchSpace): number {
+    return space.curve ? CURVE_GENE_RANGES[space.curve.type].length : space.tierCount;
 }
 
-function generateMonotonicGenome(): StrategyGenome {
-    const genes: number[] = [];
-    for (let i = 0; i < 16; i++) {
-        genes.push(getRandomMultiplier());
+function geneRange(space: SearchSpace, index: number): GeneRange {
+    return space.curve
+        ? CURVE_GENE_RANGES[space.curve.type][index]
+        : { min: space.minMultiplier, max: space.maxMultiplier, step: space.multiplierStep };
+}
+
+function snapGene(space: SearchSpace, index: number, value: number): number {
+    const range = geneRange(space, index);
+    const steps = Math.round((value - range.min) / range.step);
+    const snapped = range.min + steps * range.step;
+    return Number(Math.min(range.max, Math.max(range.min, snapped)).toFixed(4));
+}
+
+function getRandomGene(space: SearchSpace, index: number): number {
+    const range = geneRange(space, index);
+    return snapGene(space, index, range.min + space.random() * (range.max - range.min));
+}
+
+function createGenome(space: SearchSpace, genes: number[]): StrategyGenome {
+    if (space.curve) {
+        return { genes, fitness: -Infinity, tiers: [], curve: genesToCurve(space.curve, space, genes) };
+    }
+    if (space.monotonic) {
+        genes.sort((a, b) => a - b);
     }
-    genes.sort((a, b) => a - b);
     return {
         genes,
         fitness: -Infinity,
-        tiers: genesToTiers(genes)
+        tiers: genesToTiers(space, genes)
     };
 }
 
-function genesToTiers(genes: number[]): DrawdownTier[] {
+function generateGenome(space: SearchSpace): StrategyGenome {
+    const genes: number[] = [];
+    for (let i = 0; i < geneCount(space); i++) {
+        genes.push(getRandomGene(space, i));
+    }
+    return createGenome(space, genes);
+}
+
+/**
+ * Formula curve from genes; the multiplier range bounds the curve.
+ */
+function genesToCurve(base: FormulaCurve, space: SearchSpace, genes: number[]): FormulaCurve {
+    const clamps = { min: space.minMultiplier, max: space.maxMultiplier };
+    return base.type === 'power'
+        ? { type: 'power', k: genes[0], p: genes[1], ...clamps }
+        : { type: 'exponential', k: genes[0], ...clamps };
+}
+
+/**
+ * Backtest config for a genome (formula genomes carry their own curve).
+ */
+function genomeConfig(baseConfig: BacktestConfig, genome: StrategyGenome): BacktestConfig {
+    return genome.curve ? { ...baseConfig, multiplierCurve: genome.curve } : baseConfig;
+}
+
+function genesToTiers(space: SearchSpace, genes: number[]): DrawdownTier[] {
     const tiers: DrawdownTier[] = [];
     genes.forEach((multiplier, geneIndex) => {
-        const thresholds = STEPS_MAPPING[geneIndex];
+        const thresholds = space.stepsMapping[geneIndex];
         thresholds.forEach(threshold => {
             tiers.push({
                 id: `gen_${threshold}`,
@@ -77,114 +307,185 @@ function genesToTiers(genes: number[]): DrawdownTier[] {
     return tiers;
 }
 
-function mutate(genome: StrategyGenome) {
-    const idx = Math.floor(Math.random() * 16);
-    const lowerBound = idx === 0 ? 1.0 : genome.genes[idx - 1];
-    const upperBound = idx === 15 ? 3.0 : genome.genes[idx + 1];
+function mutate(space: SearchSpace, genome: StrategyGenome) {
+    const count = geneCount(space);
+    const last = count - 1;
+    const idx = Math.floor(space.random() * count);
+    const range = geneRange(space, idx);
+    // Monotonic tier genomes mutate between their neighbours to stay sorted
+    const sorted = space.monotonic && !space.curve;
+    const lowerBound = !sorted || idx === 0 ? range.min : genome.genes[idx - 1];
+    const upperBound = !sorted || idx === last ? range.max : genome.genes[idx + 1];
     if (upperBound > lowerBound) {
-        const val = lowerBound + Math.random() * (upperBound - lowerBound);
-        genome.genes[idx] = Math.round(val * 10) / 10;
+        const val = lowerBound + space.random() * (upperBound - lowerBound);
+        genome.genes[idx] = Math.min(upperBound, Math.max(lowerBound, snapGene(space, idx, val)));
+    }
+    if (space.curve) {
+        genome.curve = genesToCurve(space.curve, space, genome.genes);
+    } else {
+        genome.tiers = genesToTiers(space, genome.genes);
     }
-    genome.tiers = genesToTiers(genome.genes);
 }
 
-function crossover(parentA: StrategyGenome, parentB: StrategyGenome): StrategyGenome {
+function crossover(space: SearchSpace, parentA: StrategyGenome, parentB: StrategyGenome): StrategyGenome {
+    if (space.random() >= space.crossoverRate) {
+        return createGenome(space, [...parentA.genes]);
+    }
     const rawGenes = [];
-    for (let i = 0; i < 16; i++) {
-        rawGenes.push(Math.random() < 0.5 ? parentA.genes[i] : parentB.genes[i]);
+    for (let i = 0; i < geneCount(space); i++) {
+        rawGenes.push(space.random() < 0.5 ? parentA.genes[i] : parentB.genes[i]);
     }
-    rawGenes.sort((a, b) => a - b);
-    return {
-        genes: rawGenes,
-        fitness: -Infinity,
-        tiers: genesToTiers(rawGenes)
-    };
+    return createGenome(space, rawGenes);
 }
 
-// --- Main Optimizer Function ---
+// --- Evaluation ---
 
-export async function runGeneticOptimizer(
-    prices: PriceDataPoint[],
+/**
+ * Backtest every genome in batches, yielding between batches so the
+ * worker can handle pause/cancel messages.
+ */
+async function evaluatePopulation(
+    genomes: StrategyGenome[],
+    dailyPrices: PriceDataPoint[],
     baseConfig: BacktestConfig,
-    onProgress?: (progress: number, generation: number) => void
-): Promise<OptimizationResult> {
-
-    // 0. Pre-optimization: Pre-calculate daily prices ONCE
-    // This avoids doing it 25,000 times inside runBacktest
-    const dailyPrices = aggregateDailyPrices(prices);
-
-    // 1. Initialize Population
-    let population: StrategyGenome[] = [];
-    for (let i = 0; i < POPULATION_SIZE; i++) {
-        population.push(generateMonotonicGenome());
-    }
+    control?: OptimizerControl
+): Promise<void> {
+    for (let i = 0; i < genomes.length; i += BATCH_SIZE) {
+        // Process a batch
+        const batchEnd = Math.min(i + BATCH_SIZE, genomes.length);
+        for (let j = i; j < batchEnd; j++) {
+            const genome = genomes[j];
+
+            // OPTIMIZATION: Use Lite Mode & Pre-aggregated data
+            const result = runBacktest(dailyPrices, genomeConfig(baseConfig, genome), genome.tiers, {
+                liteMode: true,      // Don't create trade array (saves 45M objects)
+                preAggregated: true  // Don't re-sort daily prices (saves 25k sorts)
+            });
 
-    // 2. Evolution Loop
-    for (let gen = 0; gen < GENERATIONS; gen++) {
+            genome.fitness = result.roi;
+            // Cache additional metrics
+            genome.totalCoins = result.totalCoins;
+            genome.averagePrice = result.averagePrice;
+            genome.fundsDepletedDate = result.fundsDepletedDate;
+            genome.executionDuration = result.executionDuration;
+            genome.executionStartDate = result.executionStartDate;
+            genome.executionEndDate = result.executionEndDate;
+            genome.portfolioMaxDrawdown = result.portfolioMaxDrawdown;
+            genome.objectives = {
+                roi: result.roi,
+                totalCoins: result.totalCoins,
+                portfolioDrawdown: result.portfolioMaxDrawdown,
+                runway: result.executionDuration
+            };
+        }
 
-        // A. Evaluate Fitness with Async Chunking
-        for (let i = 0; i < population.length; i += BATCH_SIZE) {
-            // Process a batch
-            const batchEnd = Math.min(i + BATCH_SIZE, population.length);
-            for (let j = i; j < batchEnd; j++) {
-                const genome = population[j];
-
-                // OPTIMIZATION: Use Lite Mode & Pre-aggregated data
-                const result = runBacktest(dailyPrices, baseConfig, genome.tiers, {
-                    liteMode: true,      // Don't create trade array (saves 45M objects)
-                    preAggregated: true  // Don't re-sort daily prices (saves 25k sorts)
-                });
-
-                genome.fitness = result.roi;
-                // Cache additional metrics
-                genome.totalCoins = result.totalCoins;
-                genome.averagePrice = result.averagePrice;
-                genome.fundsDepletedDate = result.fundsDepletedDate;
-                genome.executionDuration = result.executionDuration;
-                genome.executionStartDate = result.executionStartDate;
-                genome.executionEndDate = result.executionEndDate;
+        // Yield every batch so pause/cancel messages can be handled
+        await new Promise(r => setTimeout(r, 0));
+        if (control) {
+            await control.waitIfPaused();
+            if (control.isCancelled()) {
+                throw { code: OPTIMIZER_CANCELLED, message: '最佳化已取消' };
             }
-
-            // Yield to main thread every batch to keep UI responsive
-            await new Promise(r => setTimeout(r, 0));
         }
+    }
+}
 
-        // Reporting (after all batches in this generation are done)
-        if (onProgress) {
-            onProgress((gen / GENERATIONS) * 100, gen + 1);
-        }
+// --- NSGA-II Helpers ---
 
-        // B. Sort by Fitness (Descending) for evolution purposes
-        population.sort((a, b) => b.fitness - a.fitness);
+function dominates(a: StrategyGenome, b: StrategyGenome): boolean {
+    let strictlyBetter = false;
+    for (const { key } of OBJECTIVES) {
+        const va = a.objectives![key];
+        const vb = b.objectives![key];
+        if (va < vb) return false;
+        if (va > vb) strictlyBetter = true;
+    }
+    return strictlyBetter;
+}
 
-        // C. Elitism: Keep top performers immediately
-        const survivors = population.slice(0, ELITISM_COUNT);
+/**
+ * Fast non-dominated sort. Assigns `rank` and returns the fronts in order.
+ */
+function nonDominatedSort(population: StrategyGenome[]): StrategyGenome[][] {
+    const dominatedBy: number[][] = population.map(() => []);
+    const dominationCount = new Array(population.length).fill(0);
+    const fronts: number[][] = [[]];
+
+    for (let p = 0; p < population.length; p++) {
+        for (let q = p + 1; q < population.length; q++) {
+            if (dominates(population[p], population[q])) {
+                dominatedBy[p].push(q);
+                dominationCount[q]++;
+            } else if (dominates(population[q], population[p])) {
+                dominatedBy[q].push(p);
+                dominationCount[p]++;
+            }
+        }
+    }
 
-        // D. Create Next Generation
-        const nextGen = [...survivors];
+    for (let p = 0; p < population.length; p++) {
+        if (dominationCount[p] === 0) fronts[0].push(p);
+    }
 
-        // Fill the rest with children
-        while (nextGen.length < POPULATION_SIZE) {
-            const parentPoolSize = Math.floor(POPULATION_SIZE * 0.4);
-            const parentA = population[Math.floor(Math.random() * parentPoolSize)];
-            const parentB = population[Math.floor(Math.random() * parentPoolSize)];
+    let current = 0;
+    while (fronts[current].length > 0) {
+        const next: number[] = [];
+        for (const p of fronts[current]) {
+            population[p].rank = current;
+            for (const q of dominatedBy[p]) {
+                dominationCount[q]--;
+                if (dominationCount[q] === 0) next.push(q);
+            }
+        }
+        current++;
+        fronts.push(next);
+    }
 
-            let child = crossover(parentA, parentB);
+    return fronts.filter(f => f.length > 0).map(f => f.map(i => population[i]));
+}
 
-            if (Math.random() < MUTATION_RATE) {
-                mutate(child);
-            }
+/**
+ * Crowding distance within one front (boundary points get Infinity).
+ */
+function assignCrowdingDistance(front: StrategyGenome[]) {
+    front.forEach(g => { g.crowding = 0; });
+    if (front.length <= 2) {
+        front.forEach(g => { g.crowding = Infinity; });
+        return;
+    }
 
-            nextGen.push(child);
+    for (const { key } of OBJECTIVES) {
+        const sorted = [...front].sort((a, b) => a.objectives![key] - b.objectives![key]);
+        const min = sorted[0].objectives![key];
+        const max = sorted[sorted.length - 1].objectives![key];
+        sorted[0].crowding = Infinity;
+        sorted[sorted.length - 1].crowding = Infinity;
+        if (max === min) continue;
+        for (let i = 1; i < sorted.length - 1; i++) {
+            sorted[i].crowding! += (sorted[i + 1].objectives![key] - sorted[i - 1].objectives![key]) / (max - min);
         }
-
-        population = nextGen;
     }
+}
 
-    // --- Final Selection: Pick the 3 Champions ---
+/**
+ * Binary tournament: lower rank wins, ties broken by larger crowding distance.
+ */
+function tournamentSelect(space: SearchSpace, population: StrategyGenome[]): StrategyGenome {
+    const a = population[Math.floor(space.random() * population.length)];
+    const b = population[Math.floor(space.random() * population.length)];
+    if (a.rank! !== b.rank!) return a.rank! < b.rank! ? a : b;
+    return (a.crowding ?? 0) >= (b.crowding ?? 0) ? a : b;
+}
 
-    // Helper to get unique signature
-    const getSig = (g: StrategyGenome) => g.genes.map(x => x.toFixed(1)).join('|');
+// --- Selection ---
+
+// Helper to get unique signature
+const getSig = (g: StrategyGenome) => g.genes.join('|');
+
+/**
+ * Pick the 3 champions: Most Accumulated, Highest ROI, Lowest Avg Price.
+ */
+function selectChampions(population: StrategyGenome[]): StrategyGenome[] {
     const selectedSignatures = new Set<string>();
     const topStrategies: StrategyGenome[] = [];
 
@@ -231,9 +532,316 @@ export async function runGeneticOptimizer(
         selectedSignatures.add(getSig(minPriceStrat));
     }
 
+    return topStrategies;
+}
+
+// --- Main Optimizer Function ---
+
+/**
+ * Champions (and the Pareto front in pareto mode) of one evolution run.
+ */
+interface EvolutionOutcome {
+    topStrategies: StrategyGenome[];
+    paretoFront?: StrategyGenome[];
+}
+
+/**
+ * Run one GA/NSGA-II evolution on a fixed backtest window.
+ */
+async function evolve(
+    settings: OptimizerSettings,
+    seed: number,
+    mode: OptimizerMode,
+    dailyPrices: PriceDataPoint[],
+    baseConfig: BacktestConfig,
+    onProgress?: ProgressCallback,
+    control?: OptimizerControl
+): Promise<EvolutionOutcome> {
+    const space: SearchSpace = {
+        ...settings,
+        stepsMapping: buildStepsMapping(settings.thresholds, settings.tierCount),
+        random: createRandom(seed),
+        curve: isFormulaCurve(baseConfig.multiplierCurve) ? baseConfig.multiplierCurve : undefined
+    };
+    const { populationSize, generations } = space;
+
+    // 1. Initialize Population
+    let population: StrategyGenome[] = [];
+    for (let i = 0; i < populationSize; i++) {
+        population.push(generateGenome(space));
+    }
+
+    if (mode === 'pareto') {
+        return runParetoEvolution(space, population, dailyPrices, baseConfig, onProgress, control);
+    }
+
+    // 2. Evolution Loop
+    for (let gen = 0; gen < generations; gen++) {
+
+        // A. Evaluate Fitness with Async Chunking
+        await evaluatePopulation(population, dailyPrices, baseConfig, control);
+
+        // B. Sort by Fitness (Descending) for evolution purposes
+        population.sort((a, b) => b.fitness - a.fitness);
+
+        // Reporting (after all batches in this generation are done)
+        if (onProgress) {
+            onProgress(((gen + 1) / generations) * 100, gen + 1, population[0]);
+        }
+
+        // The last generation is final: its evaluated members are the ones we pick from
+        if (gen === generations - 1) break;
+
+        // C. Elitism: Keep top performers immediately
+        const survivors = population.slice(0, space.elitismCount);
+
+        // D. Create Next Generation
+        const nextGen = [...survivors];
+
+        // Fill the rest with children
+        while (nextGen.length < populationSize) {
+            const parentPoolSize = Math.max(1, Math.floor(populationSize * 0.4));
+            const parentA = population[Math.floor(space.random() * parentPoolSize)];
+            const parentB = population[Math.floor(space.random() * parentPoolSize)];
+
+            let child = crossover(space, parentA, parentB);
+
+            if (space.random() < space.mutationRate) {
+                mutate(space, child);
+            }
+
+            nextGen.push(child);
+        }
+
+        population = nextGen;
+    }
+
+    // --- Final Selection: Pick the 3 Champions ---
+    return { topStrategies: selectChampions(population) };
+}
+
+export async function runGeneticOptimizer(
+    prices: PriceDataPoint[],
+    baseConfig: BacktestConfig,
+    options: OptimizerOptions = {},
+    onProgress?: ProgressCallback,
+    control?: OptimizerControl
+): Promise<OptimizationResult> {
+
+    // 0. Pre-optimization: Pre-calculate daily prices ONCE
+    // This avoids doing it 25,000 times inside runBacktest
+    const dailyPrices = prepareDailyPrices(prices, baseConfig);
+
+    const settings = resolveOptimizerSettings(options);
+    const seed = options.seed ?? randomSeed();
+    const mode = options.mode ?? 'single';
+    const validation = options.validation ?? { type: 'none' };
+
+    if (validation.type === 'none') {
+        const outcome = await evolve(settings, seed, mode, dailyPrices, baseConfig, onProgress, control);
+        return {
+            bestGenome: outcome.topStrategies[0] || outcome.paretoFront?.[0], // MAX COINS IS THE BEST GENOME
+            generationsRun: settings.generations,
+            topStrategies: outcome.topStrategies,
+            paretoFront: outcome.paretoFront,
+            seed
+        };
+    }
+
+    // Validated runs: optimize on each training window, then score the champions out of sample
+    const folds = splitValidationWindows(dailyPrices, baseConfig, validation);
+    const validationFolds: ValidationFold[] = [];
+    let outcome: EvolutionOutcome = { topStrategies: [] };
+
+    for (let i = 0; i < folds.length; i++) {
+        const fold = folds[i];
+        const trainConfig = { ...baseConfig, startDate: fold.trainStart, endDate: fold.trainEnd };
+        const testConfig = { ...baseConfig, startDate: fold.testStart, endDate: fold.testEnd };
+
+        // Progress spans all folds; generations are counted cumulatively
+        const foldProgress: ProgressCallback | undefined = onProgress && ((progress, generation, best) =>
+            onProgress(((i + progress / 100) / folds.length) * 100, i * settings.generations + generation, best));
+
+        // Fold 0 uses the run seed so a single holdout split stays reproducible from it
+        outcome = await evolve(settings, (seed + i) >>> 0, mode, dailyPrices, trainConfig, foldProgress, control);
+
+        const scored = new Set([...outcome.topStrategies, ...(outcome.paretoFront ?? [])]);
+        scored.forEach(genome => {
+            genome.validation = validateGenome(genome, dailyPrices, trainConfig, testConfig);
+        });
+
+        validationFolds.push({
+            ...fold,
+            champions: outcome.topStrategies.map(g => ({ ...g }))
+        });
+    }
+
+    // The latest fold was trained on the most recent data: its champions are the ones to apply
     return {
-        bestGenome: maxCoinsStrat || population[0], // MAX COINS IS THE BEST GENOME
-        generationsRun: GENERATIONS,
-        topStrategies: topStrategies
+        bestGenome: outcome.topStrategies[0] || outcome.paretoFront?.[0],
+        generationsRun: settings.generations * folds.length,
+        topStrategies: outcome.topStrategies,
+        paretoFront: outcome.paretoFront,
+        seed,
+        validationFolds
+    };
+}
+
+// --- Validation Helpers ---
+
+// Champions that keep less than this share of their in-sample edge over plain DCA are flagged
+const COLLAPSE_RATIO = 0.25;
+const MIN_WINDOW_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ValidationWindow = Omit<ValidationFold, 'champions'>;
+
+/**
+ * Split the backtest window into train/test windows.
+ * - holdout: the last `testFraction` of the window is out of sample
+ * - walkForward: `folds + 1` equal segments; train on segment N, test on N + 1
+ */
+function splitValidationWindows(
+    dailyPrices: PriceDataPoint[],
+    baseConfig: BacktestConfig,
+    validation: Exclude<ValidationScheme, { type: 'none' }>
+): ValidationWindow[] {
+    const start = Math.max(baseConfig.startDate.getTime(), dailyPrices[0]?.timestamp ?? Infinity);
+    const end = Math.min(baseConfig.endDate.getTime(), dailyPrices[dailyPrices.length - 1]?.timestamp ?? -Infinity);
+    const fail = (message: string): never => {
+        throw { code: INVALID_OPTIMIZER_SETTINGS, message };
     };
+    if (!(end > start)) fail('回測區間內沒有價格資料');
+
+    const windows: ValidationWindow[] = [];
+    if (validation.type === 'holdout') {
+        if (!(validation.testFraction > 0 && validation.testFraction < 1)) fail('樣本外比例必須介於 0% 與 100% 之間');
+        const split = end - (end - start) * validation.testFraction;
+        windows.push({ trainStart: new Date(start), trainEnd: new Date(split), testStart: new Date(split), testEnd: new Date(end) });
+    } else {
+        const folds = Math.round(validation.folds);
+        if (!(folds >= 1)) fail('前進分析至少需要 1 個區段');
+        const segment = (end - start) / (folds + 1);
+        for (let i = 0; i < folds; i++) {
+            const trainStart = start + segment * i;
+            windows.push({
+                trainStart: new Date(trainStart),
+                trainEnd: new Date(trainStart + segment),
+                testStart: new Date(trainStart + segment),
+                testEnd: new Date(trainStart + segment * 2)
+            });
+        }
+    }
+
+    const shortest = Math.min(...windows.flatMap(w => [
+        w.trainEnd.getTime() - w.trainStart.getTime(),
+        w.testEnd.getTime() - w.testStart.getTime()
+    ]));
+    if (shortest < MIN_WINDOW_DAYS * DAY_MS) fail(`每段樣本至少需要 ${MIN_WINDOW_DAYS} 天，請縮短分段或延長回測區間`);
+
+    return windows;
+}
+
+/**
+ * Strategy vs plain DCA on one window.
+ */
+function measureSample(genome: StrategyGenome, dailyPrices: PriceDataPoint[], config: BacktestConfig): SampleMetrics {
+    const options = { liteMode: true, preAggregated: true };
+    const result = runBacktest(dailyPrices, genomeConfig(config, genome), genome.tiers, options);
+    const benchmark = runBenchmarkBacktest(dailyPrices, config, result, options);
+    return {
+        startDate: config.startDate,
+        endDate: config.endDate,
+        roi: result.roi,
+        benchmarkRoi: benchmark.roi,
+        excessRoi: result.roi - benchmark.roi,
+        totalCoins: result.totalCoins,
+        portfolioMaxDrawdown: result.portfolioMaxDrawdown
+    };
+}
+
+/**
+ * In-sample vs out-of-sample metrics. A champion "collapses" when it beat plain DCA
+ * in sample but keeps less than COLLAPSE_RATIO of that edge out of sample.
+ */
+function validateGenome(
+    genome: StrategyGenome,
+    dailyPrices: PriceDataPoint[],
+    trainConfig: BacktestConfig,
+    testConfig: BacktestConfig
+): StrategyValidation {
+    const inSample = measureSample(genome, dailyPrices, trainConfig);
+    const outOfSample = measureSample(genome, dailyPrices, testConfig);
+    return {
+        inSample,
+        outOfSample,
+        collapsed: inSample.excessRoi > 0 && outOfSample.excessRoi < inSample.excessRoi * COLLAPSE_RATIO
+    };
+}
+
+/**
+ * NSGA-II: evolve against all OBJECTIVES at once and return the Pareto front.
+ */
+async function runParetoEvolution(
+    space: SearchSpace,
+    initialPopulation: StrategyGenome[],
+    dailyPrices: PriceDataPoint[],
+    baseConfig: BacktestConfig,
+    onProgress?: ProgressCallback,
+    control?: OptimizerControl
+): Promise<EvolutionOutcome> {
+    let population = initialPopulation;
+    await evaluatePopulation(population, dailyPrices, baseConfig, control);
+    nonDominatedSort(population).forEach(assignCrowdingDistance);
+
+    const { populationSize, generations } = space;
+
+    for (let gen = 0; gen < generations; gen++) {
+        // A. Offspring via tournament selection, crossover and mutation
+        const offspring: StrategyGenome[] = [];
+        while (offspring.length < populationSize) {
+            const child = crossover(space, tournamentSelect(space, population), tournamentSelect(space, population));
+            if (space.random() < space.mutationRate) {
+                mutate(space, child);
+            }
+            offspring.push(child);
+        }
+        await evaluatePopulation(offspring, dailyPrices, baseConfig, control);
+
+        // B. Environmental selection on parents + offspring: fill by front, truncate by crowding
+        const fronts = nonDominatedSort([...population, ...offspring]);
+        const nextGen: StrategyGenome[] = [];
+        for (const front of fronts) {
+            assignCrowdingDistance(front);
+            if (nextGen.length + front.length <= populationSize) {
+                nextGen.push(...front);
+            } else {
+                const sorted = [...front].sort((a, b) => (b.crowding ?? 0) - (a.crowding ?? 0));
+                nextGen.push(...sorted.slice(0, populationSize - nextGen.length));
+                break;
+            }
+        }
+        population = nextGen;
+
+        // Reporting: best ROI on the current first front
+        if (onProgress) {
+            const bestOnFront = population
+                .filter(g => g.rank === 0)
+                .reduce((best, g) => (g.fitness > best.fitness ? g : best), population[0]);
+            onProgress(((gen + 1) / generations) * 100, gen + 1, bestOnFront);
+        }
+    }
+
+    // Unique non-dominated strategies of the final population
+    const seen = new Set<string>();
+    const paretoFront = population
+        .filter(g => g.rank === 0)
+        .filter(g => {
+            const sig = getSig(g);
+            if (seen.has(sig)) return false;
+            seen.add(sig);
+            return true;
+        });
+
+    return { topStrategies: selectChampions(paretoFront), paretoFront };
 }
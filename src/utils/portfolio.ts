@@ -0,0 +1,382 @@
+/* ===================================
+   多幣種投資組合回測
+   依目標權重分配定投金額，共用一個現金池，支援定期或偏離門檻再平衡
+=================================== */
+
+import type { BacktestConfig, DrawdownTier, PriceDataPoint } from '../types';
+import { getMultiplier, prepareDailyPrices } from './calculator';
+import { fillBuy, fillSell } from './fees';
+import type { FillResult } from './fees';
+import { getSchedule, resolveExecutionDays } from './schedule';
+import { resolveContributions } from './contributions';
+import { accrueInterest, createRateLookup } from './cashYield';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_ALLOCATION_POINTS = 300; // 配置圖取樣點上限
+
+export const PORTFOLIO_ERROR = 'PORTFOLIO_ERROR';
+
+/**
+ * 組合中的單一資產
+ */
+export interface PortfolioAsset {
+    coinId: string;
+    weight: number;           // 目標權重 (會依總和正規化)
+    tiers: DrawdownTier[];    // 個別級距 (tierScope 為 perAsset 時使用)
+}
+
+/**
+ * 回撤級距的套用方式
+ * - perAsset: 各資產依自身相對 ATH 的跌幅決定倍率
+ * - basket: 依目標權重組成的籃子指數跌幅決定倍率，套用到整筆定投
+ */
+export type TierScope = 'perAsset' | 'basket';
+
+/**
+ * 再平衡規則
+ * - periodic: 每 N 天將持倉調回目標權重
+ * - threshold: 任一資產權重偏離目標超過 band (0.05 = 5 個百分點) 時再平衡
+ */
+export type RebalanceRule =
+    | { type: 'none' }
+    | { type: 'periodic'; days: number }
+    | { type: 'threshold'; band: number };
+
+/**
+ * 組合設定 (日期、資金、定投金額、排程與交易成本沿用 BacktestConfig；不支援出場級距)
+ */
+export interface PortfolioConfig {
+    assets: PortfolioAsset[];
+    tierScope: TierScope;
+    basketTiers: DrawdownTier[];  // tierScope 為 basket 時使用
+    rebalance: RebalanceRule;
+}
+
+/**
+ * 單一資產的結果
+ */
+export interface PortfolioAssetResult {
+    coinId: string;
+    targetWeight: number;     // 正規化後的目標權重 (0-1)
+    finalWeight: number;      // 期末佔持倉市值比例 (0-1)
+    totalInvested: number;    // 累計買入 (含再平衡買入)
+    totalProceeds: number;    // 累計賣出所得 (再平衡)
+    totalCoins: number;
+    averagePrice: number;
+    finalValue: number;
+    roi: number;
+    maxDrawdown: number;      // 價格相對 ATH 的最大回撤 (%)
+}
+
+/**
+ * 配置圖取樣點 (各資產市值與現金)
+ */
+export interface AllocationPoint {
+    timestamp: number;
+    values: number[];         // 與 assets 同順序
+    cash: number;
+}
+
+export interface PortfolioResult {
+    assets: PortfolioAssetResult[];
+    totalInvested: number;    // 現金池投入的定投總額
+    totalContributions: number; // 累計入金 (不含初始資金)
+    totalInterest: number;    // 閒置現金累計利息
+    finalValue: number;       // 期末持倉市值
+    remainingCash: number;
+    roi: number;              // (期末持倉市值 + 現金利息 - 定投總額) / 定投總額
+    portfolioMaxDrawdown: number; // 總資產 (現金 + 持倉，扣除入金) 最大回撤 (%)
+    totalFees: number;
+    rebalanceCount: number;
+    fundsDepleted: boolean;
+    fundsDepletedDate?: Date;
+    startTimestamp: number;
+    endTimestamp: number;
+    allocation: AllocationPoint[];
+}
+
+/**
+ * 單一資產的模擬狀態
+ */
+interface AssetState {
+    prices: Map<number, PriceDataPoint>; // UTC 日序號 -> 當日價格
+    ath: number;
+    coins: number;
+    costBasis: number;
+    invested: number;
+    proceeds: number;
+    maxDrawdown: number;
+}
+
+function dayIndex(timestamp: number): number {
+    return Math.floor(timestamp / DAY_MS);
+}
+
+function drawdownOf(price: number, ath: number): number {
+    return ath > 0 ? (price - ath) / ath : 0;
+}
+
+/**
+ * 以買入金額增加持倉
+ */
+function buy(state: AssetState, amount: number, price: number, config: BacktestConfig): FillResult {
+    const fill = fillBuy(amount, price, config.costModel);
+    if (fill.coins > 0) {
+        state.coins += fill.coins;
+        state.costBasis += fill.amount;
+        state.invested += fill.amount;
+    }
+    return fill;
+}
+
+/**
+ * 調回目標權重：先賣出超配資產，再將所得依缺口比例買入低配資產
+ */
+function rebalance(states: AssetState[], weights: number[], prices: number[], config: BacktestConfig): number {
+    const values = states.map((s, i) => s.coins * prices[i]);
+    const total = values.reduce((sum, v) => sum + v, 0);
+    let pool = 0;
+    let fees = 0;
+
+    states.forEach((state, i) => {
+        const excess = values[i] - total * weights[i];
+        if (excess <= 0 || state.coins <= 0) return;
+        const coinsSold = Math.min(state.coins, excess / prices[i]);
+        const fill = fillSell(coinsSold, prices[i], config.costModel);
+        state.costBasis -= coinsSold * (state.costBasis / state.coins);
+        state.coins -= coinsSold;
+        state.proceeds += fill.amount;
+        pool += fill.amount;
+        fees += fill.fee;
+    });
+
+    const deficits = values.map((v, i) => Math.max(0, total * weights[i] - v));
+    const totalDeficit = deficits.reduce((sum, d) => sum + d, 0);
+    if (pool > 0 && totalDeficit > 0) {
+        states.forEach((state, i) => {
+            if (deficits[i] > 0) fees += buy(state, pool * (deficits[i] / totalDeficit), prices[i], config).fee;
+        });
+    }
+    return fees;
+}
+
+/**
+ * 執行投資組合回測
+ *
+ * 邏輯說明：
+ * 1. 各資產的 ATH 由自身歷史第一天起算；籃子指數與其 ATH 由所有資產都有價格的第一天起算 (含回測開始前)，
+ *    只在回測區間內所有資產都有價格的日子交易
+ * 2. 定投日的總金額 = baseDcaAmount × 倍率，依目標權重分配 (perAsset 時各資產使用自身倍率)
+ * 3. 現金不足時按比例縮減當次所有買單，並記錄資金耗盡日
+ * 4. 再平衡只在持倉間移轉，不動用現金池
+ */
+export function runPortfolioBacktest(
+    pricesByAsset: Record<string, PriceDataPoint[]>,
+    config: BacktestConfig,
+    portfolio: PortfolioConfig
+): PortfolioResult {
+    const { assets } = portfolio;
+    if (assets.length === 0) {
+        throw { code: PORTFOLIO_ERROR, message: '投資組合至少需要一個資產' };
+    }
+    if (new Set(assets.map(a => a.coinId)).size !== assets.length) {
+        throw { code: PORTFOLIO_ERROR, message: '投資組合中有重複的資產' };
+    }
+    const weightSum = assets.reduce((sum, a) => sum + Math.max(0, a.weight), 0);
+    if (!(weightSum > 0)) {
+        throw { code: PORTFOLIO_ERROR, message: '目標權重總和必須大於 0' };
+    }
+    const weights = assets.map(a => Math.max(0, a.weight) / weightSum);
+
+    // 1. 各資產每日價格 (以 UTC 日序號對齊)
+    const states: AssetState[] = assets.map(asset => {
+        const daily = prepareDailyPrices(pricesByAsset[asset.coinId] ?? [], config);
+        if (daily.length === 0) {
+            throw { code: PORTFOLIO_ERROR, message: `${asset.coinId} 沒有價格資料` };
+        }
+        return {
+            prices: new Map(daily.map(p => [dayIndex(p.timestamp), p])),
+            ath: 0,
+            coins: 0,
+            costBasis: 0,
+            invested: 0,
+            proceeds: 0,
+            maxDrawdown: 0
+        };
+    });
+
+    const allDays = [...new Set(states.flatMap(s => [...s.prices.keys()]))].sort((a, b) => a - b);
+    const startTimestamp = config.startDate.getTime();
+    const endTimestamp = config.endDate.getTime();
+    const inWindow = (point?: PriceDataPoint) =>
+        point !== undefined && point.timestamp >= startTimestamp && point.timestamp <= endTimestamp;
+    const tradingDays = allDays
+        .filter(day => states.every(s => inWindow(s.prices.get(day))))
+        .map(day => ({ timestamp: day * DAY_MS, price: 0 }));
+    if (tradingDays.length === 0) {
+        throw { code: PORTFOLIO_ERROR, message: '回測區間內沒有所有資產都有價格的日子' };
+    }
+    const tradingSet = new Set(tradingDays.map(p => dayIndex(p.timestamp)));
+    const executionDays = resolveExecutionDays(tradingDays, getSchedule(config), startTimestamp, endTimestamp);
+    const contributionDays = config.contributions
+        ? resolveContributions(tradingDays, config.contributions, startTimestamp, endTimestamp)
+        : null;
+    const rateAt = config.cashYield ? createRateLookup(config.cashYield) : null;
+
+    // 籃子指數：以所有資產都有價格的第一天為基準，按目標權重加總各資產的相對價格
+    const commonDays = allDays.filter(day => states.every(s => s.prices.has(day)));
+    const basketDays = new Set(commonDays);
+    const basketBaseDay = commonDays[0];
+    const basePrices = states.map(s => s.prices.get(basketBaseDay)!.price);
+    let basketAth = 0;
+    const firstDay = dayIndex(tradingDays[0].timestamp);
+
+    // 2. 模擬狀態
+    let remainingCash = config.initialCapital;
+    let totalInvested = 0;
+    let totalContributions = 0;
+    let totalInterest = 0;
+    let totalFees = 0;
+    let rebalanceCount = 0;
+    let fundsDepleted = false;
+    let fundsDepletedDate: Date | undefined;
+    let previousTotalValue = 0;
+    let navIndex = 1;
+    let equityPeak = 0;
+    let portfolioMaxDrawdown = 0;
+    let lastRebalanceDay = firstDay;
+    const lastPrices = states.map(s => s.prices.get(firstDay)!.price);
+    const allocation: AllocationPoint[] = [];
+    const sampleEvery = Math.max(1, Math.ceil(tradingDays.length / MAX_ALLOCATION_POINTS));
+    let tradingIndex = 0;
+    let previousTradingTimestamp: number | undefined;
+
+    for (const day of allDays) {
+        if (day * DAY_MS > endTimestamp) break;
+
+        // 更新 ATH 與籃子 ATH (回測開始前也要計算)
+        states.forEach(s => {
+            const point = s.prices.get(day);
+            if (point && point.timestamp <= endTimestamp) s.ath = Math.max(s.ath, point.price);
+        });
+        let basketIndex = 0;
+        if (basketDays.has(day) && states.every(s => s.prices.get(day)!.timestamp <= endTimestamp)) {
+            basketIndex = states.reduce((sum, s, i) => sum + weights[i] * (s.prices.get(day)!.price / basePrices[i]), 0);
+            basketAth = Math.max(basketAth, basketIndex);
+        }
+        if (!tradingSet.has(day)) continue;
+
+        const prices = states.map(s => s.prices.get(day)!.price);
+        prices.forEach((p, i) => { lastPrices[i] = p; });
+        const drawdowns = states.map((s, i) => drawdownOf(prices[i], s.ath));
+        states.forEach((s, i) => { s.maxDrawdown = Math.min(s.maxDrawdown, drawdowns[i]); });
+
+        // 3. 現金計息、入金與定投
+        if (rateAt && previousTradingTimestamp !== undefined) {
+            const interest = accrueInterest(remainingCash, rateAt(previousTradingTimestamp), previousTradingTimestamp, day * DAY_MS);
+            remainingCash += interest;
+            totalInterest += interest;
+        }
+        previousTradingTimestamp = day * DAY_MS;
+
+        const contribution = contributionDays?.get(day * DAY_MS) ?? 0;
+        remainingCash += contribution;
+        totalContributions += contribution;
+        if (contribution > 0 && fundsDepleted) {
+            fundsDepleted = false;      // 資金已補充，之後不足時再重新記錄
+            fundsDepletedDate = undefined;
+        }
+
+        if (executionDays.has(day * DAY_MS)) {
+            const basketMultiplier = getMultiplier(drawdownOf(basketIndex, basketAth), portfolio.basketTiers, config.multiplierCurve);
+            const orders = assets.map((asset, i) => config.baseDcaAmount * weights[i] * (
+                portfolio.tierScope === 'basket' ? basketMultiplier : getMultiplier(drawdowns[i], asset.tiers, config.multiplierCurve)
+            ));
+            const orderTotal = orders.reduce((sum, o) => sum + o, 0);
+
+            if (remainingCash < orderTotal && !fundsDepleted) {
+                fundsDepleted = true;
+                fundsDepletedDate = new Date(day * DAY_MS);
+            }
+            const scale = orderTotal > 0 ? Math.min(1, Math.max(0, remainingCash) / orderTotal) : 0;
+
+            orders.forEach((order, i) => {
+                const amount = order * scale;
+                if (amount <= 0) return;
+                const fill = buy(states[i], amount, prices[i], config);
+                remainingCash -= fill.amount;
+                totalInvested += fill.amount;
+                totalFees += fill.fee;
+            });
+        }
+
+        // 4. 再平衡
+        const holdings = states.map((s, i) => s.coins * prices[i]);
+        const holdingsTotal = holdings.reduce((sum, v) => sum + v, 0);
+        if (holdingsTotal > 0 && assets.length > 1) {
+            const rule = portfolio.rebalance;
+            const shouldRebalance =
+                (rule.type === 'periodic' && rule.days >= 1 && day - lastRebalanceDay >= rule.days) ||
+                (rule.type === 'threshold' && holdings.some((v, i) => Math.abs(v / holdingsTotal - weights[i]) > rule.band));
+            if (shouldRebalance) {
+                totalFees += rebalance(states, weights, prices, config);
+                rebalanceCount++;
+                lastRebalanceDay = day;
+            }
+        }
+
+        // 5. 總資產回撤與配置取樣
+        const values = states.map((s, i) => s.coins * prices[i]);
+        const totalValue = remainingCash + values.reduce((sum, v) => sum + v, 0);
+        if (previousTotalValue > 0) {
+            navIndex *= (totalValue - contribution) / previousTotalValue;
+        }
+        previousTotalValue = totalValue;
+        if (navIndex >= equityPeak) {
+            equityPeak = navIndex;
+        } else if (equityPeak > 0) {
+            portfolioMaxDrawdown = Math.min(portfolioMaxDrawdown, (navIndex - equityPeak) / equityPeak);
+        }
+
+        if (tradingIndex % sampleEvery === 0 || tradingIndex === tradingDays.length - 1) {
+            allocation.push({ timestamp: day * DAY_MS, values, cash: remainingCash });
+        }
+        tradingIndex++;
+    }
+
+    // 6. 結算 (以最後一個交易日價格)
+    const finalValues = states.map((s, i) => s.coins * lastPrices[i]);
+    const finalValue = finalValues.reduce((sum, v) => sum + v, 0);
+
+    return {
+        assets: assets.map((asset, i) => {
+            const s = states[i];
+            return {
+                coinId: asset.coinId,
+                targetWeight: weights[i],
+                finalWeight: finalValue > 0 ? finalValues[i] / finalValue : 0,
+                totalInvested: s.invested,
+                totalProceeds: s.proceeds,
+                totalCoins: s.coins,
+                averagePrice: s.coins > 0 ? s.costBasis / s.coins : 0,
+                finalValue: finalValues[i],
+                roi: s.invested > 0 ? ((finalValues[i] + s.proceeds - s.invested) / s.invested) * 100 : 0,
+                maxDrawdown: s.maxDrawdown * 100
+            };
+        }),
+        totalInvested,
+        totalContributions,
+        totalInterest,
+        finalValue,
+        remainingCash,
+        roi: totalInvested > 0 ? ((finalValue + totalInterest - totalInvested) / totalInvested) * 100 : 0,
+        portfolioMaxDrawdown: portfolioMaxDrawdown * 100,
+        totalFees,
+        rebalanceCount,
+        fundsDepleted,
+        fundsDepletedDate,
+        startTimestamp: tradingDays[0].timestamp,
+        endTimestamp: tradingDays[tradingDays.length - 1].timestamp,
+        allocation
+    };
+}
@@ -0,0 +1,208 @@
+/* ===================================
+   價格檔案匯入
+   解析 CSV / JSON 價格資料並正規化為 PriceDataPoint[]
+=================================== */
+
+import type { PriceDataPoint } from '../types';
+import { startOfUtcDay } from './schedule';
+
+/**
+ * 匯入結果
+ */
+export interface PriceImportResult {
+    prices: PriceDataPoint[];
+    warnings: string[];       // 略過的資料列等非致命問題
+}
+
+export const IMPORT_ERROR = 'IMPORT_ERROR';
+
+// 欄位名稱別名 (小寫比對)
+const DATE_COLUMNS = ['date', 'time', 'timestamp', 'datetime', 'day', '日期', '時間'];
+const CLOSE_COLUMNS = ['close', 'price', 'adj close', 'adj_close', 'close_price', 'value', '收盤', '收盤價', '價格'];
+
+const MAX_WARNINGS = 20;
+
+function fail(message: string): never {
+    throw { code: IMPORT_ERROR, message };
+}
+
+/**
+ * 8 位數 YYYYMMDD 視為 UTC 日期 (月、日不合法時回傳 NaN)
+ */
+function parseCompactDate(text: string): number {
+    const year = Number(text.slice(0, 4));
+    const month = Number(text.slice(4, 6));
+    const day = Number(text.slice(6, 8));
+    const timestamp = Date.UTC(year, month - 1, day);
+    const date = new Date(timestamp);
+    return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? timestamp : NaN;
+}
+
+/**
+ * 解析日期欄位
+ * - 8 位數整數: YYYYMMDD
+ * - 其他數字: Unix 時間戳 (小於 1e12 視為秒)
+ * - YYYY-MM-DD 視為 UTC 日期，其餘交給 Date 解析
+ */
+function parseTimestamp(value: unknown): number {
+    if (typeof value === 'number') {
+        if (Number.isInteger(value) && value >= 10000101 && value <= 99991231) {
+            return parseCompactDate(String(value));
+        }
+        return value < 1e12 ? value * 1000 : value;
+    }
+    const text = String(value ?? '').trim();
+    if (text === '') return NaN;
+    if (/^\d{8}$/.test(text)) {
+        return parseCompactDate(text);
+    }
+    if (/^\d+(\.\d+)?$/.test(text)) {
+        return parseTimestamp(Number(text));
+    }
+    const dateOnly = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+    if (dateOnly) {
+        return Date.UTC(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]));
+    }
+    return new Date(text).getTime();
+}
+
+function parsePrice(value: unknown): number {
+    if (typeof value === 'number') return value;
+    // 移除千分位與貨幣符號
+    return Number(String(value ?? '').replace(/[,$\s]/g, ''));
+}
+
+function findColumn(headers: string[], aliases: string[]): number {
+    return headers.findIndex(h => aliases.includes(h.trim().toLowerCase().replace(/^"|"$/g, '')));
+}
+
+/**
+ * 切分單行 CSV (支援雙引號包住的欄位)
+ */
+function splitCsvLine(line: string, delimiter: string): string[] {
+    const cells: string[] = [];
+    let current = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '"') {
+            if (quoted && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else {
+                quoted = !quoted;
+            }
+        } else if (char === delimiter && !quoted) {
+            cells.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    cells.push(current);
+    return cells.map(c => c.trim());
+}
+
+/**
+ * 解析 CSV
+ * 需有標題列，日期欄 + 收盤價欄；其他欄位 (OHLC、成交量) 會被忽略
+ */
+function parseCsv(text: string): [unknown, unknown][] {
+    const lines = text.split(/\r?\n/).filter(l => l.trim() !== '');
+    if (lines.length < 2) fail('CSV 至少需要標題列與一筆資料');
+
+    const header = lines[0];
+    const delimiter = [',', ';', '\t'].reduce((best, d) => (header.split(d).length > header.split(best).length ? d : best), ',');
+    const headers = splitCsvLine(header, delimiter);
+
+    const dateIndex = findColumn(headers, DATE_COLUMNS);
+    const closeIndex = findColumn(headers, CLOSE_COLUMNS);
+    if (dateIndex < 0) fail(`找不到日期欄位 (支援: ${DATE_COLUMNS.join(', ')})`);
+    if (closeIndex < 0) fail(`找不到收盤價欄位 (支援: ${CLOSE_COLUMNS.join(', ')})`);
+
+    return lines.slice(1).map(line => {
+        const cells = splitCsvLine(line, delimiter);
+        return [cells[dateIndex], cells[closeIndex]] as [unknown, unknown];
+    });
+}
+
+/**
+ * 解析 JSON
+ * 支援物件陣列 ([{ date, close }])、二維陣列 ([[timestamp, price]]) 與 { prices: [...] }
+ */
+function parseJson(text: string): [unknown, unknown][] {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        fail('JSON 格式錯誤');
+    }
+
+    if (data && !Array.isArray(data) && typeof data === 'object') {
+        const container = data as Record<string, unknown>;
+        data = container.prices ?? container.data ?? container.Data;
+    }
+    if (!Array.isArray(data) || data.length === 0) fail('JSON 需為價格陣列或包含 prices 陣列');
+
+    return (data as unknown[]).map(item => {
+        if (Array.isArray(item)) {
+            return [item[0], item[1]] as [unknown, unknown];
+        }
+        const record = Object.fromEntries(
+            Object.entries((item ?? {}) as Record<string, unknown>).map(([k, v]) => [k.toLowerCase(), v])
+        );
+        const dateKey = DATE_COLUMNS.find(k => k in record);
+        const closeKey = CLOSE_COLUMNS.find(k => k in record);
+        return [dateKey ? record[dateKey] : undefined, closeKey ? record[closeKey] : undefined] as [unknown, unknown];
+    });
+}
+
+/**
+ * 解析價格檔案
+ *
+ * 邏輯說明：
+ * 1. 依副檔名或內容判斷 CSV / JSON
+ * 2. 略過日期或價格無效的資料列 (記錄於 warnings)
+ * 3. 依時間排序，同一天有多筆時保留時間最晚的一筆 (視為收盤價)
+ */
+export function parsePriceFile(text: string, fileName = ''): PriceImportResult {
+    const trimmed = text.trim();
+    if (trimmed === '') fail('檔案內容為空');
+
+    const isJson = fileName.toLowerCase().endsWith('.json') || trimmed.startsWith('[') || trimmed.startsWith('{');
+    const rows = isJson ? parseJson(trimmed) : parseCsv(trimmed);
+    const warnings: string[] = [];
+
+    const byDay = new Map<number, PriceDataPoint>();
+    let skipped = 0;
+    rows.forEach(([rawDate, rawPrice], index) => {
+        const timestamp = parseTimestamp(rawDate);
+        const price = parsePrice(rawPrice);
+        if (!isFinite(timestamp) || !isFinite(price) || price <= 0) {
+            skipped++;
+            if (skipped <= MAX_WARNINGS) {
+                warnings.push(`第 ${index + 1} 筆資料無效，已略過`);
+            }
+            return;
+        }
+        const day = startOfUtcDay(timestamp);
+        const existing = byDay.get(day);
+        if (!existing || timestamp >= existing.timestamp) {
+            byDay.set(day, { timestamp, price });
+        }
+    });
+
+    if (skipped > MAX_WARNINGS) {
+        warnings.push(`另有 ${skipped - MAX_WARNINGS} 筆無效資料已略過`);
+    }
+
+    const prices = Array.from(byDay.values()).sort((a, b) => a.timestamp - b.timestamp);
+    if (prices.length < 2) fail('有效價格資料不足 (至少需要 2 天)');
+
+    const duplicates = rows.length - skipped - prices.length;
+    if (duplicates > 0) {
+        warnings.push(`${duplicates} 筆同日資料已合併 (保留當日最晚一筆)`);
+    }
+
+    return { prices, warnings };
+}
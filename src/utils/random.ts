@@ -0,0 +1,30 @@
+/* ===================================
+   可設定種子的亂數產生器
+   相同種子產生相同序列，讓最佳化結果可重現
+=================================== */
+
+/**
+ * 亂數函式，回傳 [0, 1) 之間的數值 (與 Math.random 相同介面)
+ */
+export type RandomSource = () => number;
+
+/**
+ * 產生新的隨機種子 (32 位元無號整數)
+ */
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * 建立 Mulberry32 亂數產生器
+ */
+export function createRandom(seed: number): RandomSource {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    };
+}
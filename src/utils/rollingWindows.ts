@@ -0,0 +1,136 @@
+/* ===================================
+   滾動起始日分析
+   從每個可能的進場日以固定期間回測，評估結果對進場時機的依賴
+=================================== */
+
+import type { BacktestConfig, DrawdownTier, PriceDataPoint } from '../types';
+import { prepareDailyPrices, runBacktest, runBenchmarkBacktest } from './calculator';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BATCH_SIZE = 20; // 每批視窗數 (批次間讓出執行緒以更新進度與處理取消)
+
+export const ROLLING_WINDOWS_CANCELLED = 'ROLLING_WINDOWS_CANCELLED';
+export const ROLLING_WINDOWS_ERROR = 'ROLLING_WINDOWS_ERROR';
+
+export interface RollingWindowOptions {
+    horizonDays: number;      // 每個視窗的回測天數
+    stepDays: number;         // 相鄰起始日的間隔 (7 = 每週)
+}
+
+/**
+ * 單一起始日的結果
+ */
+export interface RollingWindowOutcome {
+    startTimestamp: number;
+    endTimestamp: number;
+    roi: number;
+    benchmarkRoi: number;     // 同一視窗的純定投
+    excessReturn: number;     // roi - benchmarkRoi (百分點)
+    totalCoins: number;
+    benchmarkCoins: number;
+    fundsDepleted: boolean;
+}
+
+export interface RollingWindowResult {
+    horizonDays: number;
+    stepDays: number;
+    windows: RollingWindowOutcome[];
+    winRate: number;          // 策略 ROI 高於純定投的比例 (0-1)
+    best: RollingWindowOutcome;   // 超額報酬最高
+    worst: RollingWindowOutcome;  // 超額報酬最低
+    median: RollingWindowOutcome; // 超額報酬中位數
+}
+
+export interface RollingWindowControl {
+    isCancelled: () => boolean;
+}
+
+export type RollingWindowProgressCallback = (completed: number, total: number) => void;
+
+/**
+ * 執行滾動起始日分析
+ *
+ * 邏輯說明：
+ * 1. 起始日由第一筆價格開始，每 stepDays 天一個，直到剩餘資料不足 horizonDays
+ * 2. 每個視窗以相同設定 (只改開始/結束日) 回測策略與純定投
+ * 3. ATH 仍由歷史第一天起算，與一般回測一致
+ */
+export async function runRollingWindows(
+    prices: PriceDataPoint[],
+    config: BacktestConfig,
+    tiers: DrawdownTier[],
+    options: RollingWindowOptions,
+    onProgress?: RollingWindowProgressCallback,
+    control?: RollingWindowControl
+): Promise<RollingWindowResult> {
+    const horizonDays = Math.floor(options.horizonDays);
+    const stepDays = Math.floor(options.stepDays);
+    if (!(horizonDays >= 1) || !(stepDays >= 1)) {
+        throw { code: ROLLING_WINDOWS_ERROR, message: '回測期間與間隔必須至少 1 天' };
+    }
+
+    const dailyPrices = prepareDailyPrices(prices, config);
+    if (dailyPrices.length === 0) {
+        throw { code: ROLLING_WINDOWS_ERROR, message: '沒有價格資料' };
+    }
+
+    // 1. 起始日列表
+    const firstTimestamp = dailyPrices[0].timestamp;
+    const lastTimestamp = dailyPrices[dailyPrices.length - 1].timestamp;
+    const starts: number[] = [];
+    for (let t = firstTimestamp; t + horizonDays * DAY_MS <= lastTimestamp; t += stepDays * DAY_MS) {
+        starts.push(t);
+    }
+    if (starts.length === 0) {
+        throw { code: ROLLING_WINDOWS_ERROR, message: '價格歷史短於回測期間，無法分析' };
+    }
+
+    // 2. 逐批回測
+    const windows: RollingWindowOutcome[] = [];
+    for (let i = 0; i < starts.length; i += BATCH_SIZE) {
+        const batchEnd = Math.min(i + BATCH_SIZE, starts.length);
+        for (let j = i; j < batchEnd; j++) {
+            const startTimestamp = starts[j];
+            const endTimestamp = startTimestamp + horizonDays * DAY_MS;
+            const windowConfig: BacktestConfig = {
+                ...config,
+                startDate: new Date(startTimestamp),
+                endDate: new Date(endTimestamp)
+            };
+
+            const backtestOptions = { liteMode: true, preAggregated: true };
+            const result = runBacktest(dailyPrices, windowConfig, tiers, backtestOptions);
+            const benchmark = runBenchmarkBacktest(dailyPrices, windowConfig, result, backtestOptions);
+
+            windows.push({
+                startTimestamp,
+                endTimestamp,
+                roi: result.roi,
+                benchmarkRoi: benchmark.roi,
+                excessReturn: result.roi - benchmark.roi,
+                totalCoins: result.totalCoins,
+                benchmarkCoins: benchmark.totalCoins,
+                fundsDepleted: result.fundsDepleted
+            });
+        }
+
+        onProgress?.(batchEnd, starts.length);
+
+        await new Promise(r => setTimeout(r, 0));
+        if (control?.isCancelled()) {
+            throw { code: ROLLING_WINDOWS_CANCELLED, message: '分析已取消' };
+        }
+    }
+
+    // 3. 統計
+    const byExcess = [...windows].sort((a, b) => a.excessReturn - b.excessReturn);
+    return {
+        horizonDays,
+        stepDays,
+        windows,
+        winRate: windows.filter(w => w.excessReturn > 0).length / windows.length,
+        best: byExcess[byExcess.length - 1],
+        worst: byExcess[0],
+        median: byExcess[Math.floor((byExcess.length - 1) / 2)]
+    };
+}
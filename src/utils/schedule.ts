@@ -0,0 +1,136 @@
+/* ===================================
+   定投排程
+   將排程規則展開為實際執行定投的價格日
+=================================== */
+
+import type { BacktestConfig, DcaSchedule, PriceDataPoint } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAY_LABELS = ['日', '一', '二', '三', '四', '五', '六'];
+
+/**
+ * 執行日對照表：價格資料的 timestamp -> 原定排程日 (UTC 零點 timestamp)
+ */
+export type ExecutionDays = Map<number, number>;
+
+// 同一份價格陣列會被重複回測 (例如最佳化)，快取展開結果避免重算
+const executionCache = new WeakMap<PriceDataPoint[], Map<string, ExecutionDays>>();
+
+/**
+ * 取得 timestamp 所在日的 UTC 零點
+ */
+export function startOfUtcDay(timestamp: number): number {
+    return Math.floor(timestamp / DAY_MS) * DAY_MS;
+}
+
+/**
+ * 取得設定中的排程 (相容只有 dcaFrequency 的舊設定)
+ */
+export function getSchedule(config: BacktestConfig): DcaSchedule {
+    return config.schedule ?? { type: 'interval', days: config.dcaFrequency };
+}
+
+/**
+ * 排程的文字描述
+ */
+export function describeSchedule(schedule: DcaSchedule): string {
+    switch (schedule.type) {
+        case 'interval':
+            return `每 ${schedule.days} 天`;
+        case 'weekly':
+            return `每週${[...schedule.weekdays].sort((a, b) => a - b).map(d => WEEKDAY_LABELS[d]).join('、')}`;
+        case 'monthly':
+            return `每月 ${[...schedule.days].sort((a, b) => a - b).join('、')} 日`;
+        case 'lastBusinessDay':
+            return '每月最後一個工作日';
+        case 'custom':
+            return `自訂 ${schedule.dates.length} 個日期`;
+    }
+}
+
+/**
+ * 判斷某一天 (UTC 日序號) 是否為排程日
+ */
+function isScheduledDay(schedule: DcaSchedule, day: number, startDay: number, customDays: Set<number>): boolean {
+    const date = new Date(day * DAY_MS);
+
+    switch (schedule.type) {
+        case 'interval':
+            return schedule.days > 0 && (day - startDay) % schedule.days === 0;
+        case 'weekly':
+            return schedule.weekdays.includes(date.getUTCDay());
+        case 'monthly': {
+            const dayOfMonth = date.getUTCDate();
+            const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+            // 設定 31 日但當月只有 30 天時，於月底執行
+            return schedule.days.some(d => Math.min(d, daysInMonth) === dayOfMonth);
+        }
+        case 'lastBusinessDay': {
+            const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0));
+            while (lastDay.getUTCDay() === 0 || lastDay.getUTCDay() === 6) {
+                lastDay.setUTCDate(lastDay.getUTCDate() - 1);
+            }
+            return lastDay.getUTCDate() === date.getUTCDate();
+        }
+        case 'custom':
+            return customDays.has(day);
+    }
+}
+
+/**
+ * 展開排程為實際執行日
+ *
+ * 邏輯說明：
+ * 1. 列出 [開始日, 結束日] 之間所有排程日 (日曆日)
+ * 2. 排程日有價格資料 -> 當天執行
+ * 3. 排程日缺資料 -> 依 missingDay 順延至下一個有資料的日子，或略過
+ * 多個排程日順延到同一天時只執行一次
+ */
+export function resolveExecutionDays(
+    dailyPrices: PriceDataPoint[],
+    schedule: DcaSchedule,
+    startTimestamp: number,
+    endTimestamp: number
+): ExecutionDays {
+    const cacheKey = `${JSON.stringify(schedule)}|${startTimestamp}|${endTimestamp}`;
+    let cacheForPrices = executionCache.get(dailyPrices);
+    const cached = cacheForPrices?.get(cacheKey);
+    if (cached) return cached;
+
+    const result: ExecutionDays = new Map();
+    const inWindow = dailyPrices.filter(p => p.timestamp >= startTimestamp && p.timestamp <= endTimestamp);
+
+    if (inWindow.length > 0) {
+        const startDay = Math.floor(startTimestamp / DAY_MS);
+        const lastDay = Math.floor(inWindow[inWindow.length - 1].timestamp / DAY_MS);
+        const customDays = new Set(
+            schedule.type === 'custom'
+                ? schedule.dates.map(d => Math.floor(new Date(d).getTime() / DAY_MS)).filter(d => !isNaN(d))
+                : []
+        );
+        const allowShift = (schedule.missingDay ?? 'nextAvailable') === 'nextAvailable';
+
+        let cursor = 0; // 指向第一個日序號 >= 當前排程日的價格點
+        for (let day = startDay; day <= lastDay; day++) {
+            if (!isScheduledDay(schedule, day, startDay, customDays)) continue;
+
+            while (cursor < inWindow.length && Math.floor(inWindow[cursor].timestamp / DAY_MS) < day) {
+                cursor++;
+            }
+            const point = inWindow[cursor];
+            if (!point) break;
+
+            const isExactDay = Math.floor(point.timestamp / DAY_MS) === day;
+            if ((isExactDay || allowShift) && !result.has(point.timestamp)) {
+                result.set(point.timestamp, day * DAY_MS);
+            }
+        }
+    }
+
+    if (!cacheForPrices) {
+        cacheForPrices = new Map();
+        executionCache.set(dailyPrices, cacheForPrices);
+    }
+    cacheForPrices.set(cacheKey, result);
+    return result;
+}
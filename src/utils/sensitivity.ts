@@ -0,0 +1,206 @@
+/* ===================================
+   參數敏感度分析
+   在一或兩個參數的範圍內逐點回測，觀察策略對設定值的依賴程度
+=================================== */
+
+import type { BacktestConfig, BacktestResult, DrawdownTier, PriceDataPoint } from '../types';
+import { prepareDailyPrices, runBacktest } from './calculator';
+
+const BATCH_SIZE = 20; // 每批回測數 (批次間讓出執行緒以更新進度與處理取消)
+const MAX_STEPS = 50;  // 單軸取樣點上限
+
+export const SENSITIVITY_CANCELLED = 'SENSITIVITY_CANCELLED';
+export const SENSITIVITY_ERROR = 'SENSITIVITY_ERROR';
+
+/**
+ * 可調整的參數
+ * - config: 回測設定欄位 (dcaFrequency 會以「每 N 天」排程取代目前排程)
+ * - tier: 單一回撤級距的閾值或倍率
+ */
+export type SensitivityParameter =
+    | { kind: 'config'; field: 'baseDcaAmount' | 'dcaFrequency' | 'initialCapital' }
+    | { kind: 'tier'; tierId: string; field: 'threshold' | 'multiplier' };
+
+/**
+ * 單一軸的掃描範圍 (含 min 與 max，共 steps 個點)
+ */
+export interface SweepAxis {
+    parameter: SensitivityParameter;
+    min: number;
+    max: number;
+    steps: number;
+}
+
+export interface SensitivityOptions {
+    x: SweepAxis;
+    y?: SweepAxis;            // 未指定時為一維掃描
+}
+
+/**
+ * 單一參數組合的結果
+ */
+export interface SensitivityCell {
+    roi: number;
+    totalCoins: number;
+    averagePrice: number;
+    runwayDays: number;       // 資金可支撐的天數 (未耗盡時為整個執行期間)
+    fundsDepleted: boolean;
+}
+
+export type SensitivityMetric = Exclude<keyof SensitivityCell, 'fundsDepleted'>;
+
+export const SENSITIVITY_METRIC_LABELS: Record<SensitivityMetric, string> = {
+    roi: '投報率',
+    totalCoins: '持倉量',
+    averagePrice: '均價',
+    runwayDays: '資金續航 (天)',
+};
+
+export interface SensitivityResult {
+    x: { parameter: SensitivityParameter; values: number[] };
+    y?: { parameter: SensitivityParameter; values: number[] };
+    cells: SensitivityCell[][]; // cells[y 索引][x 索引]，一維時只有一列
+    baseline: SensitivityCell;  // 目前設定的結果
+}
+
+export interface SensitivityControl {
+    isCancelled: () => boolean;
+}
+
+export type SensitivityProgressCallback = (completed: number, total: number) => void;
+
+/**
+ * 讀取目前設定中的參數值 (找不到級距時為 undefined)
+ */
+export function getParameterValue(
+    parameter: SensitivityParameter,
+    config: BacktestConfig,
+    tiers: DrawdownTier[]
+): number | undefined {
+    if (parameter.kind === 'config') return config[parameter.field];
+    return tiers.find(t => t.id === parameter.tierId)?.[parameter.field];
+}
+
+/**
+ * 套用參數值，回傳新的設定與級距 (不修改原物件)
+ */
+function applyParameter(
+    parameter: SensitivityParameter,
+    value: number,
+    config: BacktestConfig,
+    tiers: DrawdownTier[]
+): { config: BacktestConfig; tiers: DrawdownTier[] } {
+    if (parameter.kind === 'tier') {
+        return {
+            config,
+            tiers: tiers.map(t => (t.id === parameter.tierId ? { ...t, [parameter.field]: value } : t))
+        };
+    }
+    if (parameter.field === 'dcaFrequency') {
+        const days = Math.max(1, Math.round(value));
+        return {
+            config: { ...config, dcaFrequency: days, schedule: { type: 'interval', days, missingDay: config.schedule?.missingDay } },
+            tiers
+        };
+    }
+    return { config: { ...config, [parameter.field]: value }, tiers };
+}
+
+/**
+ * 軸上的取樣值 (等距)
+ */
+function axisValues(axis: SweepAxis): number[] {
+    const steps = Math.floor(axis.steps);
+    if (!isFinite(axis.min) || !isFinite(axis.max) || axis.max < axis.min) {
+        throw { code: SENSITIVITY_ERROR, message: '掃描範圍無效：最大值必須大於或等於最小值' };
+    }
+    if (!(steps >= 1 && steps <= MAX_STEPS)) {
+        throw { code: SENSITIVITY_ERROR, message: `取樣點數必須介於 1 與 ${MAX_STEPS} 之間` };
+    }
+    if (steps === 1) return [axis.min];
+    return Array.from({ length: steps }, (_, i) => axis.min + ((axis.max - axis.min) * i) / (steps - 1));
+}
+
+function toCell(result: BacktestResult): SensitivityCell {
+    return {
+        roi: result.roi,
+        totalCoins: result.totalCoins,
+        averagePrice: result.averagePrice,
+        runwayDays: result.executionDuration,
+        fundsDepleted: result.fundsDepleted
+    };
+}
+
+/**
+ * 執行參數敏感度分析
+ *
+ * 邏輯說明：
+ * 1. 每個軸在 [min, max] 間等距取樣，兩軸時為所有組合
+ * 2. 其餘設定與級距維持不變，以 Lite Mode 回測
+ * 3. 同一參數不可同時作為兩軸
+ */
+export async function runSensitivity(
+    prices: PriceDataPoint[],
+    config: BacktestConfig,
+    tiers: DrawdownTier[],
+    options: SensitivityOptions,
+    onProgress?: SensitivityProgressCallback,
+    control?: SensitivityControl
+): Promise<SensitivityResult> {
+    const axes = options.y ? [options.x, options.y] : [options.x];
+    for (const axis of axes) {
+        if (getParameterValue(axis.parameter, config, tiers) === undefined) {
+            throw { code: SENSITIVITY_ERROR, message: '找不到要分析的級距' };
+        }
+    }
+    if (options.y && JSON.stringify(options.x.parameter) === JSON.stringify(options.y.parameter)) {
+        throw { code: SENSITIVITY_ERROR, message: '兩個軸不可使用相同參數' };
+    }
+
+    const xValues = axisValues(options.x);
+    const yValues = options.y ? axisValues(options.y) : [];
+
+    const dailyPrices = prepareDailyPrices(prices, config);
+    if (dailyPrices.length === 0) {
+        throw { code: SENSITIVITY_ERROR, message: '沒有價格資料' };
+    }
+
+    const backtestOptions = { liteMode: true, preAggregated: true };
+    const baseline = toCell(runBacktest(dailyPrices, config, tiers, backtestOptions));
+
+    // 1. 所有參數組合 (一維時 y 只有一列)
+    const rows = options.y ? yValues.length : 1;
+    const total = rows * xValues.length;
+    const cells: SensitivityCell[][] = [];
+    let completed = 0;
+
+    // 2. 逐批回測
+    for (let row = 0; row < rows; row++) {
+        const rowConfig = options.y
+            ? applyParameter(options.y.parameter, yValues[row], config, tiers)
+            : { config, tiers };
+        const rowCells: SensitivityCell[] = [];
+
+        for (const xValue of xValues) {
+            const point = applyParameter(options.x.parameter, xValue, rowConfig.config, rowConfig.tiers);
+            rowCells.push(toCell(runBacktest(dailyPrices, point.config, point.tiers, backtestOptions)));
+            completed++;
+
+            if (completed % BATCH_SIZE === 0 || completed === total) {
+                onProgress?.(completed, total);
+                await new Promise(r => setTimeout(r, 0));
+                if (control?.isCancelled()) {
+                    throw { code: SENSITIVITY_CANCELLED, message: '分析已取消' };
+                }
+            }
+        }
+        cells.push(rowCells);
+    }
+
+    return {
+        x: { parameter: options.x.parameter, values: xValues },
+        y: options.y ? { parameter: options.y.parameter, values: yValues } : undefined,
+        cells,
+        baseline
+    };
+}
@@ -0,0 +1,210 @@
+/* ===================================
+   合成價格產生器
+   以隨機模型產生價格路徑，用於壓力測試級距表
+=================================== */
+
+import type { PriceDataPoint } from '../types';
+import { normalizeDailyPrices } from './dataQuality';
+import { startOfUtcDay } from './schedule';
+import { createRandom } from './random';
+import type { RandomSource } from './random';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365; // 加密貨幣全年交易
+
+/**
+ * 單一市場狀態的參數 (年化)
+ */
+export interface RegimeParams {
+    drift: number;            // 年化報酬 (0.5 = +50%)
+    volatility: number;       // 年化波動度
+    avgDays: number;          // 平均持續天數
+}
+
+/**
+ * 合成模型
+ * - gbm: 幾何布朗運動
+ * - regime: 牛熊兩狀態切換 (每日以 1 / avgDays 的機率切換)
+ * - jump: 跳躍擴散 (GBM + Poisson 跳躍，跳幅為對數常態)
+ * - bootstrap: 區塊重抽樣真實幣種的每日報酬 (保留波動聚集)
+ */
+export type SyntheticModel =
+    | { type: 'gbm'; drift: number; volatility: number }
+    | { type: 'regime'; bull: RegimeParams; bear: RegimeParams }
+    | { type: 'jump'; drift: number; volatility: number; jumpsPerYear: number; jumpMean: number; jumpVolatility: number }
+    | { type: 'bootstrap'; blockDays: number };
+
+export type SyntheticModelType = SyntheticModel['type'];
+
+export interface SyntheticOptions {
+    days: number;             // 產生天數
+    startPrice: number;
+    seed: number;             // 相同種子與參數產生相同路徑
+    endDate?: Date;           // 最後一天 (預設今天)
+}
+
+export const SYNTHETIC_ERROR = 'SYNTHETIC_ERROR';
+
+export const SYNTHETIC_MODEL_LABELS: Record<SyntheticModelType, string> = {
+    gbm: '幾何布朗運動',
+    regime: '牛熊狀態切換',
+    jump: '跳躍擴散 (崩盤)',
+    bootstrap: '歷史報酬重抽樣',
+};
+
+/**
+ * 各模型的預設參數 (大致接近 BTC 的長期特性)
+ */
+export const DEFAULT_SYNTHETIC_MODELS: Record<SyntheticModelType, SyntheticModel> = {
+    gbm: { type: 'gbm', drift: 0.3, volatility: 0.7 },
+    regime: {
+        type: 'regime',
+        bull: { drift: 1.2, volatility: 0.6, avgDays: 400 },
+        bear: { drift: -0.8, volatility: 0.8, avgDays: 300 }
+    },
+    jump: { type: 'jump', drift: 0.4, volatility: 0.6, jumpsPerYear: 2, jumpMean: -0.2, jumpVolatility: 0.1 },
+    bootstrap: { type: 'bootstrap', blockDays: 30 },
+};
+
+/**
+ * 標準常態亂數 (Box-Muller)
+ */
+function normal(random: RandomSource): number {
+    const u = 1 - random(); // 避免 log(0)
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Poisson 亂數 (Knuth，適用於小 lambda)
+ */
+function poisson(lambda: number, random: RandomSource): number {
+    const limit = Math.exp(-lambda);
+    let count = 0;
+    let product = random();
+    while (product > limit) {
+        count++;
+        product *= random();
+    }
+    return count;
+}
+
+/**
+ * 單日 GBM 對數報酬
+ */
+function gbmStep(drift: number, volatility: number, random: RandomSource): number {
+    const dt = 1 / DAYS_PER_YEAR;
+    return (drift - (volatility * volatility) / 2) * dt + volatility * Math.sqrt(dt) * normal(random);
+}
+
+/**
+ * 真實價格的每日對數報酬 (只取相鄰兩日，缺口不計)
+ */
+export function dailyLogReturns(prices: PriceDataPoint[]): number[] {
+    const daily = normalizeDailyPrices(prices).daily;
+    const returns: number[] = [];
+    for (let i = 1; i < daily.length; i++) {
+        const days = Math.round((startOfUtcDay(daily[i].timestamp) - startOfUtcDay(daily[i - 1].timestamp)) / DAY_MS);
+        if (days === 1) {
+            returns.push(Math.log(daily[i].price / daily[i - 1].price));
+        }
+    }
+    return returns;
+}
+
+/**
+ * 產生 count 個每日對數報酬
+ * bootstrap 模型需提供來源的每日對數報酬 (dailyLogReturns)
+ */
+export function generateLogReturns(model: SyntheticModel, count: number, random: RandomSource, sourceReturns: number[] = []): number[] {
+    const returns: number[] = [];
+
+    switch (model.type) {
+        case 'gbm':
+            for (let i = 0; i < count; i++) {
+                returns.push(gbmStep(model.drift, model.volatility, random));
+            }
+            break;
+
+        case 'regime': {
+            let state = model.bull; // 由牛市開始
+            for (let i = 0; i < count; i++) {
+                if (random() < 1 / Math.max(1, state.avgDays)) {
+                    state = state === model.bull ? model.bear : model.bull;
+                }
+                returns.push(gbmStep(state.drift, state.volatility, random));
+            }
+            break;
+        }
+
+        case 'jump': {
+            // 跳幅不可達 -100% 以下，否則 log(1 + jumpMean) 無意義
+            if (!(model.jumpMean > -1)) {
+                throw { code: SYNTHETIC_ERROR, message: '平均跳幅必須大於 -100%' };
+            }
+            const lambda = model.jumpsPerYear / DAYS_PER_YEAR;
+            for (let i = 0; i < count; i++) {
+                let r = gbmStep(model.drift, model.volatility, random);
+                const jumps = poisson(lambda, random);
+                for (let j = 0; j < jumps; j++) {
+                    // jumpMean 為簡單報酬 (-0.2 = 單日下跌 20%)
+                    r += Math.log(1 + model.jumpMean) + model.jumpVolatility * normal(random);
+                }
+                returns.push(r);
+            }
+            break;
+        }
+
+        case 'bootstrap': {
+            const blockDays = Math.max(1, Math.round(model.blockDays));
+            if (sourceReturns.length < blockDays) {
+                throw { code: SYNTHETIC_ERROR, message: `重抽樣需要至少 ${blockDays + 1} 天的連續歷史價格` };
+            }
+            while (returns.length < count) {
+                const start = Math.floor(random() * (sourceReturns.length - blockDays + 1));
+                returns.push(...sourceReturns.slice(start, start + blockDays));
+            }
+            returns.length = count;
+            break;
+        }
+    }
+
+    return returns;
+}
+
+/**
+ * 產生合成價格序列
+ *
+ * 邏輯說明：
+ * 1. 依模型逐日產生對數報酬 (bootstrap 需提供來源價格)
+ * 2. 由 startPrice 累積成每日價格，最後一天對齊 endDate
+ * 3. 使用種子亂數，相同參數可重現同一條路徑
+ */
+export function generateSyntheticPrices(
+    model: SyntheticModel,
+    options: SyntheticOptions,
+    sourcePrices?: PriceDataPoint[]
+): PriceDataPoint[] {
+    const days = Math.floor(options.days);
+    if (!isFinite(days) || days < 2) {
+        throw { code: SYNTHETIC_ERROR, message: '產生天數至少需要 2 天' };
+    }
+    if (!isFinite(options.startPrice) || options.startPrice <= 0) {
+        throw { code: SYNTHETIC_ERROR, message: '起始價格必須大於 0' };
+    }
+
+    const random = createRandom(options.seed);
+    const sourceReturns = model.type === 'bootstrap' ? dailyLogReturns(sourcePrices ?? []) : [];
+    const returns = generateLogReturns(model, days - 1, random, sourceReturns);
+
+    const lastDay = startOfUtcDay((options.endDate ?? new Date()).getTime());
+    const firstDay = lastDay - (days - 1) * DAY_MS;
+
+    const prices: PriceDataPoint[] = [{ timestamp: firstDay, price: options.startPrice }];
+    let logPrice = Math.log(options.startPrice);
+    returns.forEach((r, i) => {
+        logPrice += r;
+        prices.push({ timestamp: firstDay + (i + 1) * DAY_MS, price: Math.exp(logPrice) });
+    });
+    return prices;
+}
@@ -0,0 +1,45 @@
+/* ===================================
+   Monte Carlo Web Worker
+   Simulates strategy outcomes over many price paths off the main thread.
+=================================== */
+
+import { runMonteCarlo, MONTE_CARLO_CANCELLED } from '../utils/monteCarlo';
+import type { MonteCarloWorkerRequest, MonteCarloWorkerResponse } from './monteCarloMessages';
+
+let cancelled = false;
+
+function post(message: MonteCarloWorkerResponse) {
+    self.postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<MonteCarloWorkerRequest>) => {
+    const message = event.data;
+
+    switch (message.type) {
+        case 'cancel':
+            cancelled = true;
+            break;
+
+        case 'start':
+            cancelled = false;
+            try {
+                const result = await runMonteCarlo(
+                    message.prices,
+                    message.config,
+                    message.tiers,
+                    message.options,
+                    (completed, total) => post({ type: 'progress', completed, total }),
+                    { isCancelled: () => cancelled }
+                );
+                post({ type: 'done', result });
+            } catch (err) {
+                const error = err as { code?: string; message?: string };
+                if (error.code === MONTE_CARLO_CANCELLED) {
+                    post({ type: 'cancelled' });
+                } else {
+                    post({ type: 'error', code: error.code, message: error.message || String(err) });
+                }
+            }
+            break;
+    }
+};
@@ -0,0 +1,62 @@
+/* ===================================
+   Monte Carlo Worker Client
+   Starts a Monte Carlo run in a dedicated worker and exposes cancellation.
+=================================== */
+
+import type { BacktestConfig, DrawdownTier, PriceDataPoint } from '../types';
+import { MONTE_CARLO_CANCELLED } from '../utils/monteCarlo';
+import type { MonteCarloOptions, MonteCarloProgressCallback, MonteCarloResult } from '../utils/monteCarlo';
+import type { MonteCarloWorkerRequest, MonteCarloWorkerResponse } from './monteCarloMessages';
+
+export interface MonteCarloRun {
+    result: Promise<MonteCarloResult>; // Rejects with { code: MONTE_CARLO_CANCELLED } when cancelled
+    cancel: () => void;
+}
+
+/**
+ * Start a Monte Carlo run in a new worker.
+ * The worker is terminated once the run finishes, fails or is cancelled.
+ */
+export function startMonteCarloRun(
+    prices: PriceDataPoint[],
+    config: BacktestConfig,
+    tiers: DrawdownTier[],
+    options: MonteCarloOptions,
+    onProgress?: MonteCarloProgressCallback
+): MonteCarloRun {
+    const worker = new Worker(new URL('./monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+    const send = (message: MonteCarloWorkerRequest) => worker.postMessage(message);
+
+    const result = new Promise<MonteCarloResult>((resolve, reject) => {
+        worker.onmessage = (event: MessageEvent<MonteCarloWorkerResponse>) => {
+            const message = event.data;
+            switch (message.type) {
+                case 'progress':
+                    onProgress?.(message.completed, message.total);
+                    return;
+                case 'done':
+                    resolve(message.result);
+                    break;
+                case 'cancelled':
+                    reject({ code: MONTE_CARLO_CANCELLED, message: '模擬已取消' });
+                    break;
+                case 'error':
+                    reject({ code: message.code ?? 'MONTE_CARLO_ERROR', message: message.message });
+                    break;
+            }
+            worker.terminate();
+        };
+
+        worker.onerror = (event) => {
+            reject({ code: 'MONTE_CARLO_ERROR', message: event.message });
+            worker.terminate();
+        };
+    });
+
+    send({ type: 'start', prices, config, tiers, options });
+
+    return {
+        result,
+        cancel: () => send({ type: 'cancel' }),
+    };
+}
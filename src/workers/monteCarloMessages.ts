@@ -0,0 +1,19 @@
+/* ===================================
+   Monte Carlo Worker Messages
+   Message contract between the UI thread and the Monte Carlo worker.
+=================================== */
+
+import type { BacktestConfig, DrawdownTier, PriceDataPoint } from '../types';
+import type { MonteCarloOptions, MonteCarloResult } from '../utils/monteCarlo';
+
+// UI -> Worker
+export type MonteCarloWorkerRequest =
+    | { type: 'start'; prices: PriceDataPoint[]; config: BacktestConfig; tiers: DrawdownTier[]; options: MonteCarloOptions }
+    | { type: 'cancel' };
+
+// Worker -> UI
+export type MonteCarloWorkerResponse =
+    | { type: 'progress'; completed: number; total: number }
+    | { type: 'done'; result: MonteCarloResult }
+    | { type: 'cancelled' }
+    | { type: 'error'; code?: string; message: string };
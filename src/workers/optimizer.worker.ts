@@ -0,0 +1,69 @@
+/* ===================================
+   Optimizer Web Worker
+   Runs the genetic algorithm off the main thread.
+=================================== */
+
+import { runGeneticOptimizer, OPTIMIZER_CANCELLED } from '../utils/optimizer';
+import type { OptimizerControl } from '../utils/optimizer';
+import type { OptimizerWorkerRequest, OptimizerWorkerResponse } from './optimizerMessages';
+
+let cancelled = false;
+let resumeRun: (() => void) | null = null;
+let pausePromise: Promise<void> | null = null;
+
+const control: OptimizerControl = {
+    isCancelled: () => cancelled,
+    waitIfPaused: () => pausePromise ?? Promise.resolve(),
+};
+
+function post(message: OptimizerWorkerResponse) {
+    self.postMessage(message);
+}
+
+function resume() {
+    resumeRun?.();
+    resumeRun = null;
+    pausePromise = null;
+}
+
+self.onmessage = async (event: MessageEvent<OptimizerWorkerRequest>) => {
+    const message = event.data;
+
+    switch (message.type) {
+        case 'pause':
+            if (!pausePromise) {
+                pausePromise = new Promise(resolve => { resumeRun = resolve; });
+            }
+            break;
+
+        case 'resume':
+            resume();
+            break;
+
+        case 'cancel':
+            cancelled = true;
+            resume(); // A paused run must wake up to observe the cancellation
+            break;
+
+        case 'start':
+            cancelled = false;
+            try {
+                const result = await runGeneticOptimizer(
+                    message.prices,
+                    message.config,
+                    message.options,
+                    (progress, generation, best) => post({ type: 'progress', progress, generation, best }),
+                    control
+                );
+                post({ type: 'done', result });
+            } catch (err) {
+                const error = err as { code?: string; message?: string };
+                if (error.code === OPTIMIZER_CANCELLED) {
+                    post({ type: 'cancelled' });
+                } else {
+                    post({ type: 'error', code: error.code, message: error.message || String(err) });
+                }
+            }
+            break;
+    }
+};
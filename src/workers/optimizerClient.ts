@@ -0,0 +1,65 @@
+/* ===================================
+   Optimizer Worker Client
+   Starts an optimizer run in a dedicated worker and exposes run controls.
+=================================== */
+
+import type { BacktestConfig, PriceDataPoint } from '../types';
+import { OPTIMIZER_CANCELLED } from '../utils/optimizer';
+import type { OptimizationResult, OptimizerOptions, ProgressCallback } from '../utils/optimizer';
+import type { OptimizerWorkerRequest, OptimizerWorkerResponse } from './optimizerMessages';
+
+export interface OptimizerRun {
+    result: Promise<OptimizationResult>; // Rejects with { code: OPTIMIZER_CANCELLED } when cancelled
+    pause: () => void;
+    resume: () => void;
+    cancel: () => void;
+}
+
+/**
+ * Start a genetic optimizer run in a new worker.
+ * The worker is terminated once the run finishes, fails or is cancelled.
+ */
+export function startOptimizerRun(
+    prices: PriceDataPoint[],
+    config: BacktestConfig,
+    options: OptimizerOptions = {},
+    onProgress?: ProgressCallback
+): OptimizerRun {
+    const worker = new Worker(new URL('./optimizer.worker.ts', import.meta.url), { type: 'module' });
+    const send = (message: OptimizerWorkerRequest) => worker.postMessage(message);
+
+    const result = new Promise<OptimizationResult>((resolve, reject) => {
+        worker.onmessage = (event: MessageEvent<OptimizerWorkerResponse>) => {
+            const message = event.data;
+            switch (message.type) {
+                case 'progress':
+                    onProgress?.(message.progress, message.generation, message.best);
+                    return;
+                case 'done':
+                    resolve(message.result);
+                    break;
+                case 'cancelled':
+                    reject({ code: OPTIMIZER_CANCELLED, message: '最佳化已取消' });
+                    break;
+                case 'error':
+                    reject({ code: message.code ?? 'OPTIMIZER_ERROR', message: message.message });
+                    break;
+            }
+            worker.terminate();
+        };
+
+        worker.onerror = (event) => {
+            reject({ code: 'OPTIMIZER_ERROR', message: event.message });
+            worker.terminate();
+        };
+    });
+
+    send({ type: 'start', prices, config, options });
+
+    return {
+        result,
+        pause: () => send({ type: 'pause' }),
+        resume: () => send({ type: 'resume' }),
+        cancel: () => send({ type: 'cancel' }),
+    };
+}
@@ -0,0 +1,21 @@
+/* ===================================
+   Optimizer Worker Messages
+   Message contract between the UI thread and the optimizer worker.
+=================================== */
+
+import type { BacktestConfig, PriceDataPoint } from '../types';
+import type { OptimizationResult, OptimizerOptions, StrategyGenome } from '../utils/optimizer';
+
+// UI -> Worker
+export type OptimizerWorkerRequest =
+    | { type: 'start'; prices: PriceDataPoint[]; config: BacktestConfig; options: OptimizerOptions }
+    | { type: 'pause' }
+    | { type: 'resume' }
+    | { type: 'cancel' };
+
+// Worker -> UI
+export type OptimizerWorkerResponse =
+    | { type: 'progress'; progress: number; generation: number; best: StrategyGenome }
+    | { type: 'done'; result: OptimizationResult }
+    | { type: 'cancelled' }
+    | { type: 'error'; code?: string; message: string };